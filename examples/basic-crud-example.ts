@@ -255,7 +255,7 @@ async function batchOperations() {
 
   // Batch get: Retrieve multiple items
   console.log('\nBatch getting multiple users...')
-  const users = await table.batchGet([
+  const { items: users } = await table.batchGet([
     { pk: 'USER#user1', sk: 'PROFILE' },
     { pk: 'USER#user2', sk: 'PROFILE' },
     { pk: 'USER#user3', sk: 'PROFILE' },
@@ -0,0 +1,232 @@
+/**
+ * Read-through cache for items and access pattern results
+ */
+
+import type { Key } from '@ddb-lib/core'
+import type { CacheConfig, CacheStore } from './types'
+import { canonicalJson } from './cursor'
+
+/**
+ * Default lifetime of cached entries in seconds
+ */
+const DEFAULT_CACHE_TTL = 60
+
+/**
+ * Default maximum number of entries of the in-memory store
+ */
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * In-memory cache store evicting the least recently used entry when full
+ * Values are copied on the way in and out, so callers can't change cached items.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore({ maxEntries: 10_000 })
+ * const flags = new TableClient({ tableName: 'flags', cache: { store, ttl: 30 } })
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>()
+
+  constructor(options?: { maxEntries?: number }) {
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error('maxEntries must be a positive integer')
+    }
+  }
+
+  /**
+   * Number of entries currently held, including expired ones not yet evicted
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  async get(key: string): Promise<unknown> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) {
+      return undefined
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.set(key, entry)
+    return structuredClone(entry.value)
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    })
+
+    // Map iteration order is insertion order, so the first entry is the least recently used
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Cache of one TableClient, namespacing its entries by table name
+ * Tracks the access pattern entries it stored, so writes can invalidate them. This index is kept
+ * in process memory: with a store shared between processes, a write only invalidates the pattern
+ * results cached by its own process, and other processes serve theirs until they expire.
+ *
+ * Reads racing a write may return the item from before the write after its invalidation ran, so
+ * keys being read carry a generation bumped by invalidation, and stale reads are not cached.
+ */
+export class ItemCache {
+  private readonly store: CacheStore
+  private readonly ttl: number
+  private readonly patterns: Set<string>
+  private readonly patternKeys = new Set<string>()
+  private readonly reads = new Map<string, { readers: number; generation: number }>()
+  private patternGeneration = 0
+
+  constructor(
+    private readonly tableName: string,
+    config: CacheConfig
+  ) {
+    this.store = config.store ?? new MemoryCacheStore({ maxEntries: config.maxEntries })
+    this.ttl = config.ttl ?? DEFAULT_CACHE_TTL
+    this.patterns = new Set(config.patterns ?? [])
+  }
+
+  /**
+   * Get a cached item
+   * @returns `{ item }` on a hit (`item` is null for items known not to exist), undefined on a miss
+   */
+  async getItem<T>(key: Key): Promise<{ item: T | null } | undefined> {
+    return (await this.store.get(this.itemKey(key))) as { item: T | null } | undefined
+  }
+
+  /**
+   * Read items from the table and cache them
+   * Keys invalidated while the read is in flight are not cached.
+   * @param keys - Keys being read
+   * @param read - Table read
+   * @param items - Items of the read result by key, null for keys without item
+   * @returns The result of the read
+   */
+  async readItems<R, T>(
+    keys: Key[],
+    read: () => Promise<R>,
+    items: (result: R) => Array<[Key, T | null]>
+  ): Promise<R> {
+    const ids = [...new Set(keys.map((key) => this.itemKey(key)))]
+    const started = new Map(
+      ids.map((id) => {
+        const entry = this.reads.get(id) ?? { readers: 0, generation: 0 }
+        entry.readers++
+        this.reads.set(id, entry)
+        return [id, entry.generation]
+      })
+    )
+
+    try {
+      const result = await read()
+      const current = items(result)
+        .map(([key, item]) => ({ id: this.itemKey(key), item }))
+        .filter(({ id }) => started.has(id) && this.reads.get(id)?.generation === started.get(id))
+      await Promise.all(current.map(({ id, item }) => this.store.set(id, { item }, this.ttl)))
+      return result
+    } finally {
+      for (const id of ids) {
+        const entry = this.reads.get(id)
+        if (entry && --entry.readers === 0) {
+          this.reads.delete(id)
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether executePattern results of a pattern are cached
+   */
+  cachesPattern(patternName: string): boolean {
+    return this.patterns.has(patternName)
+  }
+
+  /**
+   * Get the cached result of an access pattern
+   */
+  async getPattern<T>(patternName: string, params: unknown): Promise<T[] | undefined> {
+    return (await this.store.get(this.patternKey(patternName, params))) as T[] | undefined
+  }
+
+  /**
+   * Generation of access pattern results, bumped by every invalidation
+   */
+  get generation(): number {
+    return this.patternGeneration
+  }
+
+  /**
+   * Cache the result of an access pattern
+   * @param generation - Generation when the query started; the result is not cached if a write
+   *   invalidated pattern results since
+   */
+  async setPattern<T>(
+    patternName: string,
+    params: unknown,
+    result: T[],
+    generation: number
+  ): Promise<void> {
+    if (generation !== this.patternGeneration) {
+      return
+    }
+    const key = this.patternKey(patternName, params)
+    this.patternKeys.add(key)
+    await this.store.set(key, result, this.ttl)
+  }
+
+  /**
+   * Remove the cached items of the given keys and all cached access pattern results
+   */
+  async invalidate(keys: Key[]): Promise<void> {
+    const itemKeys = keys.map((key) => this.itemKey(key))
+    for (const id of itemKeys) {
+      const entry = this.reads.get(id)
+      if (entry) {
+        entry.generation++
+      }
+    }
+    this.patternGeneration++
+
+    const patternKeys = [...this.patternKeys]
+    this.patternKeys.clear()
+    await Promise.all(
+      [...itemKeys, ...patternKeys].map((key) => this.store.delete(key))
+    )
+  }
+
+  /**
+   * Cache key of the identifying key of an item
+   */
+  itemKey(key: Key): string {
+    return `${this.tableName}#item#${canonicalJson(key)}`
+  }
+
+  private patternKey(patternName: string, params: unknown): string {
+    return `${this.tableName}#pattern#${patternName}#${canonicalJson(params)}`
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for opaque pagination cursors
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { encodeCursor, decodeCursor } from './cursor'
+import { InvalidCursorError } from './errors'
+
+describe('Pagination cursors', () => {
+  test('should round-trip keys through opaque base64url cursors', () => {
+    const key = { pk: 'USER#1', sk: 'ORDER#9', version: 3 }
+
+    const cursor = encodeCursor(key)
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(cursor).not.toContain('USER#1')
+    expect(decodeCursor(cursor)).toEqual(key)
+  })
+
+  test('should preserve binary key values', () => {
+    const key = { id: new Uint8Array([1, 2, 255]) }
+
+    expect(decodeCursor(encodeCursor(key))).toEqual(key)
+  })
+
+  test('should verify signed cursors', () => {
+    const cursor = encodeCursor({ pk: 'USER#1' }, { secret: 's3cret' })
+
+    expect(decodeCursor(cursor, { secret: 's3cret' })).toEqual({ pk: 'USER#1' })
+    expect(() => decodeCursor(cursor, { secret: 'other' })).toThrow('Cursor signature is invalid')
+    expect(() => decodeCursor(cursor)).toThrow('Cursor is signed but no secret was given')
+    expect(() => decodeCursor(encodeCursor({ pk: 'USER#1' }), { secret: 's3cret' })).toThrow(
+      'Cursor signature is invalid'
+    )
+  })
+
+  test('should reject tampered signed cursors', () => {
+    const [, signature] = encodeCursor({ pk: 'USER#1' }, { secret: 's3cret' }).split('.')
+    const [forgedBody] = encodeCursor({ pk: 'USER#2' }).split('.')
+
+    expect(() => decodeCursor(`${forgedBody}.${signature}`, { secret: 's3cret' })).toThrow(
+      InvalidCursorError
+    )
+  })
+
+  test('should reject cursors bound to other values', () => {
+    const cursor = encodeCursor({ pk: 'USER#1' }, { bindTo: { userId: '1', status: 'open' } })
+
+    expect(decodeCursor(cursor, { bindTo: { status: 'open', userId: '1' } })).toEqual({
+      pk: 'USER#1',
+    })
+    expect(() => decodeCursor(cursor, { bindTo: { userId: '2', status: 'open' } })).toThrow(
+      'Cursor does not match the request parameters'
+    )
+    expect(() => decodeCursor(cursor)).toThrow('Cursor does not match the request parameters')
+  })
+
+  test('should reject malformed cursors', () => {
+    const notJson = Buffer.from('not json').toString('base64url')
+    const wrongShape = Buffer.from(JSON.stringify({ v: 1, k: { pk: [1] } })).toString('base64url')
+
+    for (const cursor of ['', 'a.b.c', notJson, wrongShape]) {
+      try {
+        decodeCursor(cursor)
+        throw new Error('expected decodeCursor to throw')
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidCursorError)
+        expect((error as InvalidCursorError).reason).toBe('malformed')
+      }
+    }
+  })
+})
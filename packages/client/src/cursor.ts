@@ -0,0 +1,175 @@
+/**
+ * Opaque pagination cursors for handing lastEvaluatedKey values to API clients
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import type { Key } from '@ddb-lib/core'
+import type { CursorOptions } from './types'
+import { InvalidCursorError } from './errors'
+
+/**
+ * Current cursor payload format
+ */
+const CURSOR_VERSION = 1
+
+/**
+ * Decoded cursor payload
+ */
+interface CursorPayload {
+  /** Payload format version */
+  v: number
+  /** Key attributes; binary values are stored as `{ b: base64 }` */
+  k: Record<string, string | number | { b: string }>
+  /** Hash of the values the cursor is bound to */
+  p?: string
+}
+
+/**
+ * Encode a lastEvaluatedKey as an opaque base64url cursor
+ * With a `secret` the cursor is HMAC-signed; with `bindTo` it only decodes for the same values
+ *
+ * @param key - Key to resume from (usually `lastEvaluatedKey`)
+ * @param options - Signing secret and values to bind the cursor to
+ * @returns Opaque cursor string
+ *
+ * @example
+ * ```typescript
+ * const cursor = encodeCursor(result.lastEvaluatedKey, { secret, bindTo: { userId } })
+ * ```
+ */
+export function encodeCursor(key: Key, options?: CursorOptions): string {
+  const encodedKey: CursorPayload['k'] = {}
+  for (const [attribute, value] of Object.entries(key)) {
+    if (value === undefined) {
+      continue
+    }
+    encodedKey[attribute] =
+      value instanceof Uint8Array ? { b: Buffer.from(value).toString('base64') } : value
+  }
+
+  const payload: CursorPayload = { v: CURSOR_VERSION, k: encodedKey }
+  if (options?.bindTo !== undefined) {
+    payload.p = hashBinding(options.bindTo)
+  }
+
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return options?.secret ? `${body}.${sign(body, options.secret)}` : body
+}
+
+/**
+ * Decode a cursor created by `encodeCursor` back into an exclusiveStartKey
+ * Must be given the same secret and bound values the cursor was encoded with
+ *
+ * @param cursor - Cursor string from a client
+ * @param options - Signing secret and values the cursor must be bound to
+ * @returns Key to pass as `exclusiveStartKey`
+ * @throws {InvalidCursorError} If the cursor is malformed, tampered with or bound to other values
+ */
+export function decodeCursor(cursor: string, options?: CursorOptions): Key {
+  const [body, signature, ...rest] = cursor.split('.')
+  if (!body || rest.length > 0) {
+    throw new InvalidCursorError('Cursor is malformed', 'malformed')
+  }
+
+  if (options?.secret) {
+    if (!signature || !signaturesMatch(signature, sign(body, options.secret))) {
+      throw new InvalidCursorError('Cursor signature is invalid', 'signature')
+    }
+  } else if (signature !== undefined) {
+    throw new InvalidCursorError('Cursor is signed but no secret was given', 'signature')
+  }
+
+  const payload = parsePayload(body)
+
+  const expectedBinding =
+    options?.bindTo === undefined ? undefined : hashBinding(options.bindTo)
+  if (payload.p !== expectedBinding) {
+    throw new InvalidCursorError('Cursor does not match the request parameters', 'mismatch')
+  }
+
+  const key: Key = {}
+  for (const [attribute, value] of Object.entries(payload.k)) {
+    key[attribute] =
+      typeof value === 'object' ? new Uint8Array(Buffer.from(value.b, 'base64')) : value
+  }
+  return key
+}
+
+/**
+ * Parse and check the JSON payload of a cursor
+ */
+function parsePayload(body: string): CursorPayload {
+  let payload: any
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  } catch {
+    throw new InvalidCursorError('Cursor is malformed', 'malformed')
+  }
+
+  const validKey =
+    payload !== null &&
+    typeof payload === 'object' &&
+    payload.v === CURSOR_VERSION &&
+    payload.k !== null &&
+    typeof payload.k === 'object' &&
+    Object.values(payload.k).every(
+      (value: any) =>
+        typeof value === 'string' ||
+        typeof value === 'number' ||
+        (value !== null && typeof value === 'object' && typeof value.b === 'string')
+    )
+  if (!validKey || (payload.p !== undefined && typeof payload.p !== 'string')) {
+    throw new InvalidCursorError('Cursor is malformed', 'malformed')
+  }
+
+  return payload
+}
+
+/**
+ * HMAC-SHA256 signature of a cursor body
+ */
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url')
+}
+
+/**
+ * Compare signatures in constant time
+ */
+function signaturesMatch(actual: string, expected: string): boolean {
+  const actualBytes = Buffer.from(actual)
+  const expectedBytes = Buffer.from(expected)
+  return actualBytes.length === expectedBytes.length && timingSafeEqual(actualBytes, expectedBytes)
+}
+
+/**
+ * Hash the values a cursor is bound to, independent of object key order
+ */
+function hashBinding(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('base64url')
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined) {
+    return 'null'
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value)
+  }
+  if (value instanceof Uint8Array) {
+    return JSON.stringify({ b: Buffer.from(value).toString('base64') })
+  }
+  if (value instanceof Set) {
+    return canonicalJson([...value])
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  const entries = Object.entries(value)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  const members = entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`)
+  return `{${members.join(',')}}`
+}
@@ -0,0 +1,318 @@
+/**
+ * Tests for the Entity model layer
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { UpdateExpressionBuilder } from '@ddb-lib/core'
+import { Entity } from './entity'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+import type { TableClientConfig } from './types'
+
+interface User {
+  userId: string
+  orgId?: string
+  name: string
+}
+
+const tableConfig: TableClientConfig = {
+  tableName: 'app',
+  keySchema: {
+    partitionKey: { name: 'PK', type: 'string' },
+    sortKey: { name: 'SK', type: 'string' },
+  },
+  indexKeySchemas: {
+    GSI1: {
+      partitionKey: { name: 'GSI1PK', type: 'string' },
+      sortKey: { name: 'GSI1SK', type: 'string' },
+    },
+  },
+}
+
+const UserEntity = new Entity<User>({
+  name: 'User',
+  key: { pk: 'USER#{userId}', sk: 'PROFILE' },
+  indexes: { GSI1: { pk: 'ORG#{orgId}', sk: 'USER#{userId}' } },
+})
+
+describe('Entity', () => {
+  describe('configuration', () => {
+    test('should reject malformed key templates', () => {
+      expect(() => new Entity({ name: 'User', key: { pk: 'USER#{}' } })).toThrow(
+        "Invalid key template 'USER#{}': empty placeholder"
+      )
+      expect(() => new Entity({ name: 'User', key: { pk: 'USER#{userId' } })).toThrow(
+        "Invalid key template 'USER#{userId': unbalanced braces"
+      )
+    })
+
+    test('should require index key schemas on the TableClient', () => {
+      const client = new TableClient({ tableName: 'app' })
+
+      expect(() => UserEntity.repository(client)).toThrow(
+        "Entity 'User' defines keys for index 'GSI1', but the TableClient has no indexKeySchemas entry for it"
+      )
+    })
+
+    test('should require sort key templates to match the key schema', () => {
+      const client = new TableClient(tableConfig)
+      const entity = new Entity<User>({ name: 'User', key: { pk: 'USER#{userId}' } })
+
+      expect(() => entity.repository(client)).toThrow(
+        "Entity 'User' must define a sort key template for table (sort key 'SK')"
+      )
+    })
+  })
+
+  describe('writes', () => {
+    test('should populate key, index key and type attributes on put', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client)
+
+      await UserEntity.repository(client).put({ userId: '1', orgId: 'acme', name: 'Alice' })
+
+      expect(commands[0].input.Item).toEqual({
+        PK: 'USER#1',
+        SK: 'PROFILE',
+        GSI1PK: 'ORG#acme',
+        GSI1SK: 'USER#1',
+        entityType: 'User',
+        userId: '1',
+        orgId: 'acme',
+        name: 'Alice',
+      })
+    })
+
+    test('should omit index keys when template attributes are missing', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client)
+
+      await UserEntity.repository(client).put({ userId: '1', name: 'Alice' })
+
+      expect(commands[0].input.Item).toEqual({
+        PK: 'USER#1',
+        SK: 'PROFILE',
+        entityType: 'User',
+        userId: '1',
+        name: 'Alice',
+      })
+    })
+
+    test('should reject items missing key template attributes', async () => {
+      const client = new TableClient(tableConfig)
+      captureCommands(client)
+
+      const users = UserEntity.repository(client)
+
+      await expect(users.put({ name: 'Alice' } as User)).rejects.toThrow(
+        "Key template 'USER#{userId}' requires attribute 'userId'"
+      )
+    })
+
+    test('should refresh index keys on update and strip generated attributes', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client, {
+        Attributes: {
+          PK: 'USER#1',
+          SK: 'PROFILE',
+          GSI1PK: 'ORG#beta',
+          GSI1SK: 'USER#1',
+          entityType: 'User',
+          userId: '1',
+          orgId: 'beta',
+          name: 'Alice',
+        },
+      })
+
+      const result = await UserEntity.repository(client).update({ userId: '1' }, { orgId: 'beta' })
+
+      expect(result).toEqual({ userId: '1', orgId: 'beta', name: 'Alice' })
+      expect(commands[0].input.Key).toEqual({ PK: 'USER#1', SK: 'PROFILE' })
+      expect(Object.values(commands[0].input.ExpressionAttributeNames)).toEqual([
+        'orgId',
+        'GSI1PK',
+        'GSI1SK',
+        'entityType',
+      ])
+      expect(Object.values(commands[0].input.ExpressionAttributeValues)).toEqual([
+        'beta',
+        'ORG#beta',
+        'USER#1',
+        'User',
+      ])
+    })
+
+    test('should reject updates to key template attributes', async () => {
+      const client = new TableClient(tableConfig)
+      captureCommands(client)
+
+      await expect(
+        UserEntity.repository(client).update({ userId: '1' }, { userId: '2' })
+      ).rejects.toThrow("Cannot update attribute 'userId' of entity 'User'")
+    })
+
+    test('should pass update builders through unchanged', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client, {
+        Attributes: { PK: 'USER#1', SK: 'PROFILE', userId: '1', logins: 2 },
+      })
+
+      const result = await UserEntity.repository(client).update(
+        { userId: '1' },
+        new UpdateExpressionBuilder().increment('logins')
+      )
+
+      expect(result).toEqual({ userId: '1', logins: 2 })
+      expect(commands[0].input.UpdateExpression).toBe('SET #u0 = #u0 + :u0')
+    })
+
+    test('should delete by entity-level params', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client)
+
+      await UserEntity.repository(client).delete({ userId: '1' })
+
+      expect(commands[0].input.Key).toEqual({ PK: 'USER#1', SK: 'PROFILE' })
+    })
+
+    test('should keep raw values for single-placeholder numeric keys', async () => {
+      const client = new TableClient({
+        tableName: 'accounts',
+        keySchema: { partitionKey: { name: 'id', type: 'number' } },
+      })
+      const commands = captureCommands(client)
+      const Account = new Entity<{ accountId: number; name: string }>({
+        name: 'Account',
+        key: { pk: '{accountId}' },
+      })
+
+      await Account.repository(client).put({ accountId: 42, name: 'Main' })
+
+      expect(commands[0].input.Item).toEqual({
+        id: 42,
+        accountId: 42,
+        name: 'Main',
+        entityType: 'Account',
+      })
+    })
+  })
+
+  describe('reads', () => {
+    test('should strip generated attributes on get', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client, {
+        Item: {
+          PK: 'USER#1',
+          SK: 'PROFILE',
+          GSI1PK: 'ORG#acme',
+          GSI1SK: 'USER#1',
+          entityType: 'User',
+          userId: '1',
+          orgId: 'acme',
+          name: 'Alice',
+        },
+      })
+
+      const user = await UserEntity.repository(client).get({ userId: '1' })
+
+      expect(user).toEqual({ userId: '1', orgId: 'acme', name: 'Alice' })
+      expect(commands[0].input.Key).toEqual({ PK: 'USER#1', SK: 'PROFILE' })
+    })
+
+    test('should return null for items of another entity type', async () => {
+      const client = new TableClient(tableConfig)
+      captureCommands(client, { Item: { PK: 'USER#1', SK: 'PROFILE', entityType: 'Device' } })
+
+      await expect(UserEntity.repository(client).get({ userId: '1' })).resolves.toBeNull()
+    })
+
+    test('should validate items with the entity schema', async () => {
+      const client = new TableClient(tableConfig)
+      captureCommands(client, {
+        Item: { PK: 'USER#1', SK: 'PROFILE', entityType: 'User', userId: '1' },
+      })
+      const schema: any = {
+        parse: (data: any) => {
+          if (typeof data.name !== 'string') {
+            throw new Error('name is required')
+          }
+          return data
+        },
+      }
+      const entity = new Entity<User>({
+        name: 'User',
+        schema,
+        key: { pk: 'USER#{userId}', sk: 'PROFILE' },
+      })
+
+      await expect(entity.repository(client).get({ userId: '1' })).rejects.toThrow(
+        'name is required'
+      )
+    })
+
+    test('should query index keys with sort key prefixes and an entity type filter', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client, {
+        Items: [
+          {
+            PK: 'USER#1',
+            SK: 'PROFILE',
+            GSI1PK: 'ORG#acme',
+            GSI1SK: 'USER#1',
+            entityType: 'User',
+            userId: '1',
+            orgId: 'acme',
+            name: 'Alice',
+          },
+        ],
+        Count: 1,
+        ScannedCount: 1,
+      })
+
+      const result = await UserEntity.repository(client).query({
+        index: 'GSI1',
+        key: { orgId: 'acme' },
+        filter: { name: { beginsWith: 'A' } },
+      })
+
+      expect(result.items).toEqual([{ userId: '1', orgId: 'acme', name: 'Alice' }])
+      expect(commands[0].input.IndexName).toBe('GSI1')
+      expect(commands[0].input.KeyConditionExpression).toBe('#k0 = :k0 AND begins_with(#k1, :k1)')
+      expect(commands[0].input.FilterExpression).toBe('begins_with(#f0, :f0) AND #f1 = :f1')
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({
+        ':k0': 'ORG#acme',
+        ':k1': 'USER#',
+        ':f0': 'A',
+        ':f1': 'User',
+      })
+    })
+
+    test('should use equality when all sort key attributes are given', async () => {
+      const client = new TableClient(tableConfig)
+      const commands = captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+      await UserEntity.repository(client).query({
+        index: 'GSI1',
+        key: { orgId: 'acme', userId: '7' },
+      })
+
+      expect(commands[0].input.KeyConditionExpression).toBe('#k0 = :k0 AND #k1 = :k1')
+      expect(commands[0].input.ExpressionAttributeValues[':k1']).toBe('USER#7')
+    })
+
+    test('should reject queries on indexes without templates', async () => {
+      const client = new TableClient({
+        ...tableConfig,
+        indexKeySchemas: {
+          ...tableConfig.indexKeySchemas,
+          GSI2: { partitionKey: { name: 'GSI2PK', type: 'string' } },
+        },
+      })
+      captureCommands(client)
+
+      await expect(
+        UserEntity.repository(client).query({ index: 'GSI2', key: { orgId: 'acme' } })
+      ).rejects.toThrow("Entity 'User' has no key templates for index 'GSI2'")
+    })
+  })
+})
@@ -0,0 +1,556 @@
+/**
+ * Entity model layer for single-table design on top of TableClient
+ */
+
+import type { Key, KeySchema, UpdateExpressionBuilder } from '@ddb-lib/core'
+import { isUpdateExpressionBuilder } from '@ddb-lib/core'
+import type { TableClient } from './table-client'
+import type {
+  Schema,
+  EntityConfig,
+  EntityKeyParams,
+  EntityKeyTemplates,
+  EntityQueryParams,
+  GetOptions,
+  PutOptions,
+  UpdateOptions,
+  DeleteOptions,
+  QueryResult,
+} from './types'
+import { DynamoDBWrapperError, ValidationError } from './errors'
+
+/**
+ * Part of a key template: literal text or an attribute placeholder
+ */
+type KeyTemplatePart = { literal: string } | { attribute: string }
+
+/**
+ * Key template parsed into literal and placeholder parts
+ */
+interface CompiledKeyTemplate {
+  template: string
+  parts: KeyTemplatePart[]
+  attributes: string[]
+}
+
+/**
+ * Key attribute names and templates of the table or one index
+ */
+interface ResolvedKeyTemplates {
+  pkName: string
+  pk: CompiledKeyTemplate
+  skName?: string
+  sk?: CompiledKeyTemplate
+}
+
+/**
+ * Entity definition: name, schema and key templates
+ * Bind it to a TableClient with `repository()` to read and write entity items
+ *
+ * @example
+ * ```typescript
+ * const User = new Entity<User>({
+ *   name: 'User',
+ *   key: { pk: 'USER#{userId}', sk: 'PROFILE' },
+ *   indexes: { GSI1: { pk: 'ORG#{orgId}', sk: 'USER#{userId}' } },
+ * })
+ *
+ * const users = User.repository(table)
+ * await users.put({ userId: '1', orgId: 'acme', name: 'Alice' })
+ * const user = await users.get({ userId: '1' })
+ * ```
+ */
+export class Entity<
+  TItem extends Record<string, any>,
+  const TKey extends EntityKeyTemplates = EntityKeyTemplates,
+> {
+  readonly name: string
+  readonly typeAttribute: string
+  readonly schema?: Schema<TItem>
+  readonly key: TKey
+  readonly indexes: Record<string, EntityKeyTemplates>
+
+  constructor(config: EntityConfig<TItem, TKey>) {
+    if (!config.name) {
+      throw new DynamoDBWrapperError(
+        'Entity requires a non-empty name',
+        'INVALID_ENTITY_CONFIG',
+        'entity'
+      )
+    }
+
+    this.name = config.name
+    this.typeAttribute = config.typeAttribute ?? 'entityType'
+    this.schema = config.schema
+    this.key = config.key
+    this.indexes = config.indexes ?? {}
+
+    // Fail fast on malformed templates
+    for (const templates of [this.key, ...Object.values(this.indexes)]) {
+      compileKeyTemplates(templates)
+    }
+  }
+
+  /**
+   * Create a repository reading and writing this entity through a TableClient
+   * @param table - Client of the table storing the entity
+   * @throws {DynamoDBWrapperError} If the templates do not match the table or index key schemas
+   */
+  repository(table: TableClient<any>): EntityRepository<TItem, TKey> {
+    return new EntityRepository(this, table)
+  }
+}
+
+/**
+ * Typed repository for one entity, created with `Entity.repository()`
+ * Populates key, index key and type attributes on write and strips them on read
+ */
+export class EntityRepository<
+  TItem extends Record<string, any>,
+  TKey extends EntityKeyTemplates = EntityKeyTemplates,
+> {
+  private key: ResolvedKeyTemplates
+  private indexes: Record<string, ResolvedKeyTemplates> = {}
+  private generatedAttributes: Set<string>
+
+  constructor(
+    private entity: Entity<TItem, TKey>,
+    private table: TableClient<any>
+  ) {
+    this.key = resolveKeyTemplates(entity.name, 'table', entity.key, table.getKeySchema())
+
+    for (const [indexName, indexTemplates] of Object.entries(entity.indexes)) {
+      const keySchema = table.getIndexKeySchema(indexName)
+      if (!keySchema) {
+        throw new DynamoDBWrapperError(
+          `Entity '${entity.name}' defines keys for index '${indexName}', but the TableClient has no indexKeySchemas entry for it`,
+          'INVALID_ENTITY_CONFIG',
+          'entity',
+          { entity: entity.name, indexName }
+        )
+      }
+      this.indexes[indexName] = resolveKeyTemplates(
+        entity.name,
+        `index '${indexName}'`,
+        indexTemplates,
+        keySchema
+      )
+    }
+
+    this.generatedAttributes = new Set([entity.typeAttribute])
+    for (const resolved of [this.key, ...Object.values(this.indexes)]) {
+      this.generatedAttributes.add(resolved.pkName)
+      if (resolved.skName) {
+        this.generatedAttributes.add(resolved.skName)
+      }
+    }
+  }
+
+  /**
+   * Get an entity item by its key attributes
+   * @param params - Attributes referenced by the key templates
+   * @param options - Optional get options (consistentRead)
+   * @returns The entity, or null if not found or stored as a different entity type
+   */
+  async get(
+    params: EntityKeyParams<TItem, TKey>,
+    options?: Pick<GetOptions, 'consistentRead'>
+  ): Promise<TItem | null> {
+    const item = await this.table.get(this.buildKey(params), {
+      consistentRead: options?.consistentRead,
+    })
+
+    if (!item || item[this.entity.typeAttribute] !== this.entity.name) {
+      return null
+    }
+    return this.fromItem(item)
+  }
+
+  /**
+   * Put an entity item, populating key, index key and type attributes
+   * Index keys whose template attributes are missing are omitted (sparse index)
+   * @param entity - The entity to store
+   * @param options - Optional put options (condition, returnValues)
+   */
+  async put(entity: TItem, options?: PutOptions<TItem>): Promise<void> {
+    await this.table.put(this.toItem(entity), options)
+  }
+
+  /**
+   * Update an entity item
+   * Partial updates refresh the index keys whose template attributes change; key
+   * template attributes cannot be updated. Builder updates are sent unchanged.
+   * @param params - Attributes referenced by the key templates
+   * @param updates - Partial entity or UpdateExpressionBuilder
+   * @param options - Optional update options (condition, returnValues)
+   * @returns The updated entity (for the default ALL_NEW return values)
+   */
+  async update(
+    params: EntityKeyParams<TItem, TKey>,
+    updates: Partial<TItem> | UpdateExpressionBuilder,
+    options?: UpdateOptions<TItem>
+  ): Promise<TItem> {
+    const key = this.buildKey(params)
+    const result = await this.table.update(
+      key,
+      isUpdateExpressionBuilder(updates) ? updates : this.toUpdate(params, updates),
+      options
+    )
+
+    // UPDATED_* return values hold only the changed attributes and are returned as-is
+    const returnsItem = !options?.returnValues?.startsWith('UPDATED_')
+    return result && returnsItem ? this.fromItem(result) : result
+  }
+
+  /**
+   * Delete an entity item by its key attributes
+   * @param params - Attributes referenced by the key templates
+   * @param options - Optional delete options (condition, returnValues)
+   */
+  async delete(
+    params: EntityKeyParams<TItem, TKey>,
+    options?: DeleteOptions<TItem>
+  ): Promise<void> {
+    await this.table.delete(this.buildKey(params), options)
+  }
+
+  /**
+   * Query entity items of the table or an index
+   * The partition key is built from `key`; sort key attributes given in `key` are
+   * matched as a prefix of the sort key template. Items of other entity types are filtered out.
+   * @param params - Query parameters
+   * @returns Entities with the raw pagination cursor
+   */
+  async query(params: EntityQueryParams<TItem>): Promise<QueryResult<TItem>> {
+    const templates = this.getResolvedTemplates(params.index)
+    const keyCondition: Record<string, any> = {
+      pk: renderKeyTemplate(templates.pk, params.key as Record<string, any>),
+    }
+
+    if (templates.sk) {
+      const prefix = renderKeyTemplatePrefix(templates.sk, params.key as Record<string, any>)
+      if (prefix.complete) {
+        keyCondition.sk = prefix.value
+      } else if (prefix.value !== '') {
+        keyCondition.sk = { beginsWith: prefix.value }
+      }
+    }
+
+    const result = await this.table.query({
+      index: params.index,
+      keyCondition,
+      filter: {
+        ...(params.filter as Record<string, any>),
+        [this.entity.typeAttribute]: this.entity.name,
+      },
+      limit: params.limit,
+      scanIndexForward: params.scanIndexForward,
+      exclusiveStartKey: params.exclusiveStartKey,
+      consistentRead: params.consistentRead,
+    })
+
+    return {
+      ...result,
+      items: result.items.map((item: Record<string, any>) => this.fromItem(item)),
+    }
+  }
+
+  /**
+   * Build the table key of an entity item
+   * @param params - Attributes referenced by the key templates
+   * @throws {ValidationError} If a template attribute is missing
+   */
+  buildKey(params: EntityKeyParams<TItem, TKey> | TItem): Key {
+    const values = params as Record<string, any>
+    const key: Key = { [this.key.pkName]: renderKeyTemplate(this.key.pk, values) }
+    if (this.key.sk && this.key.skName) {
+      key[this.key.skName] = renderKeyTemplate(this.key.sk, values)
+    }
+    return key
+  }
+
+  /**
+   * Convert an entity to a stored item with key, index key and type attributes
+   * @param entity - The entity to convert
+   */
+  toItem(entity: TItem): Record<string, any> {
+    const validated = this.entity.schema ? this.entity.schema.parse(entity) : entity
+
+    return {
+      ...validated,
+      ...this.buildKey(validated),
+      ...this.buildIndexKeys(validated, false),
+      [this.entity.typeAttribute]: this.entity.name,
+    }
+  }
+
+  /**
+   * Convert a stored item to an entity, stripping key, index key and type attributes
+   * @param item - The stored item
+   */
+  fromItem(item: Record<string, any>): TItem {
+    const entity: Record<string, any> = {}
+    for (const [attributeName, value] of Object.entries(item)) {
+      if (!this.generatedAttributes.has(attributeName)) {
+        entity[attributeName] = value
+      }
+    }
+
+    return this.entity.schema ? this.entity.schema.parse(entity) : (entity as TItem)
+  }
+
+  /**
+   * Build partial updates: validated attributes, refreshed index keys and the type attribute
+   * @private
+   */
+  private toUpdate(
+    params: EntityKeyParams<TItem, TKey>,
+    updates: Partial<TItem>
+  ): Record<string, any> {
+    const validated = this.entity.schema ? this.entity.schema.partial().parse(updates) : updates
+
+    const keyAttributes = [...this.key.pk.attributes, ...(this.key.sk?.attributes ?? [])]
+    for (const attributeName of keyAttributes) {
+      if (attributeName in validated) {
+        throw new ValidationError(
+          `Cannot update attribute '${attributeName}' of entity '${this.entity.name}' because it is part of the table key`,
+          attributeName,
+          (validated as Record<string, any>)[attributeName],
+          'immutable'
+        )
+      }
+    }
+
+    return {
+      ...validated,
+      ...this.buildIndexKeys({ ...params, ...validated }, true, Object.keys(validated)),
+      [this.entity.typeAttribute]: this.entity.name,
+    }
+  }
+
+  /**
+   * Build index key attributes from entity values
+   * Indexes whose templates reference missing attributes are skipped, unless `strict`
+   * is set and the index uses one of the `changed` attributes
+   * @private
+   */
+  private buildIndexKeys(
+    values: Record<string, any>,
+    strict: boolean,
+    changed?: string[]
+  ): Record<string, any> {
+    const indexKeys: Record<string, any> = {}
+
+    for (const [indexName, templates] of Object.entries(this.indexes)) {
+      const attributes = [...templates.pk.attributes, ...(templates.sk?.attributes ?? [])]
+      if (changed && !attributes.some((attributeName) => changed.includes(attributeName))) {
+        continue
+      }
+
+      const missing = attributes.find((attributeName) => isMissingValue(values[attributeName]))
+      if (missing !== undefined) {
+        if (strict) {
+          throw new ValidationError(
+            `Updating index '${indexName}' keys of entity '${this.entity.name}' requires attribute '${missing}'`,
+            missing,
+            undefined,
+            'required'
+          )
+        }
+        continue
+      }
+
+      indexKeys[templates.pkName] = renderKeyTemplate(templates.pk, values)
+      if (templates.sk && templates.skName) {
+        indexKeys[templates.skName] = renderKeyTemplate(templates.sk, values)
+      }
+    }
+
+    return indexKeys
+  }
+
+  /**
+   * Get the resolved templates of the table or an index
+   * @private
+   */
+  private getResolvedTemplates(indexName?: string): ResolvedKeyTemplates {
+    if (!indexName) {
+      return this.key
+    }
+
+    const templates = this.indexes[indexName]
+    if (!templates) {
+      throw new DynamoDBWrapperError(
+        `Entity '${this.entity.name}' has no key templates for index '${indexName}'`,
+        'INVALID_ENTITY_CONFIG',
+        'query',
+        { entity: this.entity.name, indexName }
+      )
+    }
+    return templates
+  }
+}
+
+/**
+ * Parse a key template such as 'USER#{userId}' into literal and placeholder parts
+ */
+function compileKeyTemplate(template: string): CompiledKeyTemplate {
+  const parts: KeyTemplatePart[] = []
+  const attributes: string[] = []
+  let lastIndex = 0
+
+  for (const match of template.matchAll(/\{([^{}]*)\}/g)) {
+    const attributeName = match[1].trim()
+    if (!attributeName) {
+      throw new DynamoDBWrapperError(
+        `Invalid key template '${template}': empty placeholder`,
+        'INVALID_ENTITY_CONFIG',
+        'entity',
+        { template }
+      )
+    }
+    const matchIndex = match.index ?? 0
+    if (matchIndex > lastIndex) {
+      parts.push({ literal: template.slice(lastIndex, matchIndex) })
+    }
+    parts.push({ attribute: attributeName })
+    attributes.push(attributeName)
+    lastIndex = matchIndex + match[0].length
+  }
+  if (lastIndex < template.length) {
+    parts.push({ literal: template.slice(lastIndex) })
+  }
+
+  const literals = parts.map((part) => ('literal' in part ? part.literal : '')).join('')
+  if (literals.includes('{') || literals.includes('}')) {
+    throw new DynamoDBWrapperError(
+      `Invalid key template '${template}': unbalanced braces`,
+      'INVALID_ENTITY_CONFIG',
+      'entity',
+      { template }
+    )
+  }
+  if (parts.length === 0) {
+    throw new DynamoDBWrapperError(
+      'Invalid key template: template must not be empty',
+      'INVALID_ENTITY_CONFIG',
+      'entity',
+      { template }
+    )
+  }
+
+  return { template, parts, attributes }
+}
+
+/**
+ * Compile the pk/sk templates of the table or an index
+ */
+function compileKeyTemplates(templates: EntityKeyTemplates): {
+  pk: CompiledKeyTemplate
+  sk?: CompiledKeyTemplate
+} {
+  return {
+    pk: compileKeyTemplate(templates.pk),
+    sk: templates.sk !== undefined ? compileKeyTemplate(templates.sk) : undefined,
+  }
+}
+
+/**
+ * Compile templates and match them against the key schema of the table or an index
+ */
+function resolveKeyTemplates(
+  entityName: string,
+  target: string,
+  keyTemplates: EntityKeyTemplates,
+  keySchema: KeySchema
+): ResolvedKeyTemplates {
+  const templates = compileKeyTemplates(keyTemplates)
+  if (Boolean(templates.sk) !== Boolean(keySchema.sortKey)) {
+    throw new DynamoDBWrapperError(
+      keySchema.sortKey
+        ? `Entity '${entityName}' must define a sort key template for ${target} (sort key '${keySchema.sortKey.name}')`
+        : `Entity '${entityName}' defines a sort key template, but ${target} has no sort key`,
+      'INVALID_ENTITY_CONFIG',
+      'entity',
+      { entity: entityName, target }
+    )
+  }
+
+  return {
+    pkName: keySchema.partitionKey.name,
+    pk: templates.pk,
+    skName: keySchema.sortKey?.name,
+    sk: templates.sk,
+  }
+}
+
+/**
+ * Render a key template with attribute values
+ * A template consisting of a single placeholder keeps the raw value (e.g. numeric keys)
+ * @throws {ValidationError} If a template attribute is missing
+ */
+function renderKeyTemplate(
+  compiled: CompiledKeyTemplate,
+  values: Record<string, any>
+): string | number {
+  const [onlyPart] = compiled.parts
+  if (compiled.parts.length === 1 && 'attribute' in onlyPart) {
+    return requireTemplateValue(compiled, values, onlyPart.attribute)
+  }
+
+  return compiled.parts
+    .map((part) =>
+      'literal' in part
+        ? part.literal
+        : String(requireTemplateValue(compiled, values, part.attribute))
+    )
+    .join('')
+}
+
+/**
+ * Render the leading part of a key template up to the first missing attribute
+ */
+function renderKeyTemplatePrefix(
+  compiled: CompiledKeyTemplate,
+  values: Record<string, any>
+): { value: string | number; complete: boolean } {
+  if (compiled.attributes.every((attributeName) => !isMissingValue(values[attributeName]))) {
+    return { value: renderKeyTemplate(compiled, values), complete: true }
+  }
+
+  let prefix = ''
+  for (const part of compiled.parts) {
+    if ('literal' in part) {
+      prefix += part.literal
+    } else if (isMissingValue(values[part.attribute])) {
+      break
+    } else {
+      prefix += String(values[part.attribute])
+    }
+  }
+  return { value: prefix, complete: false }
+}
+
+/**
+ * Get a template attribute value, rejecting missing values
+ */
+function requireTemplateValue(
+  compiled: CompiledKeyTemplate,
+  values: Record<string, any>,
+  attributeName: string
+): string | number {
+  const value = values[attributeName]
+  if (isMissingValue(value)) {
+    throw new ValidationError(
+      `Key template '${compiled.template}' requires attribute '${attributeName}'`,
+      attributeName,
+      value,
+      'required'
+    )
+  }
+  return value
+}
+
+function isMissingValue(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
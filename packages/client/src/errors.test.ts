@@ -7,6 +7,8 @@ import {
   DynamoDBWrapperError,
   ValidationError,
   ConditionalCheckError,
+  VersionConflictError,
+  BatchPartialFailureError,
 } from './errors'
 
 describe('DynamoDBWrapperError', () => {
@@ -263,6 +265,61 @@ describe('ConditionalCheckError', () => {
   })
 })
 
+describe('VersionConflictError', () => {
+  test('should create version conflict error with all properties', () => {
+    const item = { pk: 'USER#123', version: 4 }
+    const error = new VersionConflictError(
+      'Version conflict for update operation: expected version 3, found version 4',
+      'version',
+      3,
+      4,
+      item
+    )
+
+    expect(error).toBeInstanceOf(DynamoDBWrapperError)
+    expect(error).toBeInstanceOf(ConditionalCheckError)
+    expect(error).toBeInstanceOf(VersionConflictError)
+    expect(error.name).toBe('VersionConflictError')
+    expect(error.code).toBe('VERSION_CONFLICT')
+    expect(error.versionAttribute).toBe('version')
+    expect(error.expectedVersion).toBe(3)
+    expect(error.currentVersion).toBe(4)
+    expect(error.condition).toBe('{"version":3}')
+    expect(error.item).toEqual(item)
+  })
+
+  test('should include versions in context', () => {
+    const error = new VersionConflictError('Conflict', 'rev', undefined, 2)
+
+    expect(error.condition).toBe('{"rev":{"exists":false}}')
+    expect(error.context).toEqual({
+      condition: '{"rev":{"exists":false}}',
+      item: undefined,
+      versionAttribute: 'rev',
+      expectedVersion: undefined,
+      currentVersion: 2,
+    })
+  })
+})
+
+describe('BatchPartialFailureError', () => {
+  test('should carry the partial result and unprocessed count', () => {
+    const result = {
+      items: [{ pk: 'USER#1' }],
+      unprocessedKeys: [{ pk: 'USER#2' }, { pk: 'USER#3' }],
+      chunks: [{ chunk: 0, attempts: 4, consumedCapacity: 1 }],
+    }
+    const error = new BatchPartialFailureError('Unprocessed keys', 'batchGet', result)
+
+    expect(error).toBeInstanceOf(DynamoDBWrapperError)
+    expect(error.name).toBe('BatchPartialFailureError')
+    expect(error.code).toBe('BATCH_PARTIAL_FAILURE')
+    expect(error.operation).toBe('batchGet')
+    expect(error.result).toBe(result)
+    expect(error.context).toEqual({ unprocessedCount: 2 })
+  })
+})
+
 describe('Error inheritance and type checking', () => {
   test('should allow type-safe error handling', () => {
     const errors = [
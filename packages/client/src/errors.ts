@@ -2,6 +2,12 @@
  * Error classes for DynamoDB wrapper
  */
 
+import type {
+  BatchGetResult,
+  BatchWriteResult,
+  TransactionCancellationReason,
+} from './types'
+
 /**
  * Base error class for all DynamoDB wrapper errors
  */
@@ -58,3 +64,111 @@ export class ConditionalCheckError extends DynamoDBWrapperError {
     }
   }
 }
+
+/**
+ * Error thrown when an optimistic locking check fails because the stored item
+ * has a different version than the one the write was based on
+ */
+export class VersionConflictError extends ConditionalCheckError {
+  constructor(
+    message: string,
+    public versionAttribute: string,
+    public expectedVersion: number | undefined,
+    public currentVersion: number | undefined,
+    item?: any
+  ) {
+    super(
+      message,
+      JSON.stringify({ [versionAttribute]: expectedVersion ?? { exists: false } }),
+      item
+    )
+    this.name = 'VersionConflictError'
+    this.code = 'VERSION_CONFLICT'
+    this.context = { ...this.context, versionAttribute, expectedVersion, currentVersion }
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, VersionConflictError)
+    }
+  }
+}
+
+/**
+ * Error thrown when DynamoDB cancels a transaction, listing the outcome of every operation
+ */
+export class TransactionCancelledError extends DynamoDBWrapperError {
+  constructor(
+    message: string,
+    public reasons: TransactionCancellationReason[]
+  ) {
+    super(message, 'TRANSACTION_CANCELLED', 'transactWrite', {
+      failedIndexes: reasons.filter((reason) => reason.code !== 'None').map((r) => r.index),
+    })
+    this.name = 'TransactionCancelledError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TransactionCancelledError)
+    }
+  }
+
+  /**
+   * Reasons of the operations that caused the cancellation
+   */
+  get failures(): TransactionCancellationReason[] {
+    return this.reasons.filter((reason) => reason.code !== 'None')
+  }
+}
+
+/**
+ * Error thrown when a pagination cursor is malformed, has an invalid signature or
+ * was issued for different request parameters
+ */
+export class InvalidCursorError extends DynamoDBWrapperError {
+  constructor(
+    message: string,
+    public reason: 'malformed' | 'signature' | 'mismatch'
+  ) {
+    super(message, 'INVALID_CURSOR', 'decodeCursor', { reason })
+    this.name = 'InvalidCursorError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, InvalidCursorError)
+    }
+  }
+}
+
+/**
+ * Error thrown when a batch operation leaves unprocessed keys or operations and the
+ * caller asked for complete batches
+ */
+export class BatchPartialFailureError extends DynamoDBWrapperError {
+  constructor(
+    message: string,
+    operation: 'batchGet' | 'batchWrite',
+    public result: BatchGetResult<any> | BatchWriteResult<any>
+  ) {
+    super(message, 'BATCH_PARTIAL_FAILURE', operation, {
+      unprocessedCount:
+        'unprocessedKeys' in result
+          ? result.unprocessedKeys.length
+          : result.unprocessedOperations.length,
+    })
+    this.name = 'BatchPartialFailureError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, BatchPartialFailureError)
+    }
+  }
+}
+
+/**
+ * Error thrown when an idempotent execution finds the same request still being processed
+ */
+export class IdempotencyInProgressError extends DynamoDBWrapperError {
+  constructor(
+    message: string,
+    public idempotencyKey: string,
+    public expiresAt: number
+  ) {
+    super(message, 'IDEMPOTENCY_IN_PROGRESS', 'idempotency', { idempotencyKey, expiresAt })
+    this.name = 'IdempotencyInProgressError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, IdempotencyInProgressError)
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Tests for idempotent execution
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { PatternHelpers } from '@ddb-lib/core'
+import { Idempotency } from './idempotency'
+import { MemoryDynamoDB } from './memory-dynamodb'
+import { TableClient } from './table-client'
+import { IdempotencyInProgressError, ValidationError } from './errors'
+import type { IdempotencyOptions } from './types'
+
+interface PaymentEvent {
+  orderId: string
+  amount: number
+  requestId?: string
+}
+
+/**
+ * Idempotency helper on an in-memory table, with a handler counting its runs
+ */
+function createIdempotency(options?: IdempotencyOptions<PaymentEvent>) {
+  const memory = new MemoryDynamoDB([{ tableName: 'idempotency' }])
+  const client = new TableClient({ tableName: 'idempotency', client: memory.client })
+  const idempotency = new Idempotency(client, options)
+  const runs: PaymentEvent[] = []
+  const charge = idempotency.wrap(async (event: PaymentEvent) => {
+    runs.push(event)
+    return { chargeId: `CHARGE#${runs.length}` }
+  })
+  return { client, idempotency, runs, charge }
+}
+
+function secondsFromNow(seconds: number): number {
+  return PatternHelpers.ttlTimestamp(new Date(Date.now() + seconds * 1000))
+}
+
+describe('Idempotency', () => {
+  test('should store the result and replay it for duplicates', async () => {
+    const { client, idempotency, runs, charge } = createIdempotency()
+    const event = { orderId: 'ORDER#1', amount: 100 }
+
+    const first = await charge(event)
+    const second = await charge({ amount: 100, orderId: 'ORDER#1' })
+
+    expect(first).toEqual({ chargeId: 'CHARGE#1' })
+    expect(second).toEqual(first)
+    expect(runs).toHaveLength(1)
+
+    const hash = idempotency.hashPayload(event)
+    const record = await client.get({ pk: `IDEMPOTENCY#${hash}`, sk: 'IDEMPOTENCY' })
+    expect(record).toMatchObject({ status: 'COMPLETED', payloadHash: hash, result: first })
+    expect(record?.expiresAt).toBeGreaterThan(secondsFromNow(3590))
+  })
+
+  test('should identify requests by the selected part of the payload', async () => {
+    const { runs, charge } = createIdempotency({
+      select: (event) => ({ orderId: event.orderId, amount: event.amount }),
+    })
+
+    await charge({ orderId: 'ORDER#1', amount: 100, requestId: 'a' })
+    await charge({ orderId: 'ORDER#1', amount: 100, requestId: 'b' })
+    await charge({ orderId: 'ORDER#1', amount: 200, requestId: 'c' })
+
+    expect(runs.map((event) => event.requestId)).toEqual(['a', 'c'])
+  })
+
+  test('should reject duplicates while the request is in progress', async () => {
+    const { idempotency, charge } = createIdempotency()
+    const event = { orderId: 'ORDER#1', amount: 100 }
+    let finish!: () => void
+    const running = idempotency.run(
+      event,
+      () =>
+        new Promise<string>((resolve) => {
+          finish = () => resolve('done')
+        })
+    )
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    const error = await charge(event).catch((error) => error)
+    finish()
+
+    expect(error).toBeInstanceOf(IdempotencyInProgressError)
+    expect(error.code).toBe('IDEMPOTENCY_IN_PROGRESS')
+    expect(error.idempotencyKey).toBe(idempotency.hashPayload(event))
+    expect(error.expiresAt).toBeGreaterThan(secondsFromNow(50))
+    expect(await running).toBe('done')
+    expect(await charge(event)).toBe('done')
+  })
+
+  test('should take over expired in-progress records', async () => {
+    const { client, idempotency, runs, charge } = createIdempotency()
+    const event = { orderId: 'ORDER#1', amount: 100 }
+    const key = { pk: `IDEMPOTENCY#${idempotency.hashPayload(event)}`, sk: 'IDEMPOTENCY' }
+    await client.put({
+      ...key,
+      status: 'IN_PROGRESS',
+      executionId: 'crashed',
+      expiresAt: secondsFromNow(-1),
+    })
+
+    expect(await charge(event)).toEqual({ chargeId: 'CHARGE#1' })
+    expect(runs).toHaveLength(1)
+    expect(await client.get(key)).toMatchObject({ status: 'COMPLETED' })
+  })
+
+  test('should run again once the completed record has expired', async () => {
+    const { client, idempotency, runs, charge } = createIdempotency()
+    const event = { orderId: 'ORDER#1', amount: 100 }
+    const key = { pk: `IDEMPOTENCY#${idempotency.hashPayload(event)}`, sk: 'IDEMPOTENCY' }
+    await client.put({
+      ...key,
+      status: 'COMPLETED',
+      result: 'stale',
+      expiresAt: secondsFromNow(-1),
+    })
+
+    expect(await charge(event)).toEqual({ chargeId: 'CHARGE#1' })
+    expect(runs).toHaveLength(1)
+  })
+
+  test('should remove the record of a failed run so the request can be retried', async () => {
+    const { client, idempotency } = createIdempotency()
+    const event = { orderId: 'ORDER#1', amount: 100 }
+
+    await expect(
+      idempotency.run(event, async () => {
+        throw new Error('Card declined')
+      })
+    ).rejects.toThrow('Card declined')
+
+    const hash = idempotency.hashPayload(event)
+    expect(await client.get({ pk: `IDEMPOTENCY#${hash}`, sk: 'IDEMPOTENCY' })).toBeNull()
+    expect(await idempotency.run(event, async () => 'charged')).toBe('charged')
+  })
+
+  test('should use custom record keys and TTL attribute', async () => {
+    const { client, idempotency, charge } = createIdempotency({
+      key: (hash) => ({ pk: `REQUEST#${hash}`, sk: 'PAYMENT' }),
+      ttlAttribute: 'ttl',
+    })
+    const event = { orderId: 'ORDER#1', amount: 100 }
+
+    await charge(event)
+
+    const hash = idempotency.hashPayload(event)
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await client.get({ pk: `REQUEST#${hash}`, sk: 'PAYMENT' })).toMatchObject({
+      status: 'COMPLETED',
+      ttl: expect.any(Number),
+    })
+  })
+
+  test('should validate record lifetimes', () => {
+    const client = new TableClient({ tableName: 'idempotency' })
+
+    expect(() => new Idempotency(client, { expiresIn: 0 })).toThrow(ValidationError)
+    expect(() => new Idempotency(client, { inProgressExpiresIn: -1 })).toThrow(ValidationError)
+  })
+})
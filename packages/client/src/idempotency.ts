@@ -0,0 +1,238 @@
+/**
+ * Idempotent execution backed by idempotency records in a DynamoDB table
+ */
+
+import { createHash, randomUUID } from 'node:crypto'
+import type { Key } from '@ddb-lib/core'
+import { PatternHelpers } from '@ddb-lib/core'
+import type { TableClient } from './table-client'
+import type { IdempotencyOptions, IdempotencyStatus } from './types'
+import { canonicalJson } from './cursor'
+import { ConditionalCheckError, IdempotencyInProgressError, ValidationError } from './errors'
+
+/**
+ * Default lifetime of completed records in seconds
+ */
+const DEFAULT_EXPIRES_IN = 3600
+
+/**
+ * Default lifetime of in-progress records in seconds
+ */
+const DEFAULT_IN_PROGRESS_EXPIRES_IN = 60
+
+/**
+ * Attempts to claim a record that disappears or expires between the put and the read
+ */
+const MAX_CLAIM_ATTEMPTS = 3
+
+/**
+ * Runs handlers at most once per request payload
+ * Before the handler runs, an in-progress record keyed by a hash of the payload is stored with a
+ * conditional put. Duplicates arriving while it runs fail with an IdempotencyInProgressError;
+ * once it completes, its result is stored and returned to duplicates without running it again.
+ * Records expire through the table's TTL attribute; an in-progress record left behind by a
+ * crashed execution stops blocking duplicates after `inProgressExpiresIn`.
+ *
+ * Use a client without schema validation or optimistic locking, ideally on a dedicated table.
+ *
+ * @example
+ * ```typescript
+ * const idempotency = new Idempotency(idempotencyTable, {
+ *   select: (event: PaymentEvent) => ({ orderId: event.orderId, amount: event.amount }),
+ * })
+ *
+ * export const handler = idempotency.wrap(async (event: PaymentEvent) => chargeCard(event))
+ * ```
+ */
+export class Idempotency<TPayload = any> {
+  private readonly client: TableClient<any>
+  private readonly expiresIn: number
+  private readonly inProgressExpiresIn: number
+  private readonly ttlAttribute: string
+  private readonly select?: (payload: TPayload) => unknown
+  private readonly key?: (hash: string) => Key
+
+  constructor(client: TableClient<any>, options: IdempotencyOptions<TPayload> = {}) {
+    this.client = client
+    this.expiresIn = this.validateLifetime('expiresIn', options.expiresIn ?? DEFAULT_EXPIRES_IN)
+    this.inProgressExpiresIn = this.validateLifetime(
+      'inProgressExpiresIn',
+      options.inProgressExpiresIn ?? DEFAULT_IN_PROGRESS_EXPIRES_IN
+    )
+    this.ttlAttribute = options.ttlAttribute ?? 'expiresAt'
+    this.select = options.select
+    this.key = options.key
+  }
+
+  /**
+   * Run a handler once for a payload, replaying its stored result for duplicates
+   * If the handler throws, its record is removed so the request can be retried.
+   *
+   * @returns The result of the handler, or the stored result of an earlier run
+   * @throws {IdempotencyInProgressError} If the same payload is being processed concurrently
+   */
+  async run<TResult>(payload: TPayload, handler: () => Promise<TResult>): Promise<TResult> {
+    const hash = this.hashPayload(payload)
+    const key = this.recordKey(hash)
+    const executionId = randomUUID()
+
+    const stored = await this.claim(key, hash, executionId)
+    if (stored) {
+      return stored.result as TResult
+    }
+
+    let result: TResult
+    try {
+      result = await handler()
+    } catch (error) {
+      await this.release(key, executionId)
+      throw error
+    }
+
+    try {
+      await this.client.put(
+        {
+          ...key,
+          status: 'COMPLETED' satisfies IdempotencyStatus,
+          payloadHash: hash,
+          result,
+          [this.ttlAttribute]: this.expiryTimestamp(this.expiresIn),
+        },
+        { condition: { executionId } }
+      )
+    } catch (error) {
+      // Another execution took over after our record expired; it stores its own result
+      if (!(error instanceof ConditionalCheckError)) {
+        throw error
+      }
+    }
+    return result
+  }
+
+  /**
+   * Wrap a handler so each call runs idempotently for its payload
+   */
+  wrap<TResult>(
+    handler: (payload: TPayload) => Promise<TResult>
+  ): (payload: TPayload) => Promise<TResult> {
+    return (payload) => this.run(payload, () => handler(payload))
+  }
+
+  /**
+   * Hash identifying the request of a payload
+   */
+  hashPayload(payload: TPayload): string {
+    const identity = this.select ? this.select(payload) : payload
+    return createHash('sha256').update(canonicalJson(identity)).digest('hex')
+  }
+
+  /**
+   * Store the in-progress record unless a live record exists for the payload
+   * @returns The completed record to replay, or undefined once the record is stored
+   * @private
+   */
+  private async claim(
+    key: Key,
+    hash: string,
+    executionId: string
+  ): Promise<{ result: unknown } | undefined> {
+    for (let attempt = 1; ; attempt++) {
+      const now = this.expiryTimestamp(0)
+      if (await this.putInProgress(key, hash, executionId, now)) {
+        return undefined
+      }
+
+      // DynamoDB deletes expired records late, so their expiry is checked here as well
+      const record = await this.client.get(key, { consistentRead: true })
+      const expiresAt = record?.[this.ttlAttribute]
+      const live = record && typeof expiresAt === 'number' && expiresAt > now
+      if (live && record.status === 'COMPLETED') {
+        return { result: record.result }
+      }
+      if (live || attempt === MAX_CLAIM_ATTEMPTS) {
+        throw new IdempotencyInProgressError(
+          `Request ${hash} is already being processed`,
+          hash,
+          typeof expiresAt === 'number' ? expiresAt : now
+        )
+      }
+    }
+  }
+
+  /**
+   * Put the in-progress record if no record exists or the existing one has expired
+   * @returns Whether the record was stored
+   * @private
+   */
+  private async putInProgress(
+    key: Key,
+    hash: string,
+    executionId: string,
+    now: number
+  ): Promise<boolean> {
+    const [partitionKey] = Object.keys(key)
+    try {
+      await this.client.put(
+        {
+          ...key,
+          status: 'IN_PROGRESS' satisfies IdempotencyStatus,
+          payloadHash: hash,
+          executionId,
+          [this.ttlAttribute]: this.expiryTimestamp(this.inProgressExpiresIn),
+        },
+        {
+          condition: {
+            or: [{ [partitionKey]: { exists: false } }, { [this.ttlAttribute]: { lte: now } }],
+          },
+        }
+      )
+      return true
+    } catch (error) {
+      if (error instanceof ConditionalCheckError) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Remove the in-progress record of a failed execution
+   * Failures are ignored, since the record expires after `inProgressExpiresIn` anyway.
+   * @private
+   */
+  private async release(key: Key, executionId: string): Promise<void> {
+    try {
+      await this.client.delete(key, { condition: { executionId } })
+    } catch {
+      // The record was taken over or can't be removed now; it expires on its own
+    }
+  }
+
+  private recordKey(hash: string): Key {
+    if (this.key) {
+      return this.key(hash)
+    }
+    const { partitionKey, sortKey } = this.client.getKeySchema()
+    const key: Key = { [partitionKey.name]: `IDEMPOTENCY#${hash}` }
+    if (sortKey) {
+      key[sortKey.name] = 'IDEMPOTENCY'
+    }
+    return key
+  }
+
+  private expiryTimestamp(seconds: number): number {
+    return PatternHelpers.ttlTimestamp(new Date(Date.now() + seconds * 1000))
+  }
+
+  private validateLifetime(field: string, seconds: number): number {
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new ValidationError(
+        `${field} must be a positive number of seconds`,
+        field,
+        seconds,
+        'positive number'
+      )
+    }
+    return seconds
+  }
+}
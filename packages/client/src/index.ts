@@ -5,8 +5,41 @@
 // Export main TableClient
 export { TableClient } from './table-client'
 
+// Export entity model layer
+export { Entity, EntityRepository } from './entity'
+
 // Export error classes
-export { DynamoDBWrapperError, ValidationError, ConditionalCheckError } from './errors'
+export {
+  DynamoDBWrapperError,
+  ValidationError,
+  ConditionalCheckError,
+  VersionConflictError,
+  BatchPartialFailureError,
+  InvalidCursorError,
+  TransactionCancelledError,
+  IdempotencyInProgressError,
+} from './errors'
+
+// Export cross-table transaction builder
+export { TransactionBuilder } from './transaction'
+
+// Export PartiQL statement builder
+export { partiql } from './partiql'
+
+// Export pagination cursor helpers
+export { encodeCursor, decodeCursor } from './cursor'
+
+// Export batching item loader
+export { ItemLoader } from './loader'
+
+// Export idempotent execution helper
+export { Idempotency } from './idempotency'
+
+// Export cache stores
+export { MemoryCacheStore } from './cache'
+
+// Export in-memory DynamoDB engine for tests
+export { MemoryDynamoDB } from './memory-dynamodb'
 
 // Export retry handler
 export { RetryHandler, DEFAULT_RETRY_CONFIG } from './retry-handler'
@@ -14,6 +47,9 @@ export { RetryHandler, DEFAULT_RETRY_CONFIG } from './retry-handler'
 // Export types
 export type {
   TableClientConfig,
+  OptimisticLockingConfig,
+  TimestampsConfig,
+  TtlConfig,
   Schema,
   AccessPatternDefinition,
   AccessPatternDefinitions,
@@ -24,22 +60,77 @@ export type {
   UpdateOptions,
   DeleteOptions,
   BatchGetOptions,
+  BatchGetResult,
+  ItemLoaderOptions,
+  IdempotencyOptions,
+  IdempotencyStatus,
   BatchWriteOperation,
   BatchWriteOptions,
+  BatchWriteResult,
+  BatchChunkResult,
+  BatchUnprocessedMode,
   TransactWriteOperation,
   TransactWriteOptions,
+  TableTransactWriteOperation,
+  TransactionCancellationReason,
+  SplitTransactWriteOptions,
+  SplitTransactWriteReport,
+  TransactWriteGroupResult,
   TransactGetOptions,
+  PartiQLStatement,
+  ExecuteStatementOptions,
+  ExecuteStatementResult,
+  BatchStatementResult,
   QueryResult,
   ScanResult,
   QueryParams,
+  QueryAllParams,
+  QueryUntilParams,
+  QueryAllResult,
+  QueryStopReason,
+  CountParams,
+  CountResult,
   ScanParams,
+  CursorOptions,
+  Page,
+  QueryPagesParams,
+  ScanPagesParams,
+  SegmentCursor,
+  ParallelScanParams,
+  ParallelScanPage,
+  CollectionSchemas,
+  CollectionQueryParams,
+  CollectionResult,
+  EntityConfig,
+  EntityKeyTemplates,
+  EntityKeyParams,
+  EntityQueryParams,
+  CacheConfig,
+  CacheStore,
+  TableOperation,
+  MiddlewareContext,
+  TableClientMiddleware,
+  MemoryTableDefinition,
+  MemoryIndexDefinition,
 } from './types'
 
 // Re-export commonly used types from dependencies
 export type {
   Key,
+  KeyAttributeValue,
+  KeyAttributeDefinition,
+  KeySchema,
   KeyCondition,
   FilterExpression,
+  FilterOperators,
+  ConditionOperators,
+  AttributeType,
+  SizeOperators,
+  AttributePath,
+  AttributePathValue,
+  TypedFilterExpression,
+  TypedConditionExpression,
+  UntypedExpression,
   GSIConfig,
   MultiAttributeKey,
 } from '@ddb-lib/core'
@@ -47,6 +138,7 @@ export type {
 export type {
   StatsConfig,
   TableStats,
+  CacheStats,
   OperationRecord,
   Recommendation,
 } from '@ddb-lib/stats'
@@ -0,0 +1,23 @@
+/**
+ * Tests for item size estimates
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { estimateItemSize } from './item-size'
+
+describe('estimateItemSize', () => {
+  test('should count attribute names and scalar values', () => {
+    expect(estimateItemSize({ pk: 'USER#1', name: 'Zoë' })).toBe(2 + 6 + 4 + 4)
+    expect(estimateItemSize({ n: 12345, flag: true, none: null })).toBe(1 + 4 + 4 + 1 + 4 + 1)
+    expect(estimateItemSize({ data: new Uint8Array(10) })).toBe(4 + 10)
+  })
+
+  test('should add overhead for maps and lists', () => {
+    expect(estimateItemSize({ tags: ['a', 'bc'] })).toBe(4 + 3 + 2 + 3)
+    expect(estimateItemSize({ address: { city: 'Oslo' } })).toBe(7 + 3 + 1 + 4 + 4)
+  })
+
+  test('should ignore undefined attributes', () => {
+    expect(estimateItemSize({ pk: 'A', missing: undefined })).toBe(3)
+  })
+})
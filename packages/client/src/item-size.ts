@@ -0,0 +1,77 @@
+/**
+ * Item size estimates following DynamoDB's item size rules
+ */
+
+/**
+ * Estimate the stored size of an item in bytes
+ * Counts attribute names and values the way DynamoDB does: strings and binaries by their
+ * byte length, numbers by their significant digits, and 3 bytes of overhead per map or list
+ * plus 1 byte per element
+ *
+ * @param item - Item in document (unmarshalled) form
+ * @returns Estimated size in bytes
+ */
+export function estimateItemSize(item: Record<string, unknown>): number {
+  let size = 0
+  for (const [name, value] of Object.entries(item)) {
+    if (value !== undefined) {
+      size += Buffer.byteLength(name) + estimateValueSize(value)
+    }
+  }
+  return size
+}
+
+/**
+ * Estimate the size of a single attribute value in bytes
+ */
+function estimateValueSize(value: unknown): number {
+  if (typeof value === 'string') {
+    return Buffer.byteLength(value)
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return estimateNumberSize(value)
+  }
+  if (typeof value === 'boolean' || value === null) {
+    return 1
+  }
+  if (value instanceof Uint8Array) {
+    return value.byteLength
+  }
+  if (value instanceof Set) {
+    let size = 0
+    for (const member of value) {
+      size += estimateValueSize(member)
+    }
+    return size
+  }
+  if (Array.isArray(value)) {
+    let size = 3
+    for (const element of value) {
+      size += 1 + estimateValueSize(element)
+    }
+    return size
+  }
+  if (typeof value === 'object') {
+    let size = 3
+    for (const [name, member] of Object.entries(value)) {
+      if (member !== undefined) {
+        size += 1 + Buffer.byteLength(name) + estimateValueSize(member)
+      }
+    }
+    return size
+  }
+  return 0
+}
+
+/**
+ * Numbers take 1 byte per two significant digits plus 1 byte
+ */
+function estimateNumberSize(value: number | bigint): number {
+  const digits = String(value)
+    .toLowerCase()
+    .replace(/e.*$/, '')
+    .replace(/[-.]/g, '')
+    .replace(/^0+/, '')
+    .replace(/0+$/, '')
+  return Math.ceil(Math.max(digits.length, 1) / 2) + 1
+}
@@ -0,0 +1,134 @@
+/**
+ * Tests for the batching item loader
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { ItemLoader } from './loader'
+import { MemoryDynamoDB } from './memory-dynamodb'
+import { TableClient } from './table-client'
+import { ValidationError } from './errors'
+
+/**
+ * Client on an in-memory table with the given users, recording the keys of each batchGet
+ */
+async function createClient(userCount: number) {
+  const memory = new MemoryDynamoDB([{ tableName: 'test-table' }])
+  const client = new TableClient({ tableName: 'test-table', client: memory.client })
+  await client.batchWrite(
+    Array.from({ length: userCount }, (_, i) => ({
+      type: 'put' as const,
+      item: { pk: `USER#${i}`, sk: 'PROFILE', name: `User ${i}` },
+    }))
+  )
+
+  const batches: number[] = []
+  client.use(async (context, next) => {
+    if (context.operation === 'batchGet') {
+      batches.push(context.input.RequestItems['test-table'].Keys.length)
+    }
+    return next()
+  })
+  return { client, batches }
+}
+
+function userKey(id: number) {
+  return { pk: `USER#${id}`, sk: 'PROFILE' }
+}
+
+describe('ItemLoader', () => {
+  test('should batch loads of the same tick and resolve each of them', async () => {
+    const { client, batches } = await createClient(3)
+    const loader = new ItemLoader(client)
+
+    const results = await Promise.all([
+      loader.load(userKey(2)),
+      loader.load(userKey(0)),
+      loader.load(userKey(2)),
+      loader.load(userKey(9)),
+    ])
+
+    expect(results).toEqual([
+      { pk: 'USER#2', sk: 'PROFILE', name: 'User 2' },
+      { pk: 'USER#0', sk: 'PROFILE', name: 'User 0' },
+      { pk: 'USER#2', sk: 'PROFILE', name: 'User 2' },
+      null,
+    ])
+    expect(batches).toEqual([3])
+  })
+
+  test('should join loads made after awaiting resolved values', async () => {
+    const { client, batches } = await createClient(2)
+    const loader = new ItemLoader(client)
+
+    const resolve = async (id: number) => {
+      await Promise.resolve()
+      return loader.load(userKey(id))
+    }
+    await Promise.all([loader.load(userKey(0)), resolve(1)])
+
+    expect(batches).toEqual([2])
+  })
+
+  test('should split large batches into chunks of maxBatchSize', async () => {
+    const { client, batches } = await createClient(250)
+
+    const items = await new ItemLoader(client).loadMany(
+      Array.from({ length: 250 }, (_, i) => userKey(i))
+    )
+    const small = await new ItemLoader(client, { maxBatchSize: 2 }).loadMany([
+      userKey(0),
+      userKey(1),
+      userKey(2),
+    ])
+
+    expect(items.map((item) => item?.pk)).toEqual(items.map((_, i) => `USER#${i}`))
+    expect(small).toHaveLength(3)
+    expect(batches).toEqual([100, 100, 50, 2, 1])
+  })
+
+  test('should remember loaded items until cleared', async () => {
+    const { client, batches } = await createClient(2)
+    const loader = new ItemLoader(client)
+
+    await loader.load(userKey(0))
+    await loader.load(userKey(0))
+    loader.clear(userKey(0)).prime(userKey(1), null)
+    await loader.load(userKey(0))
+
+    expect(await loader.load(userKey(1))).toBeNull()
+    expect(batches).toEqual([1, 1])
+  })
+
+  test('should read keys again when caching is disabled', async () => {
+    const { client, batches } = await createClient(1)
+    const loader = new ItemLoader(client, { cache: false })
+
+    await Promise.all([loader.load(userKey(0)), loader.load(userKey(0))])
+    await loader.load(userKey(0))
+
+    expect(batches).toEqual([1, 1])
+  })
+
+  test('should reject the loads of a failed batch and not remember them', async () => {
+    const { client } = await createClient(1)
+    let failures = 1
+    client.use(async (_, next) => {
+      if (failures-- > 0) {
+        throw new ValidationError('Invalid key', 'key', undefined, 'table key')
+      }
+      return next()
+    })
+    const loader = new ItemLoader(client)
+
+    const results = await Promise.allSettled([loader.load(userKey(0)), loader.load(userKey(1))])
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected'])
+    expect(await loader.load(userKey(0))).toEqual({ pk: 'USER#0', sk: 'PROFILE', name: 'User 0' })
+  })
+
+  test('should validate maxBatchSize', () => {
+    const client = new TableClient({ tableName: 'test-table' })
+
+    expect(() => new ItemLoader(client, { maxBatchSize: 101 })).toThrow(ValidationError)
+  })
+})
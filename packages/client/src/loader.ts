@@ -0,0 +1,207 @@
+/**
+ * DataLoader-style batching of item reads
+ */
+
+import type { Key } from '@ddb-lib/core'
+import { getKeyAttributeNames } from '@ddb-lib/core'
+import type { TableClient } from './table-client'
+import type { ItemLoaderOptions } from './types'
+import { canonicalJson } from './cursor'
+import { ValidationError } from './errors'
+
+/**
+ * Maximum number of keys DynamoDB accepts in one BatchGetItem request
+ */
+const MAX_BATCH_SIZE = 100
+
+/**
+ * Load waiting for the next dispatch
+ */
+interface PendingLoad<TItem> {
+  key: Key
+  promise: Promise<TItem | null>
+  resolve: (item: TItem | null) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Collects the loads made within one tick and reads them with batchGet
+ * Identical keys are read once and each load resolves on its own, with null for missing items.
+ * Loaded items are remembered for the lifetime of the loader, so create one loader per request
+ * (e.g. per GraphQL operation) to keep that cache short-lived and scoped to the request.
+ *
+ * @example
+ * ```typescript
+ * const context = { users: new ItemLoader(usersTable) }
+ *
+ * // In resolvers: concurrent loads become a single batchGet
+ * const author = await context.users.load({ pk: `USER#${post.authorId}`, sk: 'PROFILE' })
+ * ```
+ */
+export class ItemLoader<TItem = any> {
+  private readonly client: TableClient<TItem>
+  private readonly options: ItemLoaderOptions
+  private readonly maxBatchSize: number
+  private readonly keyAttributes: string[]
+  private readonly loaded = new Map<string, Promise<TItem | null>>()
+  private pending = new Map<string, PendingLoad<TItem>>()
+
+  constructor(client: TableClient<TItem>, options: ItemLoaderOptions = {}) {
+    const maxBatchSize = options.maxBatchSize ?? MAX_BATCH_SIZE
+    if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1 || maxBatchSize > MAX_BATCH_SIZE) {
+      throw new ValidationError(
+        `maxBatchSize must be an integer between 1 and ${MAX_BATCH_SIZE}`,
+        'maxBatchSize',
+        maxBatchSize,
+        `integer between 1 and ${MAX_BATCH_SIZE}`
+      )
+    }
+
+    this.client = client
+    this.options = options
+    this.maxBatchSize = maxBatchSize
+    this.keyAttributes = getKeyAttributeNames(client.getKeySchema())
+  }
+
+  /**
+   * Load an item by key
+   * @returns The item, or null if it doesn't exist
+   * @throws The error of the batchGet request the key was read with
+   */
+  load(key: Key): Promise<TItem | null> {
+    const id = this.keyId(key)
+    const known = this.loaded.get(id) ?? this.pending.get(id)?.promise
+    if (known) {
+      return known
+    }
+
+    let resolve!: PendingLoad<TItem>['resolve']
+    let reject!: PendingLoad<TItem>['reject']
+    const promise = new Promise<TItem | null>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+
+    if (this.pending.size === 0) {
+      this.scheduleDispatch()
+    }
+    this.pending.set(id, { key, promise, resolve, reject })
+    if (this.options.cache !== false) {
+      this.loaded.set(id, promise)
+    }
+    return promise
+  }
+
+  /**
+   * Load several items, in the order of their keys
+   */
+  loadMany(keys: Key[]): Promise<(TItem | null)[]> {
+    return Promise.all(keys.map((key) => this.load(key)))
+  }
+
+  /**
+   * Remember an item (or null for a missing item) without reading it
+   * Keys that were already loaded keep their item.
+   */
+  prime(key: Key, item: TItem | null): this {
+    const id = this.keyId(key)
+    if (this.options.cache !== false && !this.loaded.has(id)) {
+      this.loaded.set(id, Promise.resolve(item))
+    }
+    return this
+  }
+
+  /**
+   * Forget the item of a key, so the next load reads it again
+   */
+  clear(key: Key): this {
+    this.loaded.delete(this.keyId(key))
+    return this
+  }
+
+  /**
+   * Forget all loaded items
+   */
+  clearAll(): this {
+    this.loaded.clear()
+    return this
+  }
+
+  /**
+   * Dispatch once the current tick and the promise jobs it queued have run,
+   * so loads made after awaiting already resolved values join the same batch
+   * @private
+   */
+  private scheduleDispatch(): void {
+    Promise.resolve().then(() => process.nextTick(() => this.dispatch()))
+  }
+
+  /**
+   * Read all pending loads with batchGet, in chunks of `maxBatchSize`
+   * @private
+   */
+  private dispatch(): void {
+    const loads = [...this.pending.values()]
+    this.pending = new Map()
+
+    for (let i = 0; i < loads.length; i += this.maxBatchSize) {
+      void this.loadChunk(loads.slice(i, i + this.maxBatchSize))
+    }
+  }
+
+  /**
+   * Read one chunk of loads and settle each of them
+   * Keys left unprocessed are retried; if they still fail, the whole chunk is rejected.
+   * @private
+   */
+  private async loadChunk(loads: PendingLoad<TItem>[]): Promise<void> {
+    try {
+      const result = await this.client.batchGet(
+        loads.map((load) => load.key),
+        {
+          consistentRead: this.options.consistentRead,
+          projectionExpression: this.projection(),
+          chunkSize: loads.length,
+          onUnprocessed: 'retry',
+        }
+      )
+
+      const items = new Map<string, TItem>()
+      for (const item of result.items) {
+        items.set(this.keyId(item as Key), item)
+      }
+      for (const load of loads) {
+        load.resolve(items.get(this.keyId(load.key)) ?? null)
+      }
+    } catch (error) {
+      // Failed loads are not remembered, so they can be retried
+      for (const load of loads) {
+        const id = this.keyId(load.key)
+        if (this.loaded.get(id) === load.promise) {
+          this.loaded.delete(id)
+        }
+        load.reject(error)
+      }
+    }
+  }
+
+  /**
+   * Projection including the key attributes, which are needed to match items to keys
+   * @private
+   */
+  private projection(): string[] | undefined {
+    const projection = this.options.projectionExpression
+    if (!projection || projection.length === 0) {
+      return undefined
+    }
+    return [...new Set([...projection, ...this.keyAttributes])]
+  }
+
+  /**
+   * Serialized key attributes identifying the item of a key
+   * @private
+   */
+  private keyId(key: Key): string {
+    return canonicalJson(this.keyAttributes.map((attribute) => key[attribute]))
+  }
+}
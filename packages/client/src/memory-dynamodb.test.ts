@@ -0,0 +1,254 @@
+/**
+ * Tests for the in-memory DynamoDB engine
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { UpdateExpressionBuilder } from '@ddb-lib/core'
+import { ConditionalCheckError, TransactionCancelledError } from './errors'
+import { MemoryDynamoDB } from './memory-dynamodb'
+import { TableClient } from './table-client'
+
+function createTable(memory = new MemoryDynamoDB([{ tableName: 'test-table' }])) {
+  return { memory, client: new TableClient({ tableName: 'test-table', client: memory.client }) }
+}
+
+async function seedOrders(client: TableClient, count: number) {
+  await client.batchWrite(
+    Array.from({ length: count }, (_, i) => ({
+      type: 'put' as const,
+      item: {
+        pk: 'USER#1',
+        sk: `ORDER#${String(i + 1).padStart(2, '0')}`,
+        total: (i + 1) * 10,
+        status: i % 2 === 0 ? 'OPEN' : 'SHIPPED',
+      },
+    }))
+  )
+}
+
+describe('MemoryDynamoDB - Items', () => {
+  test('should put, get and delete items through TableClient', async () => {
+    const { memory, client } = createTable()
+
+    await client.put({ pk: 'USER#1', sk: 'PROFILE', name: 'Alice', tags: new Set(['a', 'b']) })
+
+    expect(await client.get({ pk: 'USER#1', sk: 'PROFILE' })).toEqual({
+      pk: 'USER#1',
+      sk: 'PROFILE',
+      name: 'Alice',
+      tags: new Set(['a', 'b']),
+    })
+    expect(await client.get({ pk: 'USER#2', sk: 'PROFILE' })).toBeNull()
+    expect(memory.getItems('test-table')).toHaveLength(1)
+
+    await client.delete({ pk: 'USER#1', sk: 'PROFILE' })
+    expect(memory.getItems('test-table')).toEqual([])
+  })
+
+  test('should enforce condition expressions', async () => {
+    const { client } = createTable()
+    await client.put({ pk: 'USER#1', sk: 'PROFILE', status: 'ACTIVE' })
+
+    await expect(
+      client.put({ pk: 'USER#1', sk: 'PROFILE' }, { condition: { pk: { exists: false } } })
+    ).rejects.toThrow(ConditionalCheckError)
+    await client.delete({ pk: 'USER#1', sk: 'PROFILE' }, { condition: { status: 'ACTIVE' } })
+    expect(await client.get({ pk: 'USER#1', sk: 'PROFILE' })).toBeNull()
+  })
+
+  test('should apply update expressions and return updated values', async () => {
+    const { client } = createTable()
+    await client.put({
+      pk: 'USER#1',
+      sk: 'PROFILE',
+      visits: 1,
+      tags: new Set(['a']),
+      history: [],
+      old: true,
+    })
+
+    const updated = await client.update(
+      { pk: 'USER#1', sk: 'PROFILE' },
+      new UpdateExpressionBuilder()
+        .increment('visits', 2)
+        .add('tags', new Set(['b']))
+        .appendToList('history', ['login'])
+        .remove('old'),
+      { returnValues: 'ALL_NEW' }
+    )
+
+    expect(updated).toEqual({
+      pk: 'USER#1',
+      sk: 'PROFILE',
+      visits: 3,
+      tags: new Set(['a', 'b']),
+      history: ['login'],
+    })
+  })
+
+  test('should reject keys that do not match the key schema', async () => {
+    const { client } = createTable()
+
+    await expect(client.put({ pk: 'USER#1', sk: 7 })).rejects.toThrow(/Type mismatch for key sk/)
+    await expect(
+      client.update({ pk: 'USER#1', sk: 'PROFILE' }, { pk: 'USER#2' })
+    ).rejects.toThrow(/part of the key/)
+  })
+})
+
+describe('MemoryDynamoDB - Query and Scan', () => {
+  test('should evaluate key conditions and filters in sort key order', async () => {
+    const { client } = createTable()
+    await seedOrders(client, 5)
+    await client.put({ pk: 'USER#2', sk: 'ORDER#01', total: 99, status: 'OPEN' })
+
+    const result = await client.query({
+      keyCondition: { pk: 'USER#1', sk: { beginsWith: 'ORDER#' } },
+      filter: { status: 'OPEN' },
+      scanIndexForward: false,
+    })
+
+    expect(result.items.map((item) => item.sk)).toEqual(['ORDER#05', 'ORDER#03', 'ORDER#01'])
+    expect(result.scannedCount).toBe(5)
+    expect(result.lastEvaluatedKey).toBeUndefined()
+  })
+
+  test('should paginate with limit and exclusive start key', async () => {
+    const { client } = createTable()
+    await seedOrders(client, 5)
+
+    const first = await client.query({ keyCondition: { pk: 'USER#1' }, limit: 2 })
+    const second = await client.query({
+      keyCondition: { pk: 'USER#1' },
+      limit: 2,
+      exclusiveStartKey: first.lastEvaluatedKey,
+    })
+    const all = await client.queryAll({ keyCondition: { pk: 'USER#1' }, limit: 2 })
+
+    expect(first.lastEvaluatedKey).toEqual({ pk: 'USER#1', sk: 'ORDER#02' })
+    expect(second.items.map((item) => item.sk)).toEqual(['ORDER#03', 'ORDER#04'])
+    expect(all.items).toHaveLength(5)
+  })
+
+  test('should query sparse indexes with their projection', async () => {
+    const memory = new MemoryDynamoDB([
+      {
+        tableName: 'test-table',
+        indexes: {
+          GSI1: {
+            keySchema: {
+              partitionKey: { name: 'gsi1pk', type: 'string' },
+              sortKey: { name: 'total', type: 'number' },
+            },
+            projection: ['status'],
+          },
+        },
+      },
+    ])
+    const client = new TableClient({
+      tableName: 'test-table',
+      client: memory.client,
+      indexKeySchemas: {
+        GSI1: {
+          partitionKey: { name: 'gsi1pk', type: 'string' },
+          sortKey: { name: 'total', type: 'number' },
+        },
+      },
+    })
+    await client.put({ pk: 'A', sk: 'A', gsi1pk: 'OPEN', total: 30, status: 'OPEN', note: 'x' })
+    await client.put({ pk: 'B', sk: 'B', gsi1pk: 'OPEN', total: 5, status: 'OPEN', note: 'y' })
+    await client.put({ pk: 'C', sk: 'C', total: 1 })
+
+    const result = await client.query({
+      index: 'GSI1',
+      keyCondition: { pk: 'OPEN', sk: { gte: 1 } },
+    })
+
+    expect(result.items).toEqual([
+      { pk: 'B', sk: 'B', gsi1pk: 'OPEN', total: 5, status: 'OPEN' },
+      { pk: 'A', sk: 'A', gsi1pk: 'OPEN', total: 30, status: 'OPEN' },
+    ])
+  })
+
+  test('should split scans into disjoint segments', async () => {
+    const { client } = createTable()
+    for (let i = 0; i < 20; i++) {
+      await client.put({ pk: `USER#${i}`, sk: 'PROFILE' })
+    }
+
+    const segments = await Promise.all(
+      [0, 1, 2].map((segment) => client.scan({ segment, totalSegments: 3 }))
+    )
+
+    const keys = segments.flatMap((segment) => segment.items.map((item) => item.pk))
+    expect(keys).toHaveLength(20)
+    expect(new Set(keys).size).toBe(20)
+  })
+})
+
+describe('MemoryDynamoDB - Batches and Transactions', () => {
+  test('should batch get stored items', async () => {
+    const { client } = createTable()
+    await seedOrders(client, 3)
+
+    const result = await client.batchGet([
+      { pk: 'USER#1', sk: 'ORDER#01' },
+      { pk: 'USER#1', sk: 'ORDER#03' },
+      { pk: 'USER#1', sk: 'ORDER#09' },
+    ])
+
+    expect(result.items.map((item) => item.sk).sort()).toEqual(['ORDER#01', 'ORDER#03'])
+    expect(result.unprocessedKeys).toEqual([])
+  })
+
+  test('should commit transactions atomically and report cancellation reasons', async () => {
+    const { memory, client } = createTable()
+    await client.put({ pk: 'SKU#1', sk: 'STOCK', stock: 1 })
+
+    const error = await client
+      .transactWrite([
+        { type: 'put', item: { pk: 'ORDER#1', sk: 'ORDER' } },
+        {
+          type: 'update',
+          key: { pk: 'SKU#1', sk: 'STOCK' },
+          updates: new UpdateExpressionBuilder().decrement('stock', 2),
+          condition: { stock: { gte: 2 } },
+        },
+      ])
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionCancelledError)
+    expect(error.reasons.map((reason: any) => reason.code)).toEqual([
+      'None',
+      'ConditionalCheckFailed',
+    ])
+    expect(memory.getItems('test-table')).toHaveLength(1)
+
+    await client.transactWrite([
+      { type: 'put', item: { pk: 'ORDER#1', sk: 'ORDER' } },
+      { type: 'delete', key: { pk: 'SKU#1', sk: 'STOCK' } },
+    ])
+    expect(memory.getItems('test-table')).toEqual([{ pk: 'ORDER#1', sk: 'ORDER' }])
+  })
+
+  test('should replay transactions with the same client request token', async () => {
+    const { memory, client } = createTable()
+    const operations = [
+      {
+        type: 'put' as const,
+        item: { pk: 'ORDER#1', sk: 'ORDER' },
+        condition: { pk: { exists: false } },
+      },
+    ]
+
+    await client.transactWrite(operations, { clientRequestToken: 'token-1' })
+    await client.transactWrite(operations, { clientRequestToken: 'token-1' })
+
+    expect(memory.getItems('test-table')).toHaveLength(1)
+    await expect(
+      client.transactWrite([{ type: 'delete', key: { pk: 'ORDER#1', sk: 'ORDER' } }], {
+        clientRequestToken: 'token-1',
+      })
+    ).rejects.toThrow(/same client token/)
+  })
+})
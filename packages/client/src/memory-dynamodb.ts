@@ -0,0 +1,855 @@
+/**
+ * In-memory DynamoDB engine for unit tests
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import type { KeySchema } from '@ddb-lib/core'
+import { DEFAULT_KEY_SCHEMA, getKeyAttributeNames } from '@ddb-lib/core'
+import type { MemoryIndexDefinition, MemoryTableDefinition } from './types'
+import { estimateItemSize } from './item-size'
+import {
+  applyUpdate,
+  compareValues,
+  evaluateCondition,
+  MemoryServiceError,
+  projectItem,
+  typeOf,
+} from './memory-expressions'
+import type { AttributeValue, ExpressionPlaceholders, WireItem } from './memory-expressions'
+
+/**
+ * Maximum size of a single item
+ */
+const MAX_ITEM_BYTES = 400 * 1024
+
+/**
+ * Maximum data read by a single query or scan page
+ */
+const MAX_PAGE_BYTES = 1024 * 1024
+
+/**
+ * How long DynamoDB remembers transaction client request tokens
+ */
+const IDEMPOTENCY_WINDOW_MS = 10 * 60 * 1000
+
+/**
+ * Attribute value type of each key attribute type
+ */
+const KEY_TYPES = { string: 'S', number: 'N', binary: 'B' } as const
+
+/**
+ * Table with its items, keyed by their serialized primary key
+ */
+interface StoredTable {
+  name: string
+  keySchema: KeySchema
+  indexes: Record<string, MemoryIndexDefinition>
+  items: Map<string, WireItem>
+}
+
+/**
+ * Change of one item a write would make, checked but not yet applied
+ */
+interface WritePlan {
+  table: StoredTable
+  id: string
+  existing?: WireItem
+  /** New item, or null to delete the item, or undefined to leave it unchanged */
+  item?: WireItem | null
+  /** Top-level attributes an update touched */
+  updatedAttributes?: string[]
+}
+
+/**
+ * DynamoDB request payload or response payload in wire format
+ */
+type Payload = Record<string, any>
+
+/**
+ * In-memory DynamoDB tables served through a real `DynamoDBClient`
+ * Requests go through the SDK (marshalling, error types) and are answered by a request
+ * handler evaluating key condition, filter, condition, update and projection expressions
+ * against the stored items. Supports get, put, update, delete, query and scan (including
+ * indexes, pagination and segments), batch operations and transactions.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryDynamoDB([
+ *   {
+ *     tableName: 'users',
+ *     indexes: { GSI1: { keySchema: { partitionKey: { name: 'gsi1pk', type: 'string' } } } },
+ *   },
+ * ])
+ * const table = new TableClient({ tableName: 'users', client: memory.client })
+ *
+ * await table.put({ pk: 'USER#1', sk: 'PROFILE', name: 'Alice' })
+ * expect(memory.getItems('users')).toHaveLength(1)
+ * ```
+ */
+export class MemoryDynamoDB {
+  /** Client to pass as `TableClientConfig.client` */
+  readonly client: DynamoDBClient
+
+  private readonly tables = new Map<string, StoredTable>()
+  private readonly requestTokens = new Map<string, { request: string; expiresAt: number }>()
+
+  constructor(tables: MemoryTableDefinition[] = []) {
+    for (const table of tables) {
+      this.createTable(table)
+    }
+
+    this.client = new DynamoDBClient({
+      region: 'memory',
+      credentials: { accessKeyId: 'memory', secretAccessKey: 'memory' },
+      maxAttempts: 1,
+      requestHandler: {
+        handle: async (request: any) => ({ response: this.handleRequest(request) }),
+      } as any,
+    })
+  }
+
+  /**
+   * Create an empty table
+   * @throws {Error} If a table with the same name exists
+   */
+  createTable(definition: MemoryTableDefinition): this {
+    if (this.tables.has(definition.tableName)) {
+      throw new Error(`Table '${definition.tableName}' already exists`)
+    }
+    this.tables.set(definition.tableName, {
+      name: definition.tableName,
+      keySchema: definition.keySchema ?? DEFAULT_KEY_SCHEMA,
+      indexes: definition.indexes ?? {},
+      items: new Map(),
+    })
+    return this
+  }
+
+  /**
+   * Items of a table in document form, ordered by primary key
+   */
+  getItems(tableName: string): Record<string, unknown>[] {
+    const table = this.getTable(tableName)
+    return this.sortItems([...table.items.values()], getKeyAttributeNames(table.keySchema)).map(
+      (item) => toDocument({ M: item }) as Record<string, unknown>
+    )
+  }
+
+  /**
+   * Answer an SDK HTTP request with a DynamoDB JSON response
+   * @private
+   */
+  private handleRequest(request: { headers: Record<string, string>; body?: string }) {
+    const operation = String(request.headers['x-amz-target'] ?? '').split('.')[1]
+    let statusCode = 200
+    let payload: Payload
+    try {
+      payload = this.execute(operation, JSON.parse(request.body || '{}'))
+    } catch (error) {
+      if (!(error instanceof MemoryServiceError)) {
+        throw error
+      }
+      statusCode = 400
+      payload = {
+        __type: `com.amazonaws.dynamodb.v20120810#${error.type}`,
+        message: error.message,
+        ...error.details,
+      }
+    }
+
+    return {
+      statusCode,
+      headers: { 'content-type': 'application/x-amz-json-1.0' },
+      body: Buffer.from(JSON.stringify(payload)),
+    }
+  }
+
+  /**
+   * Run one DynamoDB operation
+   * @private
+   */
+  private execute(operation: string, input: Payload): Payload {
+    switch (operation) {
+      case 'GetItem':
+        return this.getItem(input)
+      case 'PutItem':
+        return this.putItem(input)
+      case 'UpdateItem':
+        return this.updateItem(input)
+      case 'DeleteItem':
+        return this.deleteItem(input)
+      case 'Query':
+        return this.query(input)
+      case 'Scan':
+        return this.scan(input)
+      case 'BatchGetItem':
+        return this.batchGetItem(input)
+      case 'BatchWriteItem':
+        return this.batchWriteItem(input)
+      case 'TransactGetItems':
+        return this.transactGetItems(input)
+      case 'TransactWriteItems':
+        return this.transactWriteItems(input)
+      default:
+        throw new MemoryServiceError(
+          'UnknownOperationException',
+          `${operation} is not supported by the in-memory engine`
+        )
+    }
+  }
+
+  private getItem(input: Payload): Payload {
+    const table = this.getTable(input.TableName)
+    const item = table.items.get(this.keyId(table, input.Key))
+    return {
+      Item: item && this.project(item, input),
+      ConsumedCapacity: readCapacity(input, table, item ? itemSize(item) : 0),
+    }
+  }
+
+  private putItem(input: Payload): Payload {
+    const plan = this.planPut(input)
+    this.apply(plan)
+    return {
+      Attributes: input.ReturnValues === 'ALL_OLD' ? plan.existing : undefined,
+      ConsumedCapacity: writeCapacity(input, plan),
+    }
+  }
+
+  private updateItem(input: Payload): Payload {
+    const plan = this.planUpdate(input)
+    this.apply(plan)
+    return {
+      Attributes: returnValues(input.ReturnValues, plan),
+      ConsumedCapacity: writeCapacity(input, plan),
+    }
+  }
+
+  private deleteItem(input: Payload): Payload {
+    const plan = this.planDelete(input)
+    this.apply(plan)
+    return {
+      Attributes: input.ReturnValues === 'ALL_OLD' ? plan.existing : undefined,
+      ConsumedCapacity: writeCapacity(input, plan),
+    }
+  }
+
+  private query(input: Payload): Payload {
+    if (!input.KeyConditionExpression) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        'Either the KeyConditions or KeyConditionExpression parameter must be specified'
+      )
+    }
+    const table = this.getTable(input.TableName)
+    const candidates = this.readSource(table, input.IndexName).filter((item) =>
+      evaluateCondition(input.KeyConditionExpression, item, placeholders(input))
+    )
+    return this.readPage(table, input, candidates, input.ScanIndexForward === false)
+  }
+
+  private scan(input: Payload): Payload {
+    const table = this.getTable(input.TableName)
+    let candidates = this.readSource(table, input.IndexName)
+    if (input.TotalSegments !== undefined) {
+      const partitionKey = table.keySchema.partitionKey.name
+      candidates = candidates.filter(
+        (item) =>
+          hashString(JSON.stringify(item[partitionKey])) % input.TotalSegments === input.Segment
+      )
+    }
+    return this.readPage(table, input, candidates, false)
+  }
+
+  private batchGetItem(input: Payload): Payload {
+    const requests = Object.entries(input.RequestItems ?? {}) as [string, Payload][]
+    const keyCount = requests.reduce((sum, [, request]) => sum + request.Keys.length, 0)
+    if (keyCount > 100) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        'Too many items requested for the BatchGetItem call'
+      )
+    }
+
+    const responses: Record<string, WireItem[]> = {}
+    const capacity: (Payload | undefined)[] = []
+    for (const [tableName, request] of requests) {
+      const table = this.getTable(tableName)
+      const ids = request.Keys.map((key: WireItem) => this.keyId(table, key))
+      assertUnique(ids)
+      const items = ids
+        .map((id: string) => table.items.get(id))
+        .filter((item: WireItem | undefined): item is WireItem => item !== undefined)
+      responses[tableName] = items.map((item: WireItem) => this.project(item, request))
+      const size = items.reduce((sum: number, item: WireItem) => sum + itemSize(item), 0)
+      capacity.push(readCapacity(input, table, size, request.ConsistentRead))
+    }
+
+    return {
+      Responses: responses,
+      UnprocessedKeys: {},
+      ConsumedCapacity: input.ReturnConsumedCapacity ? capacity : undefined,
+    }
+  }
+
+  private batchWriteItem(input: Payload): Payload {
+    const requests = Object.entries(input.RequestItems ?? {}) as [string, Payload[]][]
+    const plans: WritePlan[] = []
+    for (const [tableName, writes] of requests) {
+      for (const write of writes) {
+        plans.push(
+          write.PutRequest
+            ? this.planPut({ TableName: tableName, Item: write.PutRequest.Item })
+            : this.planDelete({ TableName: tableName, Key: write.DeleteRequest.Key })
+        )
+      }
+    }
+    if (plans.length > 25) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        'Too many items requested for the BatchWriteItem call'
+      )
+    }
+    assertUnique(plans.map((plan) => `${plan.table.name}:${plan.id}`))
+
+    for (const plan of plans) {
+      this.apply(plan)
+    }
+    return {
+      UnprocessedItems: {},
+      ConsumedCapacity: input.ReturnConsumedCapacity
+        ? requests.map(([tableName]) => ({
+          TableName: tableName,
+          CapacityUnits: plans
+            .filter((plan) => plan.table.name === tableName)
+            .reduce((sum, plan) => sum + writeUnits(plan), 0),
+        }))
+        : undefined,
+    }
+  }
+
+  private transactGetItems(input: Payload): Payload {
+    const gets: Payload[] = (input.TransactItems ?? []).map((entry: Payload) => entry.Get)
+    assertTransactionSize(gets.length)
+    const ids = gets.map((get) => {
+      const table = this.getTable(get.TableName)
+      return { table, id: this.keyId(table, get.Key) }
+    })
+    assertUnique(
+      ids.map(({ table, id }) => `${table.name}:${id}`),
+      'Transaction request cannot include multiple operations on one item'
+    )
+
+    return {
+      Responses: ids.map(({ table, id }, index) => {
+        const item = table.items.get(id)
+        return { Item: item && this.project(item, gets[index]) }
+      }),
+    }
+  }
+
+  private transactWriteItems(input: Payload): Payload {
+    const entries: Payload[] = input.TransactItems ?? []
+    assertTransactionSize(entries.length)
+
+    if (input.ClientRequestToken && this.isRepeatedRequest(input)) {
+      return {}
+    }
+
+    const plans: WritePlan[] = []
+    const reasons = entries.map((entry) => {
+      try {
+        plans.push(this.planTransactItem(entry))
+        return { Code: 'None' }
+      } catch (error) {
+        const isConditionFailure =
+          error instanceof MemoryServiceError && error.type === 'ConditionalCheckFailedException'
+        if (!isConditionFailure) {
+          throw error
+        }
+        return { Code: 'ConditionalCheckFailed', Message: error.message, ...error.details }
+      }
+    })
+    assertUnique(
+      plans.map((plan) => `${plan.table.name}:${plan.id}`),
+      'Transaction request cannot include multiple operations on one item'
+    )
+
+    if (reasons.some((reason) => reason.Code !== 'None')) {
+      throw new MemoryServiceError(
+        'TransactionCanceledException',
+        `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons
+          .map((reason) => reason.Code)
+          .join(', ')}]`,
+        { CancellationReasons: reasons }
+      )
+    }
+
+    for (const plan of plans) {
+      this.apply(plan)
+    }
+    if (input.ClientRequestToken) {
+      this.requestTokens.set(input.ClientRequestToken, {
+        request: JSON.stringify(entries),
+        expiresAt: Date.now() + IDEMPOTENCY_WINDOW_MS,
+      })
+    }
+
+    const tableNames = [...new Set(plans.map((plan) => plan.table.name))]
+    return {
+      ConsumedCapacity: input.ReturnConsumedCapacity
+        ? tableNames.map((tableName) => ({
+          TableName: tableName,
+          CapacityUnits: plans
+            .filter((plan) => plan.table.name === tableName)
+            .reduce((sum, plan) => sum + 2 * writeUnits(plan), 0),
+        }))
+        : undefined,
+    }
+  }
+
+  /**
+   * Whether a transaction repeats a committed one with the same client request token
+   * @throws {MemoryServiceError} If the token was used for a different transaction
+   * @private
+   */
+  private isRepeatedRequest(input: Payload): boolean {
+    const previous = this.requestTokens.get(input.ClientRequestToken)
+    if (!previous || previous.expiresAt < Date.now()) {
+      return false
+    }
+    if (previous.request !== JSON.stringify(input.TransactItems)) {
+      throw new MemoryServiceError(
+        'IdempotentParameterMismatchException',
+        'The request uses the same client token as a previous, but non-identical request'
+      )
+    }
+    return true
+  }
+
+  private planTransactItem(entry: Payload): WritePlan {
+    if (entry.Put) {
+      return this.planPut(entry.Put)
+    }
+    if (entry.Update) {
+      return this.planUpdate(entry.Update)
+    }
+    if (entry.Delete) {
+      return this.planDelete(entry.Delete)
+    }
+    const table = this.getTable(entry.ConditionCheck.TableName)
+    const id = this.keyId(table, entry.ConditionCheck.Key)
+    const existing = table.items.get(id)
+    checkCondition(entry.ConditionCheck, existing)
+    return { table, id, existing }
+  }
+
+  private planPut(input: Payload): WritePlan {
+    const table = this.getTable(input.TableName)
+    const item: WireItem = input.Item
+    this.validateItem(table, item)
+    const id = this.keyId(table, pickKey(item, table.keySchema))
+    const existing = table.items.get(id)
+    checkCondition(input, existing)
+    return { table, id, existing, item }
+  }
+
+  private planUpdate(input: Payload): WritePlan {
+    const table = this.getTable(input.TableName)
+    const id = this.keyId(table, input.Key)
+    const existing = table.items.get(id)
+    checkCondition(input, existing)
+
+    if (!input.UpdateExpression) {
+      return { table, id, existing, item: existing ?? { ...input.Key }, updatedAttributes: [] }
+    }
+    const { item, updatedAttributes } = applyUpdate(
+      input.UpdateExpression,
+      existing ?? { ...input.Key },
+      placeholders(input)
+    )
+    for (const attribute of getKeyAttributeNames(table.keySchema)) {
+      if (updatedAttributes.includes(attribute)) {
+        throw new MemoryServiceError(
+          'ValidationException',
+          `One or more parameter values were invalid: Cannot update attribute ${attribute}. This attribute is part of the key`
+        )
+      }
+    }
+    this.validateItem(table, item)
+    return { table, id, existing, item, updatedAttributes }
+  }
+
+  private planDelete(input: Payload): WritePlan {
+    const table = this.getTable(input.TableName)
+    const id = this.keyId(table, input.Key)
+    const existing = table.items.get(id)
+    checkCondition(input, existing)
+    return { table, id, existing, item: null }
+  }
+
+  private apply(plan: WritePlan): void {
+    if (plan.item) {
+      plan.table.items.set(plan.id, plan.item)
+    } else if (plan.item === null) {
+      plan.table.items.delete(plan.id)
+    }
+  }
+
+  /**
+   * Items of a table or index, ordered by index key then table key
+   * @private
+   */
+  private readSource(table: StoredTable, indexName?: string): WireItem[] {
+    const tableKey = getKeyAttributeNames(table.keySchema)
+    if (!indexName) {
+      return this.sortItems([...table.items.values()], tableKey)
+    }
+
+    const index = table.indexes[indexName]
+    if (!index) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        `The table does not have the specified index: ${indexName}`
+      )
+    }
+    const indexKey = getKeyAttributeNames(index.keySchema)
+    const projection = index.projection ?? 'ALL'
+    const items: WireItem[] = []
+    for (const item of table.items.values()) {
+      if (indexKey.some((attribute) => item[attribute] === undefined)) {
+        continue
+      }
+      if (projection === 'ALL') {
+        items.push(item)
+        continue
+      }
+      const included = projection === 'KEYS_ONLY' ? [] : projection
+      const attributes = [...tableKey, ...indexKey, ...included]
+      items.push(
+        Object.fromEntries(
+          attributes.filter((attribute) => item[attribute] !== undefined).map((a) => [a, item[a]])
+        )
+      )
+    }
+    return this.sortItems(items, [...new Set([...indexKey, ...tableKey])])
+  }
+
+  /**
+   * Read one page of a query or scan: evaluate up to `Limit` items or 1MB from
+   * `ExclusiveStartKey` on, then filter and project them
+   * @private
+   */
+  private readPage(
+    table: StoredTable,
+    input: Payload,
+    candidates: WireItem[],
+    reverse: boolean
+  ): Payload {
+    const index = input.IndexName ? table.indexes[input.IndexName] : undefined
+    const keyAttributes = [
+      ...new Set([
+        ...(index ? getKeyAttributeNames(index.keySchema) : []),
+        ...getKeyAttributeNames(table.keySchema),
+      ]),
+    ]
+    const ordered = reverse ? [...candidates].reverse() : candidates
+
+    let start = 0
+    if (input.ExclusiveStartKey) {
+      const direction = reverse ? -1 : 1
+      start = ordered.findIndex(
+        (item) => direction * compareKeys(item, input.ExclusiveStartKey, keyAttributes) > 0
+      )
+      if (start === -1) {
+        start = ordered.length
+      }
+    }
+
+    const evaluated: WireItem[] = []
+    let bytes = 0
+    for (const item of ordered.slice(start)) {
+      if (evaluated.length === input.Limit || bytes >= MAX_PAGE_BYTES) {
+        break
+      }
+      evaluated.push(item)
+      bytes += itemSize(item)
+    }
+
+    const lastItem = evaluated[evaluated.length - 1]
+    const hasMore = start + evaluated.length < ordered.length
+    const matches = input.FilterExpression
+      ? evaluated.filter((item) =>
+        evaluateCondition(input.FilterExpression, item, placeholders(input))
+      )
+      : evaluated
+
+    return {
+      Items:
+        input.Select === 'COUNT' ? undefined : matches.map((item) => this.project(item, input)),
+      Count: matches.length,
+      ScannedCount: evaluated.length,
+      LastEvaluatedKey:
+        hasMore && lastItem ? pickAttributes(lastItem, keyAttributes) : undefined,
+      ConsumedCapacity: readCapacity(input, table, bytes),
+    }
+  }
+
+  private project(item: WireItem, input: Payload): WireItem {
+    return input.ProjectionExpression
+      ? projectItem(item, input.ProjectionExpression, placeholders(input))
+      : item
+  }
+
+  private sortItems(items: WireItem[], keyAttributes: string[]): WireItem[] {
+    return items.sort((a, b) => compareKeys(a, b, keyAttributes))
+  }
+
+  private getTable(tableName: string): StoredTable {
+    const table = this.tables.get(tableName)
+    if (!table) {
+      throw new MemoryServiceError(
+        'ResourceNotFoundException',
+        `Requested resource not found: Table: ${tableName} not found`
+      )
+    }
+    return table
+  }
+
+  /**
+   * Serialized primary key of a table item
+   * @throws {MemoryServiceError} If the key does not match the table key schema
+   * @private
+   */
+  private keyId(table: StoredTable, key: WireItem | undefined): string {
+    const attributes = getKeyAttributeNames(table.keySchema)
+    const valid =
+      key !== undefined &&
+      Object.keys(key).length === attributes.length &&
+      keyDefinitions(table.keySchema).every(
+        ({ name, type }) => key[name] !== undefined && typeOf(key[name]) === KEY_TYPES[type]
+      )
+    if (!valid) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        'The provided key element does not match the schema'
+      )
+    }
+    return JSON.stringify(attributes.map((attribute) => key[attribute]))
+  }
+
+  /**
+   * Check the key attributes and size of an item to store
+   * @private
+   */
+  private validateItem(table: StoredTable, item: WireItem): void {
+    const definitions = [
+      ...keyDefinitions(table.keySchema),
+      ...Object.values(table.indexes).flatMap((index) => keyDefinitions(index.keySchema)),
+    ]
+    for (const [position, { name, type }] of definitions.entries()) {
+      const isTableKey = position < keyDefinitions(table.keySchema).length
+      if (item[name] === undefined) {
+        if (isTableKey) {
+          throw new MemoryServiceError(
+            'ValidationException',
+            `One or more parameter values were invalid: Missing the key ${name} in the item`
+          )
+        }
+      } else if (typeOf(item[name]) !== KEY_TYPES[type]) {
+        throw new MemoryServiceError(
+          'ValidationException',
+          `One or more parameter values were invalid: Type mismatch for key ${name} expected: ${KEY_TYPES[type]} actual: ${typeOf(item[name])}`
+        )
+      }
+    }
+    if (itemSize(item) > MAX_ITEM_BYTES) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        'Item size has exceeded the maximum allowed size'
+      )
+    }
+  }
+}
+
+/**
+ * Throw ConditionalCheckFailedException when the condition of a write does not hold
+ */
+function checkCondition(input: Payload, existing: WireItem | undefined): void {
+  if (
+    input.ConditionExpression &&
+    !evaluateCondition(input.ConditionExpression, existing, placeholders(input))
+  ) {
+    const returnItem = input.ReturnValuesOnConditionCheckFailure === 'ALL_OLD' && existing
+    throw new MemoryServiceError(
+      'ConditionalCheckFailedException',
+      'The conditional request failed',
+      returnItem ? { Item: existing } : {}
+    )
+  }
+}
+
+/**
+ * Attributes returned by an update for its ReturnValues setting
+ */
+function returnValues(mode: string | undefined, plan: WritePlan): WireItem | undefined {
+  const updated = plan.updatedAttributes ?? []
+  switch (mode) {
+    case 'ALL_OLD':
+      return plan.existing
+    case 'ALL_NEW':
+      return plan.item ?? undefined
+    case 'UPDATED_OLD':
+      return plan.existing && pickAttributes(plan.existing, updated)
+    case 'UPDATED_NEW':
+      return plan.item ? pickAttributes(plan.item, updated) : undefined
+    default:
+      return undefined
+  }
+}
+
+function placeholders(input: Payload): ExpressionPlaceholders {
+  return { names: input.ExpressionAttributeNames, values: input.ExpressionAttributeValues }
+}
+
+function keyDefinitions(keySchema: KeySchema) {
+  return keySchema.sortKey ? [keySchema.partitionKey, keySchema.sortKey] : [keySchema.partitionKey]
+}
+
+function pickKey(item: WireItem, keySchema: KeySchema): WireItem {
+  return pickAttributes(item, getKeyAttributeNames(keySchema))
+}
+
+function pickAttributes(item: WireItem, attributes: string[]): WireItem {
+  const picked: WireItem = {}
+  for (const attribute of attributes) {
+    if (item[attribute] !== undefined) {
+      picked[attribute] = item[attribute]
+    }
+  }
+  return picked
+}
+
+/**
+ * Order items by the given key attributes; items missing an attribute sort first
+ */
+function compareKeys(a: WireItem, b: WireItem, attributes: string[]): number {
+  for (const attribute of attributes) {
+    if (a[attribute] === undefined || b[attribute] === undefined) {
+      const missing = Number(b[attribute] === undefined) - Number(a[attribute] === undefined)
+      if (missing !== 0) {
+        return missing
+      }
+      continue
+    }
+    const order = compareValues(a[attribute], b[attribute])
+    if (order !== 0 && !Number.isNaN(order)) {
+      return order
+    }
+  }
+  return 0
+}
+
+function assertUnique(
+  ids: string[],
+  message = 'Provided list of item keys contains duplicates'
+): void {
+  if (new Set(ids).size !== ids.length) {
+    throw new MemoryServiceError('ValidationException', message)
+  }
+}
+
+function assertTransactionSize(count: number): void {
+  if (count > 100) {
+    throw new MemoryServiceError(
+      'ValidationException',
+      `Member must have length less than or equal to 100, but was ${count}`
+    )
+  }
+}
+
+function itemSize(item: WireItem): number {
+  return estimateItemSize(toDocument({ M: item }) as Record<string, unknown>)
+}
+
+/**
+ * Read capacity of reading the given number of bytes, if the request asked for it
+ */
+function readCapacity(
+  input: Payload,
+  table: StoredTable,
+  bytes: number,
+  consistentRead = input.ConsistentRead
+): Payload | undefined {
+  if (!input.ReturnConsumedCapacity || input.ReturnConsumedCapacity === 'NONE') {
+    return undefined
+  }
+  const units = Math.max(1, Math.ceil(bytes / 4096)) * (consistentRead ? 1 : 0.5)
+  return { TableName: table.name, CapacityUnits: units }
+}
+
+/**
+ * Write capacity of a single write, if the request asked for it
+ */
+function writeCapacity(input: Payload, plan: WritePlan): Payload | undefined {
+  if (!input.ReturnConsumedCapacity || input.ReturnConsumedCapacity === 'NONE') {
+    return undefined
+  }
+  return { TableName: plan.table.name, CapacityUnits: writeUnits(plan) }
+}
+
+function writeUnits(plan: WritePlan): number {
+  const bytes = Math.max(
+    plan.existing ? itemSize(plan.existing) : 0,
+    plan.item ? itemSize(plan.item) : 0
+  )
+  return Math.max(1, Math.ceil(bytes / 1024))
+}
+
+/**
+ * Hash used to assign items to scan segments
+ */
+function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Convert a wire-format attribute value to its document form
+ */
+function toDocument(value: AttributeValue): unknown {
+  const type = typeOf(value)
+  switch (type) {
+    case 'S':
+    case 'BOOL':
+      return value[type]
+    case 'N':
+      return Number(value.N)
+    case 'B':
+      return new Uint8Array(Buffer.from(value.B, 'base64'))
+    case 'NULL':
+      return null
+    case 'L':
+      return value.L.map(toDocument)
+    case 'M':
+      return Object.fromEntries(
+        Object.entries(value.M).map(([name, member]) => [
+          name,
+          toDocument(member as AttributeValue),
+        ])
+      )
+    case 'SS':
+      return new Set(value.SS)
+    case 'NS':
+      return new Set(value.NS.map(Number))
+    case 'BS':
+      return new Set(
+        value.BS.map((member: string) => new Uint8Array(Buffer.from(member, 'base64')))
+      )
+    default:
+      return undefined
+  }
+}
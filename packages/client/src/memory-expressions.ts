@@ -0,0 +1,914 @@
+/**
+ * Expression parsing and evaluation for the in-memory DynamoDB engine
+ * Works on items in DynamoDB wire format (attribute values such as `{ S: 'a' }`, binaries as
+ * base64 strings)
+ */
+
+/**
+ * Attribute value in DynamoDB wire format
+ */
+export type AttributeValue = Record<string, any>
+
+/**
+ * Item in DynamoDB wire format
+ */
+export type WireItem = Record<string, AttributeValue>
+
+/**
+ * Expression attribute name and value placeholders of a request
+ */
+export interface ExpressionPlaceholders {
+  names?: Record<string, string>
+  values?: Record<string, AttributeValue>
+}
+
+/**
+ * Error reported by the engine as a DynamoDB service exception
+ */
+export class MemoryServiceError extends Error {
+  constructor(
+    public type: string,
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message)
+    this.name = type
+  }
+}
+
+/**
+ * Attribute path: top-level name followed by map keys and list indexes
+ */
+type Path = (string | number)[]
+
+type Operand =
+  | { kind: 'path'; path: Path }
+  | { kind: 'value'; value: AttributeValue }
+  | { kind: 'size'; path: Path }
+
+type Condition =
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; condition: Condition }
+  | { kind: 'compare'; operator: string; left: Operand; right: Operand }
+  | { kind: 'between'; operand: Operand; low: Operand; high: Operand }
+  | { kind: 'in'; operand: Operand; list: Operand[] }
+  | { kind: 'function'; name: string; args: Operand[] }
+
+type UpdateValue =
+  | Operand
+  | { kind: 'if_not_exists'; path: Path; fallback: UpdateValue }
+  | { kind: 'list_append'; left: UpdateValue; right: UpdateValue }
+  | { kind: 'arithmetic'; operator: '+' | '-'; left: UpdateValue; right: UpdateValue }
+
+type UpdateAction =
+  | { kind: 'SET'; path: Path; value: UpdateValue }
+  | { kind: 'REMOVE'; path: Path }
+  | { kind: 'ADD' | 'DELETE'; path: Path; value: Operand }
+
+interface Token {
+  type: 'name' | 'value' | 'identifier' | 'number' | 'symbol'
+  text: string
+}
+
+const CONDITION_FUNCTIONS = [
+  'attribute_exists',
+  'attribute_not_exists',
+  'attribute_type',
+  'begins_with',
+  'contains',
+]
+
+const COMPARATORS = ['=', '<>', '<', '<=', '>', '>=']
+
+const UPDATE_CLAUSES = ['SET', 'REMOVE', 'ADD', 'DELETE']
+
+/**
+ * Evaluate a condition, filter or key condition expression against an item
+ * A missing item is treated as an item without attributes
+ */
+export function evaluateCondition(
+  expression: string,
+  item: WireItem | undefined,
+  placeholders: ExpressionPlaceholders
+): boolean {
+  const parser = new ExpressionParser(expression, placeholders)
+  const condition = parser.parseCondition()
+  parser.expectEnd()
+  return evaluate(condition, item ?? {})
+}
+
+/**
+ * Apply an update expression to a copy of an item
+ * All values are computed from the item as it was before the update, as DynamoDB does.
+ *
+ * @returns Updated item and the top-level attributes the update touched
+ */
+export function applyUpdate(
+  expression: string,
+  item: WireItem,
+  placeholders: ExpressionPlaceholders
+): { item: WireItem; updatedAttributes: string[] } {
+  const parser = new ExpressionParser(expression, placeholders)
+  const actions = parser.parseUpdate()
+  parser.expectEnd()
+
+  const updated: WireItem = structuredClone(item)
+  const touched = new Set<string>()
+  const resolved = actions.map((action) => ({
+    action,
+    value:
+      action.kind === 'SET'
+        ? resolveUpdateValue(action.value, item)
+        : action.kind === 'REMOVE'
+          ? undefined
+          : resolveOperand(action.value, item),
+  }))
+
+  // Remove list elements from the highest index down so earlier removals don't shift them
+  const removals = resolved
+    .filter(({ action }) => action.kind === 'REMOVE')
+    .sort((a, b) => comparePathsForRemoval(a.action.path, b.action.path))
+
+  for (const { action, value } of [
+    ...resolved.filter(({ action }) => action.kind !== 'REMOVE'),
+    ...removals,
+  ]) {
+    touched.add(String(action.path[0]))
+    if (action.kind === 'SET') {
+      setPath(updated, action.path, value as AttributeValue)
+    } else if (action.kind === 'REMOVE') {
+      removePath(updated, action.path)
+    } else if (action.kind === 'ADD') {
+      setPath(updated, action.path, addValues(getPath(item, action.path), value))
+    } else {
+      const remaining = deleteFromSet(getPath(item, action.path), value)
+      if (remaining) {
+        setPath(updated, action.path, remaining)
+      } else {
+        removePath(updated, action.path)
+      }
+    }
+  }
+
+  return { item: updated, updatedAttributes: [...touched] }
+}
+
+/**
+ * Keep only the attributes named by a projection expression
+ */
+export function projectItem(
+  item: WireItem,
+  expression: string,
+  placeholders: ExpressionPlaceholders
+): WireItem {
+  const parser = new ExpressionParser(expression, placeholders)
+  const paths = parser.parseProjection()
+  parser.expectEnd()
+
+  const projected: WireItem = {}
+  for (const path of paths) {
+    const value = getPath(item, path)
+    if (value !== undefined) {
+      setProjectedPath(projected, item, path)
+    }
+  }
+  return projected
+}
+
+/**
+ * Order two scalar attribute values (S, N or B) of the same type
+ */
+export function compareValues(a: AttributeValue, b: AttributeValue): number {
+  if (a.N !== undefined && b.N !== undefined) {
+    return Number(a.N) - Number(b.N)
+  }
+  if (a.S !== undefined && b.S !== undefined) {
+    return Buffer.compare(Buffer.from(a.S), Buffer.from(b.S))
+  }
+  if (a.B !== undefined && b.B !== undefined) {
+    return Buffer.compare(Buffer.from(a.B, 'base64'), Buffer.from(b.B, 'base64'))
+  }
+  return Number.NaN
+}
+
+/**
+ * Whether two attribute values are equal; sets are compared without regard to order
+ */
+export function valuesEqual(a: AttributeValue | undefined, b: AttributeValue | undefined): boolean {
+  if (a === undefined || b === undefined) {
+    return false
+  }
+  const type = typeOf(a)
+  if (type !== typeOf(b)) {
+    return false
+  }
+  switch (type) {
+    case 'N':
+      return Number(a.N) === Number(b.N)
+    case 'SS':
+    case 'BS':
+      return a[type].length === b[type].length && a[type].every((v: string) => b[type].includes(v))
+    case 'NS':
+      return (
+        a.NS.length === b.NS.length &&
+        a.NS.every((v: string) => b.NS.some((w: string) => Number(v) === Number(w)))
+      )
+    case 'L':
+      return (
+        a.L.length === b.L.length &&
+        a.L.every((v: AttributeValue, i: number) => valuesEqual(v, b.L[i]))
+      )
+    case 'M': {
+      const keys = Object.keys(a.M)
+      return (
+        keys.length === Object.keys(b.M).length &&
+        keys.every((key) => valuesEqual(a.M[key], b.M[key]))
+      )
+    }
+    default:
+      return a[type] === b[type]
+  }
+}
+
+/**
+ * Type descriptor of an attribute value (S, N, B, BOOL, NULL, M, L, SS, NS or BS)
+ */
+export function typeOf(value: AttributeValue): string {
+  return Object.keys(value)[0]
+}
+
+/**
+ * Recursive-descent parser for DynamoDB expressions
+ */
+class ExpressionParser {
+  private readonly tokens: Token[]
+  private position = 0
+
+  constructor(
+    private readonly expression: string,
+    private readonly placeholders: ExpressionPlaceholders
+  ) {
+    this.tokens = tokenize(expression)
+  }
+
+  parseCondition(): Condition {
+    let left = this.parseAnd()
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  parseUpdate(): UpdateAction[] {
+    const actions: UpdateAction[] = []
+    const seenClauses = new Set<string>()
+    while (this.peek()) {
+      const clause = this.next().text.toUpperCase()
+      if (!UPDATE_CLAUSES.includes(clause) || seenClauses.has(clause)) {
+        throw this.syntaxError(`unexpected token '${clause}'`)
+      }
+      seenClauses.add(clause)
+      do {
+        actions.push(this.parseUpdateAction(clause as UpdateAction['kind']))
+      } while (this.acceptSymbol(','))
+    }
+    if (actions.length === 0) {
+      throw this.syntaxError('no update actions')
+    }
+    return actions
+  }
+
+  parseProjection(): Path[] {
+    const paths = [this.parsePath()]
+    while (this.acceptSymbol(',')) {
+      paths.push(this.parsePath())
+    }
+    return paths
+  }
+
+  expectEnd(): void {
+    const token = this.peek()
+    if (token) {
+      throw this.syntaxError(`unexpected token '${token.text}'`)
+    }
+  }
+
+  private parseAnd(): Condition {
+    let left = this.parseNot()
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): Condition {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', condition: this.parseNot() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): Condition {
+    if (this.acceptSymbol('(')) {
+      const condition = this.parseCondition()
+      this.expectSymbol(')')
+      return condition
+    }
+
+    const token = this.peek()
+    const following = this.tokens[this.position + 1]
+    if (
+      token?.type === 'identifier' &&
+      CONDITION_FUNCTIONS.includes(token.text) &&
+      following?.text === '('
+    ) {
+      this.position += 2
+      const args = [this.parseOperand()]
+      while (this.acceptSymbol(',')) {
+        args.push(this.parseOperand())
+      }
+      this.expectSymbol(')')
+      return { kind: 'function', name: token.text, args }
+    }
+
+    const operand = this.parseOperand()
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseOperand()
+      this.expectKeyword('AND')
+      return { kind: 'between', operand, low, high: this.parseOperand() }
+    }
+    if (this.acceptKeyword('IN')) {
+      this.expectSymbol('(')
+      const list = [this.parseOperand()]
+      while (this.acceptSymbol(',')) {
+        list.push(this.parseOperand())
+      }
+      this.expectSymbol(')')
+      return { kind: 'in', operand, list }
+    }
+
+    const operator = this.next()
+    if (operator?.type !== 'symbol' || !COMPARATORS.includes(operator.text)) {
+      throw this.syntaxError(`expected a comparator but found '${operator?.text ?? 'end'}'`)
+    }
+    return { kind: 'compare', operator: operator.text, left: operand, right: this.parseOperand() }
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek()
+    if (token?.type === 'value') {
+      this.position++
+      return { kind: 'value', value: this.resolveValue(token.text) }
+    }
+    if (token?.type === 'identifier' && token.text === 'size' && this.isFollowedByParen()) {
+      this.position += 2
+      const path = this.parsePath()
+      this.expectSymbol(')')
+      return { kind: 'size', path }
+    }
+    return { kind: 'path', path: this.parsePath() }
+  }
+
+  private parseUpdateAction(clause: UpdateAction['kind']): UpdateAction {
+    const path = this.parsePath()
+    if (clause === 'SET') {
+      this.expectSymbol('=')
+      return { kind: 'SET', path, value: this.parseUpdateValue() }
+    }
+    if (clause === 'REMOVE') {
+      return { kind: 'REMOVE', path }
+    }
+    return { kind: clause, path, value: this.parseOperand() }
+  }
+
+  private parseUpdateValue(): UpdateValue {
+    const left = this.parseUpdateTerm()
+    const operator = this.peek()
+    if (operator?.type === 'symbol' && (operator.text === '+' || operator.text === '-')) {
+      this.position++
+      return { kind: 'arithmetic', operator: operator.text, left, right: this.parseUpdateTerm() }
+    }
+    return left
+  }
+
+  private parseUpdateTerm(): UpdateValue {
+    const token = this.peek()
+    if (token?.type === 'identifier' && this.isFollowedByParen()) {
+      if (token.text === 'if_not_exists') {
+        this.position += 2
+        const path = this.parsePath()
+        this.expectSymbol(',')
+        const fallback = this.parseUpdateValue()
+        this.expectSymbol(')')
+        return { kind: 'if_not_exists', path, fallback }
+      }
+      if (token.text === 'list_append') {
+        this.position += 2
+        const left = this.parseUpdateValue()
+        this.expectSymbol(',')
+        const right = this.parseUpdateValue()
+        this.expectSymbol(')')
+        return { kind: 'list_append', left, right }
+      }
+    }
+    return this.parseOperand()
+  }
+
+  private parsePath(): Path {
+    const first = this.next()
+    if (first?.type !== 'name' && first?.type !== 'identifier') {
+      throw this.syntaxError(`expected an attribute name but found '${first?.text ?? 'end'}'`)
+    }
+    const path: Path = [this.resolveName(first.text)]
+    for (;;) {
+      if (this.acceptSymbol('.')) {
+        const member = this.next()
+        if (member?.type !== 'name' && member?.type !== 'identifier') {
+          throw this.syntaxError('expected an attribute name after "."')
+        }
+        path.push(this.resolveName(member.text))
+      } else if (this.acceptSymbol('[')) {
+        const index = this.next()
+        if (index?.type !== 'number') {
+          throw this.syntaxError('expected a list index')
+        }
+        path.push(Number(index.text))
+        this.expectSymbol(']')
+      } else {
+        return path
+      }
+    }
+  }
+
+  private resolveName(text: string): string {
+    if (!text.startsWith('#')) {
+      return text
+    }
+    const name = this.placeholders.names?.[text]
+    if (name === undefined) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        `An expression attribute name used in the document path is not defined; attribute name: ${text}`
+      )
+    }
+    return name
+  }
+
+  private resolveValue(text: string): AttributeValue {
+    const value = this.placeholders.values?.[text]
+    if (value === undefined) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        `An expression attribute value used in expression is not defined; attribute value: ${text}`
+      )
+    }
+    return value
+  }
+
+  private isFollowedByParen(): boolean {
+    return this.tokens[this.position + 1]?.text === '('
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position]
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++]
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek()
+    if (token?.type === 'symbol' && token.text === symbol) {
+      this.position++
+      return true
+    }
+    return false
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token?.type === 'identifier' && token.text.toUpperCase() === keyword) {
+      this.position++
+      return true
+    }
+    return false
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw this.syntaxError(`expected '${symbol}'`)
+    }
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.syntaxError(`expected '${keyword}'`)
+    }
+  }
+
+  private syntaxError(reason: string): MemoryServiceError {
+    return new MemoryServiceError(
+      'ValidationException',
+      `Invalid expression: ${reason}; expression: ${this.expression}`
+    )
+  }
+}
+
+/**
+ * Split an expression into placeholders, identifiers, numbers and symbols
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = new RegExp(
+    [
+      '\\s*(?:(#[A-Za-z0-9_]+)',
+      '(:[A-Za-z0-9_]+)',
+      '([A-Za-z_][A-Za-z0-9_]*)',
+      '(\\d+)',
+      '(<>|<=|>=|[=<>()[\\],.+-]))',
+    ].join('|'),
+    'y'
+  )
+  let position = 0
+  while (position < expression.length) {
+    if (/^\s*$/.test(expression.slice(position))) {
+      break
+    }
+    pattern.lastIndex = position
+    const match = pattern.exec(expression)
+    if (!match) {
+      throw new MemoryServiceError(
+        'ValidationException',
+        `Invalid expression: syntax error at position ${position}; expression: ${expression}`
+      )
+    }
+    const [, name, value, identifier, number, symbol] = match
+    if (name) {
+      tokens.push({ type: 'name', text: name })
+    } else if (value) {
+      tokens.push({ type: 'value', text: value })
+    } else if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier })
+    } else if (number) {
+      tokens.push({ type: 'number', text: number })
+    } else {
+      tokens.push({ type: 'symbol', text: symbol })
+    }
+    position = pattern.lastIndex
+  }
+  return tokens
+}
+
+/**
+ * Evaluate a parsed condition
+ */
+function evaluate(condition: Condition, item: WireItem): boolean {
+  switch (condition.kind) {
+    case 'and':
+      return evaluate(condition.left, item) && evaluate(condition.right, item)
+    case 'or':
+      return evaluate(condition.left, item) || evaluate(condition.right, item)
+    case 'not':
+      return !evaluate(condition.condition, item)
+    case 'compare':
+      return compareOperands(
+        condition.operator,
+        resolveOperand(condition.left, item),
+        resolveOperand(condition.right, item)
+      )
+    case 'between': {
+      const value = resolveOperand(condition.operand, item)
+      return (
+        compareOperands('>=', value, resolveOperand(condition.low, item)) &&
+        compareOperands('<=', value, resolveOperand(condition.high, item))
+      )
+    }
+    case 'in': {
+      const value = resolveOperand(condition.operand, item)
+      return condition.list.some((entry) => valuesEqual(value, resolveOperand(entry, item)))
+    }
+    case 'function':
+      return evaluateFunction(condition.name, condition.args, item)
+  }
+}
+
+/**
+ * Evaluate a condition function such as attribute_exists or begins_with
+ */
+function evaluateFunction(name: string, args: Operand[], item: WireItem): boolean {
+  const path = args[0].kind === 'path' ? args[0].path : undefined
+  if (!path) {
+    throw new MemoryServiceError(
+      'ValidationException',
+      `Invalid expression: the first operand of ${name} must be an attribute path`
+    )
+  }
+  const value = getPath(item, path)
+
+  switch (name) {
+    case 'attribute_exists':
+      return value !== undefined
+    case 'attribute_not_exists':
+      return value === undefined
+    case 'attribute_type':
+      return value !== undefined && typeOf(value) === resolveOperand(args[1], item)?.S
+    case 'begins_with': {
+      const prefix = resolveOperand(args[1], item)
+      if (value?.S !== undefined && prefix?.S !== undefined) {
+        return value.S.startsWith(prefix.S)
+      }
+      if (value?.B !== undefined && prefix?.B !== undefined) {
+        const bytes = Buffer.from(value.B, 'base64')
+        const prefixBytes = Buffer.from(prefix.B, 'base64')
+        return bytes.subarray(0, prefixBytes.length).equals(prefixBytes)
+      }
+      return false
+    }
+    case 'contains': {
+      const operand = resolveOperand(args[1], item)
+      if (value === undefined || operand === undefined) {
+        return false
+      }
+      if (value.S !== undefined && operand.S !== undefined) {
+        return value.S.includes(operand.S)
+      }
+      if (value.L) {
+        return value.L.some((element: AttributeValue) => valuesEqual(element, operand))
+      }
+      const setType = typeOf(value)
+      if (['SS', 'NS', 'BS'].includes(setType) && typeOf(operand) === setType[0]) {
+        return value[setType].some((member: string) =>
+          valuesEqual({ [setType[0]]: member }, operand)
+        )
+      }
+      return false
+    }
+    default:
+      throw new MemoryServiceError('ValidationException', `Invalid function name: ${name}`)
+  }
+}
+
+/**
+ * Compare two operand values; comparisons with missing values or mismatched types are false
+ */
+function compareOperands(
+  operator: string,
+  left: AttributeValue | undefined,
+  right: AttributeValue | undefined
+): boolean {
+  if (operator === '=') {
+    return valuesEqual(left, right)
+  }
+  if (operator === '<>') {
+    return left !== undefined && right !== undefined && !valuesEqual(left, right)
+  }
+  if (left === undefined || right === undefined) {
+    return false
+  }
+  const order = compareValues(left, right)
+  if (Number.isNaN(order)) {
+    return false
+  }
+  switch (operator) {
+    case '<':
+      return order < 0
+    case '<=':
+      return order <= 0
+    case '>':
+      return order > 0
+    default:
+      return order >= 0
+  }
+}
+
+function resolveOperand(operand: Operand, item: WireItem): AttributeValue | undefined {
+  if (operand.kind === 'value') {
+    return operand.value
+  }
+  const value = getPath(item, operand.path)
+  if (operand.kind === 'path' || value === undefined) {
+    return value
+  }
+  return { N: String(sizeOf(value)) }
+}
+
+function resolveUpdateValue(value: UpdateValue, item: WireItem): AttributeValue | undefined {
+  switch (value.kind) {
+    case 'if_not_exists':
+      return getPath(item, value.path) ?? resolveUpdateValue(value.fallback, item)
+    case 'list_append': {
+      const left = resolveUpdateValue(value.left, item)
+      const right = resolveUpdateValue(value.right, item)
+      if (!left?.L || !right?.L) {
+        throw new MemoryServiceError(
+          'ValidationException',
+          'An operand in the update expression has an incorrect data type'
+        )
+      }
+      return { L: [...left.L, ...right.L] }
+    }
+    case 'arithmetic': {
+      const left = resolveUpdateValue(value.left, item)
+      const right = resolveUpdateValue(value.right, item)
+      if (left?.N === undefined || right?.N === undefined) {
+        throw new MemoryServiceError(
+          'ValidationException',
+          'An operand in the update expression has an incorrect data type'
+        )
+      }
+      const result =
+        value.operator === '+' ? Number(left.N) + Number(right.N) : Number(left.N) - Number(right.N)
+      return { N: String(result) }
+    }
+    default: {
+      const resolved = resolveOperand(value, item)
+      if (resolved === undefined) {
+        throw new MemoryServiceError(
+          'ValidationException',
+          'The provided expression refers to an attribute that does not exist in the item'
+        )
+      }
+      return resolved
+    }
+  }
+}
+
+/**
+ * Result of ADD: numbers are summed, sets are merged; missing attributes start empty
+ */
+function addValues(
+  current: AttributeValue | undefined,
+  value: AttributeValue | undefined
+): AttributeValue {
+  if (value?.N !== undefined) {
+    if (current !== undefined && current.N === undefined) {
+      throw typeMismatch('ADD')
+    }
+    return { N: String(Number(current?.N ?? 0) + Number(value.N)) }
+  }
+  const setType = value ? typeOf(value) : undefined
+  if (!value || !setType || !['SS', 'NS', 'BS'].includes(setType)) {
+    throw typeMismatch('ADD')
+  }
+  if (current !== undefined && typeOf(current) !== setType) {
+    throw typeMismatch('ADD')
+  }
+  const members = [...(current?.[setType] ?? [])]
+  const memberType = setType[0]
+  for (const member of value[setType]) {
+    const isNew = !members.some((existing) =>
+      valuesEqual({ [memberType]: existing }, { [memberType]: member })
+    )
+    if (isNew) {
+      members.push(member)
+    }
+  }
+  return { [setType]: members }
+}
+
+/**
+ * Result of DELETE on a set, or undefined when no members are left
+ */
+function deleteFromSet(
+  current: AttributeValue | undefined,
+  value: AttributeValue | undefined
+): AttributeValue | undefined {
+  if (current === undefined) {
+    return undefined
+  }
+  const setType = typeOf(current)
+  if (!value || typeOf(value) !== setType || !['SS', 'NS', 'BS'].includes(setType)) {
+    throw typeMismatch('DELETE')
+  }
+  const members = current[setType].filter(
+    (member: string) =>
+      !value[setType].some((removed: string) =>
+        valuesEqual({ [setType[0]]: member }, { [setType[0]]: removed })
+      )
+  )
+  return members.length > 0 ? { [setType]: members } : undefined
+}
+
+function typeMismatch(action: string): MemoryServiceError {
+  return new MemoryServiceError(
+    'ValidationException',
+    `An operand in the update expression has an incorrect data type for ${action}`
+  )
+}
+
+/**
+ * Size as returned by the `size` function
+ */
+function sizeOf(value: AttributeValue): number {
+  const type = typeOf(value)
+  switch (type) {
+    case 'S':
+      return value.S.length
+    case 'B':
+      return Buffer.from(value.B, 'base64').length
+    case 'M':
+      return Object.keys(value.M).length
+    case 'L':
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return value[type].length
+    default:
+      return 0
+  }
+}
+
+/**
+ * Read the value at a path, or undefined when any part of the path is missing
+ */
+function getPath(item: WireItem, path: Path): AttributeValue | undefined {
+  let value: AttributeValue | undefined = item[path[0] as string]
+  for (const segment of path.slice(1)) {
+    if (value === undefined) {
+      return undefined
+    }
+    value = typeof segment === 'number' ? value.L?.[segment] : value.M?.[segment]
+  }
+  return value
+}
+
+function setPath(item: WireItem, path: Path, value: AttributeValue): void {
+  if (path.length === 1) {
+    item[path[0] as string] = value
+    return
+  }
+  const parent = getPath(item, path.slice(0, -1))
+  const last = path[path.length - 1]
+  if (typeof last === 'number' && parent?.L) {
+    if (last >= parent.L.length) {
+      parent.L.push(value)
+    } else {
+      parent.L[last] = value
+    }
+  } else if (typeof last === 'string' && parent?.M) {
+    parent.M[last] = value
+  } else {
+    throw new MemoryServiceError(
+      'ValidationException',
+      'The document path provided in the update expression is invalid for update'
+    )
+  }
+}
+
+function removePath(item: WireItem, path: Path): void {
+  if (path.length === 1) {
+    delete item[path[0] as string]
+    return
+  }
+  const parent = getPath(item, path.slice(0, -1))
+  const last = path[path.length - 1]
+  if (typeof last === 'number' && parent?.L) {
+    parent.L.splice(last, 1)
+  } else if (typeof last === 'string' && parent?.M) {
+    delete parent.M[last]
+  }
+}
+
+/**
+ * Copy the value at a path into a projection, keeping the enclosing maps and lists
+ */
+function setProjectedPath(projected: WireItem, item: WireItem, path: Path): void {
+  if (path.length === 1) {
+    projected[path[0] as string] = item[path[0] as string]
+    return
+  }
+  let target: AttributeValue = projected
+  let source: AttributeValue = item
+  for (const [index, segment] of path.entries()) {
+    const isLast = index === path.length - 1
+    const sourceValue: AttributeValue | undefined =
+      index === 0
+        ? source[segment as string]
+        : typeof segment === 'number'
+          ? source.L?.[segment]
+          : source.M?.[segment]
+    if (sourceValue === undefined) {
+      return
+    }
+    const container = index === 0 ? target : typeof segment === 'number' ? target.L : target.M
+    const key = typeof segment === 'number' && index > 0 ? container.length : segment
+    if (isLast) {
+      container[key] = sourceValue
+      return
+    }
+    container[key] ??= sourceValue.L ? { L: [] } : { M: {} }
+    target = container[key]
+    source = sourceValue
+  }
+}
+
+/**
+ * Order removals so list elements are removed from the highest index down
+ */
+function comparePathsForRemoval(a: Path, b: Path): number {
+  const last = (path: Path) => path[path.length - 1]
+  const aIndex = last(a)
+  const bIndex = last(b)
+  return typeof aIndex === 'number' && typeof bIndex === 'number' ? bIndex - aIndex : 0
+}
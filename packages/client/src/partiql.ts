@@ -0,0 +1,58 @@
+/**
+ * Parameterized PartiQL statements built with a tagged template
+ */
+
+import type { PartiQLStatement } from './types'
+import { ValidationError } from './errors'
+
+/**
+ * Identifier inserted into a statement as a quoted name instead of a parameter
+ */
+class PartiQLIdentifier {
+  constructor(readonly name: string) {}
+}
+
+/**
+ * Build a parameterized PartiQL statement
+ * Every interpolated value becomes a `?` parameter, so values are never spliced into the
+ * statement text. Use `partiql.identifier()` for table and index names.
+ *
+ * @returns Statement text with `?` placeholders and the parameters in order
+ * @throws {ValidationError} If an interpolated value is undefined
+ *
+ * @example
+ * ```typescript
+ * const statement = partiql`
+ *   UPDATE ${partiql.identifier('users')} SET status = ${status} WHERE pk = ${pk} AND sk = ${sk}
+ * `
+ * // statement: 'UPDATE "users" SET status = ? WHERE pk = ? AND sk = ?'
+ * ```
+ */
+export function partiql(strings: TemplateStringsArray, ...values: unknown[]): PartiQLStatement {
+  let statement = strings[0]
+  const parameters: unknown[] = []
+
+  values.forEach((value, index) => {
+    if (value instanceof PartiQLIdentifier) {
+      statement += `"${value.name.replace(/"/g, '""')}"`
+    } else if (value === undefined) {
+      throw new ValidationError(
+        `PartiQL parameter ${parameters.length + 1} is undefined`,
+        'parameters',
+        value,
+        'defined value'
+      )
+    } else {
+      statement += '?'
+      parameters.push(value)
+    }
+    statement += strings[index + 1]
+  })
+
+  return { statement: statement.trim(), parameters }
+}
+
+/**
+ * Quote a table or index name for use in a `partiql` statement
+ */
+partiql.identifier = (name: string): PartiQLIdentifier => new PartiQLIdentifier(name)
@@ -269,6 +269,27 @@ describe('RetryHandler', () => {
       expect(result).toBe('success')
       expect(callCount).toBe(2)
     })
+
+    test('should retry errors accepted by the operation check', async () => {
+      let callCount = 0
+      const operation = async () => {
+        callCount++
+        if (callCount === 1) {
+          throw { name: 'TransactionCanceledException', reason: 'conflict' }
+        }
+        return 'success'
+      }
+
+      const handler = new RetryHandler({ baseDelayMs: 10, maxDelayMs: 10 })
+      const result = await handler.executeWithRetry(
+        operation,
+        undefined,
+        (error: any) => error.reason === 'conflict'
+      )
+
+      expect(result).toBe('success')
+      expect(callCount).toBe(2)
+    })
   })
 
   describe('exponential backoff', () => {
@@ -48,12 +48,14 @@ export class RetryHandler {
    * Execute an operation with retry logic
    * @param operation Function to execute
    * @param config Optional override for retry configuration
+   * @param isRetryable Optional check for further errors the operation can retry
    * @returns Result of the operation
    * @throws Error if all retries are exhausted or error is not retryable
    */
   async executeWithRetry<T>(
     operation: () => Promise<T>,
-    config?: Partial<RetryConfig>
+    config?: Partial<RetryConfig>,
+    isRetryable?: (error: unknown) => boolean
   ): Promise<T> {
     const effectiveConfig = config ? { ...this.config, ...config } : this.config
     let lastError: Error | undefined
@@ -65,7 +67,10 @@ export class RetryHandler {
         lastError = error as Error
 
         // Check if error is retryable
-        if (!this.isRetryableError(error, effectiveConfig.retryableErrors)) {
+        if (
+          !this.isRetryableError(error, effectiveConfig.retryableErrors) &&
+          !isRetryable?.(error)
+        ) {
           throw error
         }
 
@@ -90,6 +95,22 @@ export class RetryHandler {
     throw lastError || new Error('Retry failed with unknown error')
   }
 
+  /**
+   * Get the effective retry configuration
+   */
+  getConfig(): RetryConfig {
+    return { ...this.config, retryableErrors: [...this.config.retryableErrors] }
+  }
+
+  /**
+   * Get the backoff delay before a retry, using the configured delays and jitter
+   * @param attempt Zero-based number of the retry
+   * @returns Delay in milliseconds
+   */
+  getRetryDelay(attempt: number): number {
+    return this.calculateDelay(attempt, this.config.baseDelayMs, this.config.maxDelayMs)
+  }
+
   /**
    * Check if an error should trigger a retry
    */
@@ -4,8 +4,21 @@
 
 import { describe, it, expect } from '@rstest/core'
 import { TableClient } from './table-client'
+import { BatchPartialFailureError } from './errors'
 import type { Key, BatchWriteOperation } from './types'
 
+/**
+ * Replace the document client's send with a recorder returning one response per call
+ */
+function captureResponses(client: TableClient, responses: any[]): any[] {
+  const commands: any[] = []
+  client['docClient'].send = async (command: any) => {
+    commands.push(command)
+    return responses[commands.length - 1]
+  }
+  return commands
+}
+
 describe('TableClient - Batch Operations', () => {
   describe('batchGet', () => {
     it('should have batchGet method', () => {
@@ -23,13 +36,14 @@ describe('TableClient - Batch Operations', () => {
 
       const result = await client.batchGet([])
 
-      expect(result).toEqual([])
+      expect(result).toEqual({ items: [], unprocessedKeys: [], chunks: [] })
     })
 
-    it('should accept keys array and options', () => {
+    it('should accept keys array and options', async () => {
       const client = new TableClient({
         tableName: 'test-table',
       })
+      captureResponses(client, [{}])
 
       const keys: Key[] = [
         { pk: 'USER#1', sk: 'PROFILE' },
@@ -44,18 +58,21 @@ describe('TableClient - Batch Operations', () => {
       })
 
       expect(promise).toBeInstanceOf(Promise)
+      await promise
     })
 
-    it('should accept keys without options', () => {
+    it('should accept keys without options', async () => {
       const client = new TableClient({
         tableName: 'test-table',
       })
+      captureResponses(client, [{}])
 
       const keys: Key[] = [{ pk: 'USER#1', sk: 'PROFILE' }]
 
       const promise = client.batchGet(keys)
 
       expect(promise).toBeInstanceOf(Promise)
+      await promise
     })
   })
 
@@ -73,16 +90,16 @@ describe('TableClient - Batch Operations', () => {
         tableName: 'test-table',
       })
 
-      await client.batchWrite([])
+      const result = await client.batchWrite([])
 
-      // Should complete without error
-      expect(true).toBe(true)
+      expect(result).toEqual({ unprocessedOperations: [], chunks: [] })
     })
 
-    it('should accept put operations', () => {
+    it('should accept put operations', async () => {
       const client = new TableClient({
         tableName: 'test-table',
       })
+      captureResponses(client, [{}])
 
       const operations: BatchWriteOperation<any>[] = [
         { type: 'put', item: { pk: 'USER#1', sk: 'PROFILE', name: 'Alice' } },
@@ -92,12 +109,14 @@ describe('TableClient - Batch Operations', () => {
       const promise = client.batchWrite(operations)
 
       expect(promise).toBeInstanceOf(Promise)
+      await promise
     })
 
-    it('should accept delete operations', () => {
+    it('should accept delete operations', async () => {
       const client = new TableClient({
         tableName: 'test-table',
       })
+      captureResponses(client, [{}])
 
       const operations: BatchWriteOperation<any>[] = [
         { type: 'delete', key: { pk: 'USER#1', sk: 'PROFILE' } },
@@ -107,12 +126,14 @@ describe('TableClient - Batch Operations', () => {
       const promise = client.batchWrite(operations)
 
       expect(promise).toBeInstanceOf(Promise)
+      await promise
     })
 
-    it('should accept mixed put and delete operations', () => {
+    it('should accept mixed put and delete operations', async () => {
       const client = new TableClient({
         tableName: 'test-table',
       })
+      captureResponses(client, [{}])
 
       const operations: BatchWriteOperation<any>[] = [
         { type: 'put', item: { pk: 'USER#1', sk: 'PROFILE', name: 'Alice' } },
@@ -123,12 +144,14 @@ describe('TableClient - Batch Operations', () => {
       const promise = client.batchWrite(operations)
 
       expect(promise).toBeInstanceOf(Promise)
+      await promise
     })
 
-    it('should accept custom chunk size option', () => {
+    it('should accept custom chunk size option', async () => {
       const client = new TableClient({
         tableName: 'test-table',
       })
+      captureResponses(client, [{}])
 
       const operations: BatchWriteOperation<any>[] = [
         { type: 'put', item: { pk: 'USER#1', sk: 'PROFILE', name: 'Alice' } },
@@ -137,6 +160,236 @@ describe('TableClient - Batch Operations', () => {
       const promise = client.batchWrite(operations, { chunkSize: 10 })
 
       expect(promise).toBeInstanceOf(Promise)
+      await promise
+    })
+  })
+
+  describe('unprocessed items', () => {
+    const retryConfig = { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 }
+
+    it('should retry unprocessed keys and report per-chunk capacity', async () => {
+      const client = new TableClient({ tableName: 'test-table', retryConfig })
+      const commands = captureResponses(client, [
+        {
+          Responses: { 'test-table': [{ pk: 'USER#1' }] },
+          UnprocessedKeys: { 'test-table': { Keys: [{ pk: 'USER#2' }] } },
+          ConsumedCapacity: [{ TableName: 'test-table', CapacityUnits: 1 }],
+        },
+        {
+          Responses: { 'test-table': [{ pk: 'USER#2' }] },
+          ConsumedCapacity: [{ TableName: 'test-table', CapacityUnits: 0.5 }],
+        },
+      ])
+
+      const result = await client.batchGet([{ pk: 'USER#1' }, { pk: 'USER#2' }])
+
+      expect(commands[1].input.RequestItems['test-table'].Keys).toEqual([{ pk: 'USER#2' }])
+      expect(result).toEqual({
+        items: [{ pk: 'USER#1' }, { pk: 'USER#2' }],
+        unprocessedKeys: [],
+        chunks: [{ chunk: 0, attempts: 2, consumedCapacity: 1.5 }],
+      })
+    })
+
+    it('should return keys left unprocessed by the retry policy', async () => {
+      const client = new TableClient({ tableName: 'test-table', retryConfig })
+      const unprocessed = { 'test-table': { Keys: [{ pk: 'USER#2' }] } }
+      const commands = captureResponses(client, [
+        { Responses: { 'test-table': [] }, UnprocessedKeys: unprocessed },
+        { Responses: { 'test-table': [] }, UnprocessedKeys: unprocessed },
+      ])
+
+      const result = await client.batchGet([{ pk: 'USER#2' }])
+
+      expect(commands).toHaveLength(2)
+      expect(result.unprocessedKeys).toEqual([{ pk: 'USER#2' }])
+    })
+
+    it('should return unprocessed write operations per chunk', async () => {
+      const client = new TableClient({ tableName: 'test-table', retryConfig })
+      const unprocessed = {
+        'test-table': [{ DeleteRequest: { Key: { pk: 'USER#3' } } }],
+      }
+      captureResponses(client, [
+        { ConsumedCapacity: [{ TableName: 'test-table', CapacityUnits: 2 }] },
+        { UnprocessedItems: unprocessed },
+        { UnprocessedItems: unprocessed },
+      ])
+
+      const result = await client.batchWrite(
+        [
+          { type: 'put', item: { pk: 'USER#1' } },
+          { type: 'put', item: { pk: 'USER#2' } },
+          { type: 'delete', key: { pk: 'USER#3' } },
+        ],
+        { chunkSize: 2 }
+      )
+
+      expect(result).toEqual({
+        unprocessedOperations: [{ type: 'delete', key: { pk: 'USER#3' } }],
+        chunks: [
+          { chunk: 0, attempts: 1, consumedCapacity: 2 },
+          { chunk: 1, attempts: 2, consumedCapacity: 0 },
+        ],
+      })
+    })
+
+    it('should resend unprocessed requests unchanged and return the submitted operations', async () => {
+      // Strict schema rejecting attributes it doesn't declare, such as managed timestamps
+      const schema: any = {
+        parse: (item: any) => {
+          if ('updatedAt' in item) {
+            throw new Error('Unknown attribute updatedAt')
+          }
+          return item
+        },
+      }
+      const client = new TableClient({
+        tableName: 'test-table',
+        retryConfig,
+        schema,
+        timestamps: true,
+      })
+      const commands: any[] = []
+      client['docClient'].send = async (command: any) => {
+        commands.push(command)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        return { UnprocessedItems: command.input.RequestItems }
+      }
+      const operations: BatchWriteOperation<any>[] = [
+        { type: 'put', item: { pk: 'USER#1', sk: 'PROFILE', name: 'Alice' } },
+        { type: 'delete', key: { pk: 'USER#2', sk: 'PROFILE' } },
+      ]
+
+      const result = await client.batchWrite(operations)
+
+      expect(commands).toHaveLength(2)
+      expect(commands[1].input.RequestItems).toEqual(commands[0].input.RequestItems)
+      expect(result.unprocessedOperations).toEqual(operations)
+    })
+
+    it('should throw BatchPartialFailureError in throw mode', async () => {
+      const client = new TableClient({ tableName: 'test-table', retryConfig })
+      const unprocessed = { 'test-table': [{ PutRequest: { Item: { pk: 'USER#1' } } }] }
+      captureResponses(client, [{ UnprocessedItems: unprocessed }, { UnprocessedItems: unprocessed }])
+
+      const error = await client
+        .batchWrite([{ type: 'put', item: { pk: 'USER#1' } }], { onUnprocessed: 'throw' })
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(BatchPartialFailureError)
+      expect(error.message).toBe('BatchWrite: 1 operations could not be processed')
+      expect(error.result.unprocessedOperations).toEqual([{ type: 'put', item: { pk: 'USER#1' } }])
+    })
+
+    it('should keep retrying until the deadline in retry mode', async () => {
+      const client = new TableClient({ tableName: 'test-table', retryConfig })
+      const unprocessed = { 'test-table': { Keys: [{ pk: 'USER#1' }] } }
+      const commands = captureResponses(client, [
+        { UnprocessedKeys: unprocessed },
+        { UnprocessedKeys: unprocessed },
+        { UnprocessedKeys: unprocessed },
+        { Responses: { 'test-table': [{ pk: 'USER#1' }] } },
+      ])
+
+      const result = await client.batchGet([{ pk: 'USER#1' }], {
+        onUnprocessed: 'retry',
+        retryDeadlineMs: 5000,
+      })
+
+      expect(commands).toHaveLength(4)
+      expect(result.items).toEqual([{ pk: 'USER#1' }])
+    })
+
+    it('should throw when the retry deadline passes', async () => {
+      const client = new TableClient({ tableName: 'test-table', retryConfig })
+      client['docClient'].send = async () => ({
+        UnprocessedKeys: { 'test-table': { Keys: [{ pk: 'USER#1' }] } },
+      })
+
+      await expect(
+        client.batchGet([{ pk: 'USER#1' }], { onUnprocessed: 'retry', retryDeadlineMs: 20 })
+      ).rejects.toThrow('BatchGet: 1 keys could not be processed')
+    })
+  })
+
+  describe('concurrency', () => {
+    it('should run up to concurrency chunks in parallel', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      let inFlight = 0
+      let maxInFlight = 0
+      client['docClient'].send = async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        return {}
+      }
+
+      const operations = Array.from({ length: 5 }, (_, i) => ({
+        type: 'delete' as const,
+        key: { pk: `USER#${i}` },
+      }))
+      const result = await client.batchWrite(operations, { chunkSize: 1, concurrency: 2 })
+
+      expect(maxInFlight).toBe(2)
+      expect(result.chunks.map((chunk) => chunk.chunk)).toEqual([0, 1, 2, 3, 4])
+    })
+
+    it('should return items in the order of the requested keys', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const delays: Record<string, number> = { 'USER#1': 10, 'USER#2': 0, 'USER#3': 5 }
+      client['docClient'].send = async (command: any) => {
+        const keys = command.input.RequestItems['test-table'].Keys
+        await new Promise((resolve) => setTimeout(resolve, delays[keys[0].pk]))
+        // Respond in reverse order, omitting USER#2
+        const items = keys.filter((key: any) => key.pk !== 'USER#2').reverse()
+        return { Responses: { 'test-table': items } }
+      }
+
+      const result = await client.batchGet(
+        [{ pk: 'USER#1' }, { pk: 'USER#2' }, { pk: 'USER#3' }, { pk: 'USER#4' }],
+        { chunkSize: 1, concurrency: 4 }
+      )
+
+      expect(result.items).toEqual([{ pk: 'USER#1' }, { pk: 'USER#3' }, { pk: 'USER#4' }])
+    })
+
+    it('should retry unprocessed keys per chunk', async () => {
+      const client = new TableClient({
+        tableName: 'test-table',
+        retryConfig: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 },
+      })
+      const retried = new Set<string>()
+      client['docClient'].send = async (command: any) => {
+        const [key] = command.input.RequestItems['test-table'].Keys
+        if (key.pk === 'USER#1' && !retried.has(key.pk)) {
+          retried.add(key.pk)
+          return { UnprocessedKeys: { 'test-table': { Keys: [key] } } }
+        }
+        return { Responses: { 'test-table': [key] } }
+      }
+
+      const result = await client.batchGet([{ pk: 'USER#1' }, { pk: 'USER#2' }], {
+        chunkSize: 1,
+        concurrency: 2,
+      })
+
+      expect(result.items).toEqual([{ pk: 'USER#1' }, { pk: 'USER#2' }])
+      expect(result.chunks.map((chunk) => chunk.attempts)).toEqual([2, 1])
+    })
+
+    it('should reject invalid concurrency values', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureResponses(client, [])
+
+      await expect(client.batchGet([{ pk: 'USER#1' }], { concurrency: 0 })).rejects.toThrow(
+        'concurrency must be a positive integer'
+      )
+      await expect(
+        client.batchWrite([{ type: 'delete', key: { pk: 'USER#1' } }], { concurrency: 1.5 })
+      ).rejects.toThrow('concurrency must be a positive integer')
+      expect(commands).toHaveLength(0)
     })
   })
 })
@@ -0,0 +1,214 @@
+/**
+ * Tests for the read-through cache
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { MemoryCacheStore } from './cache'
+import { MemoryDynamoDB } from './memory-dynamodb'
+import { TableClient } from './table-client'
+import type { CacheStore, TableClientConfig, TableOperation } from './types'
+
+/**
+ * Client on an in-memory table, recording the operations that reach the table
+ */
+function createClient(config: Partial<TableClientConfig> = {}) {
+  const memory = new MemoryDynamoDB([{ tableName: 'test-table' }])
+  const client = new TableClient({
+    tableName: 'test-table',
+    client: memory.client,
+    cache: {},
+    statsConfig: { enabled: true },
+    ...config,
+  })
+  const requests: TableOperation[] = []
+  client.use(async (context, next) => {
+    requests.push(context.operation)
+    return next()
+  })
+  return { client, requests }
+}
+
+describe('TableClient - Cache', () => {
+  test('should serve repeated gets from the cache and count hits and misses', async () => {
+    const { client, requests } = createClient()
+    await client.put({ pk: 'FLAG#1', sk: 'CONFIG', enabled: true })
+
+    const first = await client.get({ pk: 'FLAG#1', sk: 'CONFIG' })
+    const second = await client.get({ pk: 'FLAG#1', sk: 'CONFIG' })
+
+    expect(second).toEqual(first)
+    expect(requests).toEqual(['put', 'get'])
+    expect(client.getStats().cache).toEqual({ get: { hits: 1, misses: 1, hitRate: 0.5 } })
+  })
+
+  test('should cache keys without item', async () => {
+    const { client, requests } = createClient()
+
+    expect(await client.get({ pk: 'FLAG#1', sk: 'CONFIG' })).toBeNull()
+    expect(await client.get({ pk: 'FLAG#1', sk: 'CONFIG' })).toBeNull()
+
+    expect(requests).toEqual(['get'])
+  })
+
+  test('should invalidate items written by the client', async () => {
+    const { client } = createClient()
+    const key = { pk: 'FLAG#1', sk: 'CONFIG' }
+    await client.put({ ...key, enabled: true })
+    await client.get(key)
+
+    await client.update(key, { enabled: false })
+    expect(await client.get(key)).toEqual({ ...key, enabled: false })
+
+    await client.batchWrite([{ type: 'put', item: { ...key, enabled: true } }])
+    expect(await client.get(key)).toEqual({ ...key, enabled: true })
+
+    await client.transactWrite([{ type: 'delete', key }])
+    expect(await client.get(key)).toBeNull()
+  })
+
+  test('should bypass the cache for consistent and projected reads', async () => {
+    const { client, requests } = createClient()
+    const key = { pk: 'FLAG#1', sk: 'CONFIG' }
+    await client.put({ ...key, enabled: true })
+    await client.get(key)
+
+    await client.get(key, { consistentRead: true })
+    await client.get(key, { projectionExpression: ['enabled'] })
+
+    expect(requests).toEqual(['put', 'get', 'get', 'get'])
+  })
+
+  test('should read only uncached keys in batch gets', async () => {
+    const { client, requests } = createClient()
+    await client.put({ pk: 'FLAG#1', sk: 'CONFIG' })
+    await client.put({ pk: 'FLAG#2', sk: 'CONFIG' })
+    await client.get({ pk: 'FLAG#1', sk: 'CONFIG' })
+    const keys = [
+      { pk: 'FLAG#2', sk: 'CONFIG' },
+      { pk: 'FLAG#3', sk: 'CONFIG' },
+      { pk: 'FLAG#1', sk: 'CONFIG' },
+    ]
+
+    const first = await client.batchGet(keys)
+    const second = await client.batchGet(keys)
+
+    expect(first.items.map((item) => item.pk)).toEqual(['FLAG#2', 'FLAG#1'])
+    expect(second.items).toEqual(first.items)
+    expect(requests).toEqual(['put', 'put', 'get', 'batchGet'])
+    expect(client.getStats().cache?.batchGet).toEqual({ hits: 4, misses: 2, hitRate: 4 / 6 })
+  })
+
+  test('should cache selected access pattern results until the next write', async () => {
+    const { client, requests } = createClient({
+      cache: { patterns: ['flagsByTenant'] },
+      accessPatterns: {
+        flagsByTenant: { keyCondition: (params: { tenant: string }) => ({ pk: params.tenant }) },
+        uncached: { keyCondition: (params: { tenant: string }) => ({ pk: params.tenant }) },
+      },
+    })
+    await client.put({ pk: 'TENANT#1', sk: 'FLAG#1' })
+
+    await client.executePattern('flagsByTenant', { tenant: 'TENANT#1' })
+    await client.executePattern('flagsByTenant', { tenant: 'TENANT#1' })
+    await client.executePattern('uncached', { tenant: 'TENANT#1' })
+    await client.put({ pk: 'TENANT#1', sk: 'FLAG#2' })
+    const results = await client.executePattern('flagsByTenant', { tenant: 'TENANT#1' })
+
+    expect(results).toHaveLength(2)
+    expect(requests).toEqual(['put', 'query', 'query', 'put', 'query'])
+  })
+
+  test('should not cache reads that returned before a concurrent write', async () => {
+    const { client, requests } = createClient({
+      cache: { patterns: ['flagsByTenant'] },
+      accessPatterns: {
+        flagsByTenant: { keyCondition: (params: { tenant: string }) => ({ pk: params.tenant }) },
+      },
+    })
+    const key = { pk: 'TENANT#1', sk: 'FLAG#1' }
+    await client.put({ ...key, enabled: false })
+    // Reads get their response, then wait for the write to finish and invalidate
+    let finishWrite!: () => void
+    const written = new Promise<void>((resolve) => {
+      finishWrite = resolve
+    })
+    client.use(async (context, next) => {
+      const response = await next()
+      if (context.operation !== 'update') {
+        await written
+      }
+      return response
+    })
+
+    const reading = Promise.all([
+      client.get(key),
+      client.executePattern('flagsByTenant', { tenant: 'TENANT#1' }),
+    ])
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await client.update(key, { enabled: true })
+    finishWrite()
+    const [staleItem, staleResults] = await reading
+
+    expect(staleItem).toMatchObject({ enabled: false })
+    expect(staleResults).toMatchObject([{ enabled: false }])
+    expect(await client.get(key)).toMatchObject({ enabled: true })
+    expect(await client.executePattern('flagsByTenant', { tenant: 'TENANT#1' })).toMatchObject([
+      { enabled: true },
+    ])
+    expect(requests).toEqual(['put', 'get', 'query', 'update', 'get', 'query'])
+  })
+
+  test('should use a custom store with the configured ttl', async () => {
+    const entries = new Map<string, { value: unknown; ttl: number }>()
+    const store: CacheStore = {
+      get: async (key) => entries.get(key)?.value,
+      set: async (key, value, ttl) => {
+        entries.set(key, { value, ttl })
+      },
+      delete: async (key) => {
+        entries.delete(key)
+      },
+    }
+    const { client } = createClient({ cache: { store, ttl: 5 } })
+
+    await client.get({ pk: 'FLAG#1', sk: 'CONFIG' })
+
+    expect([...entries]).toEqual([
+      ['test-table#item#{"pk":"FLAG#1","sk":"CONFIG"}', { value: { item: null }, ttl: 5 }],
+    ])
+  })
+})
+
+describe('MemoryCacheStore', () => {
+  test('should evict the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 })
+    await store.set('a', 1, 60)
+    await store.set('b', 2, 60)
+    await store.get('a')
+    await store.set('c', 3, 60)
+
+    expect(await store.get('a')).toBe(1)
+    expect(await store.get('b')).toBeUndefined()
+    expect(await store.get('c')).toBe(3)
+  })
+
+  test('should expire entries after their ttl', async () => {
+    const store = new MemoryCacheStore()
+    await store.set('a', 1, 0)
+
+    expect(await store.get('a')).toBeUndefined()
+    expect(store.size).toBe(0)
+  })
+
+  test('should copy values so cached items cannot be changed by callers', async () => {
+    const store = new MemoryCacheStore()
+    const item = { tags: new Set(['a']) }
+    await store.set('a', item, 60)
+    item.tags.add('b')
+
+    const cached = (await store.get('a')) as typeof item
+    cached.tags.add('c')
+
+    expect(await store.get('a')).toEqual({ tags: new Set(['a']) })
+  })
+})
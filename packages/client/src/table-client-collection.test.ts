@@ -0,0 +1,150 @@
+/**
+ * Tests for multi-entity collection queries
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+import { capturePages } from './test-utils'
+import type { Schema } from './types'
+
+interface Org {
+  name: string
+}
+
+interface User {
+  email: string
+}
+
+/**
+ * Minimal schema rejecting items without the given attribute
+ */
+function createSchema<T>(requiredAttribute: string): Schema<T> {
+  const schema: any = {
+    parse: (data: any) => {
+      if (data[requiredAttribute] === undefined) {
+        throw new Error(`${requiredAttribute} is required`)
+      }
+      return data
+    },
+  }
+  return schema
+}
+
+describe('TableClient - Collection Queries', () => {
+  test('should group items by entity type', async () => {
+    const client = new TableClient({ tableName: 'app' })
+    capturePages(client, [
+      {
+        Items: [
+          { pk: 'ORG#1', sk: 'ORG', entityType: 'org', name: 'Acme' },
+          { pk: 'ORG#1', sk: 'USER#1', entityType: 'users', email: 'a@acme.com' },
+          { pk: 'ORG#1', sk: 'USER#2', entityType: 'users', email: 'b@acme.com' },
+        ],
+        Count: 3,
+        ScannedCount: 3,
+      },
+    ])
+
+    const result = await client.queryCollection({
+      keyCondition: { pk: 'ORG#1' },
+      entities: {
+        org: createSchema<Org>('name'),
+        users: createSchema<User>('email'),
+        invoices: createSchema<{ total: number }>('total'),
+      },
+    })
+
+    expect(result.org.map((org) => org.name)).toEqual(['Acme'])
+    expect(result.users.map((user) => user.email)).toEqual(['a@acme.com', 'b@acme.com'])
+    expect(result.invoices).toEqual([])
+  })
+
+  test('should paginate until the collection is complete', async () => {
+    const client = new TableClient({ tableName: 'app' })
+    const commands = capturePages(client, [
+      {
+        Items: [{ pk: 'ORG#1', sk: 'ORG', entityType: 'org', name: 'Acme' }],
+        LastEvaluatedKey: { pk: 'ORG#1', sk: 'ORG' },
+      },
+      {
+        Items: [{ pk: 'ORG#1', sk: 'USER#1', entityType: 'users', email: 'a@acme.com' }],
+      },
+    ])
+
+    const result = await client.queryCollection({
+      keyCondition: { pk: 'ORG#1' },
+      entities: { org: createSchema<Org>('name'), users: createSchema<User>('email') },
+    })
+
+    expect(commands).toHaveLength(2)
+    expect(commands[1].input.ExclusiveStartKey).toEqual({ pk: 'ORG#1', sk: 'ORG' })
+    expect(result.org).toHaveLength(1)
+    expect(result.users).toHaveLength(1)
+  })
+
+  test('should filter on the discriminator attribute', async () => {
+    const client = new TableClient({ tableName: 'app' })
+    const commands = capturePages(client, [{ Items: [] }])
+
+    await client.queryCollection({
+      keyCondition: { pk: 'ORG#1' },
+      typeAttribute: '_type',
+      filter: { archived: false },
+      entities: { org: createSchema<Org>('name'), users: createSchema<User>('email') },
+    })
+
+    expect(commands[0].input.FilterExpression).toBe('#f0 = :f0 AND #f1 IN (:f1, :f2)')
+    expect(commands[0].input.ExpressionAttributeNames).toEqual({
+      '#k0': 'pk',
+      '#f0': 'archived',
+      '#f1': '_type',
+    })
+    expect(commands[0].input.ExpressionAttributeValues).toEqual({
+      ':k0': 'ORG#1',
+      ':f0': false,
+      ':f1': 'org',
+      ':f2': 'users',
+    })
+  })
+
+  test('should validate each item with the schema of its type', async () => {
+    const client = new TableClient({ tableName: 'app' })
+    capturePages(client, [
+      { Items: [{ pk: 'ORG#1', sk: 'USER#1', entityType: 'users', name: 'missing email' }] },
+    ])
+
+    await expect(
+      client.queryCollection({
+        keyCondition: { pk: 'ORG#1' },
+        entities: { org: createSchema<Org>('name'), users: createSchema<User>('email') },
+      })
+    ).rejects.toThrow('email is required')
+  })
+
+  test('should skip items with unknown discriminator values', async () => {
+    const client = new TableClient({ tableName: 'app' })
+    capturePages(client, [
+      {
+        Items: [
+          { pk: 'ORG#1', sk: 'X', entityType: 'toString' },
+          { pk: 'ORG#1', sk: 'ORG', entityType: 'org', name: 'Acme' },
+        ],
+      },
+    ])
+
+    const result = await client.queryCollection({
+      keyCondition: { pk: 'ORG#1' },
+      entities: { org: createSchema<Org>('name') },
+    })
+
+    expect(result).toEqual({ org: [{ pk: 'ORG#1', sk: 'ORG', entityType: 'org', name: 'Acme' }] })
+  })
+
+  test('should require at least one entity type', async () => {
+    const client = new TableClient({ tableName: 'app' })
+
+    await expect(
+      client.queryCollection({ keyCondition: { pk: 'ORG#1' }, entities: {} })
+    ).rejects.toThrow('Collection query requires at least one entity type')
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Tests for count operations using Select COUNT
+ */
+
+import { describe, test, expect, rs } from '@rstest/core'
+import { AntiPatternDetector } from '@ddb-lib/stats'
+import type { StatsCollector } from '@ddb-lib/stats'
+import { TableClient } from './table-client'
+import { capturePages } from './test-utils'
+
+describe('TableClient - Count', () => {
+  test('should count query results across pages with Select COUNT', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [
+      {
+        Count: 3,
+        ScannedCount: 10,
+        ConsumedCapacity: { CapacityUnits: 1 },
+        LastEvaluatedKey: { pk: 'USER#1', sk: 'ORDER#10' },
+      },
+      { Count: 2, ScannedCount: 4, ConsumedCapacity: { CapacityUnits: 0.5 } },
+    ])
+
+    const result = await client.count({
+      keyCondition: { pk: 'USER#1', sk: { beginsWith: 'ORDER#' } },
+      filter: { status: 'OPEN' },
+    })
+
+    expect(result).toEqual({ count: 5, scannedCount: 14, pages: 2, consumedRCU: 1.5 })
+    expect(commands[0].constructor.name).toBe('QueryCommand')
+    expect(commands[0].input.Select).toBe('COUNT')
+    expect(commands[0].input.KeyConditionExpression).toBe('#k0 = :k0 AND begins_with(#k1, :k1)')
+    expect(commands[0].input.FilterExpression).toBe('#f0 = :f0')
+    expect(commands[1].input.ExclusiveStartKey).toEqual({ pk: 'USER#1', sk: 'ORDER#10' })
+  })
+
+  test('should scan when no key condition is given', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [{ Count: 42, ScannedCount: 42 }])
+
+    const result = await client.count({ index: 'GSI1' })
+
+    expect(result.count).toBe(42)
+    expect(commands[0].constructor.name).toBe('ScanCommand')
+    expect(commands[0].input).toEqual({
+      TableName: 'test-table',
+      Select: 'COUNT',
+      ReturnConsumedCapacity: 'TOTAL',
+      IndexName: 'GSI1',
+    })
+  })
+
+  test('should record counting queries as counts and counting scans as scans', async () => {
+    const client = new TableClient({ tableName: 'test-table', statsConfig: { enabled: true } })
+    capturePages(client, [
+      { Count: 1, ScannedCount: 100, ConsumedCapacity: { CapacityUnits: 12 } },
+      { Count: 0, ScannedCount: 50, ConsumedCapacity: { CapacityUnits: 6 } },
+    ])
+
+    await client.count({ keyCondition: { pk: 'USER#1' } })
+    await client.count({ filter: { status: 'OPEN' } })
+
+    const stats = client.getStats()
+    expect(stats.operations.count.count).toBe(1)
+    expect(stats.operations.count.totalRCU).toBe(12)
+    expect(stats.operations.scan.count).toBe(1)
+    expect(stats.operations.query).toBeUndefined()
+
+    const collector = client.getStatsCollector()
+    expect(collector).toBeDefined()
+    const detector = new AntiPatternDetector(collector as StatsCollector)
+    expect(detector.detectInefficientScans()).toEqual([
+      expect.objectContaining({ operation: 'scan on test-table', scannedCount: 50 }),
+    ])
+  })
+
+  test('should not warn on the console when counting with a scan', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    capturePages(client, [{ Count: 3, ScannedCount: 3 }])
+    const warn = rs.spyOn(console, 'warn').mockImplementation(() => {})
+
+    try {
+      await client.count()
+      expect(warn).not.toHaveBeenCalled()
+    } finally {
+      warn.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Tests for custom key schemas (keySchema / indexKeySchemas)
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+import type { TableClientConfig } from './types'
+
+const legacyConfig: TableClientConfig = {
+  tableName: 'legacy-table',
+  keySchema: {
+    partitionKey: { name: 'PK', type: 'string' },
+    sortKey: { name: 'SK', type: 'string' },
+  },
+  indexKeySchemas: {
+    GSI1: {
+      partitionKey: { name: 'GSI1PK', type: 'string' },
+      sortKey: { name: 'GSI1SK', type: 'string' },
+    },
+  },
+}
+
+describe('TableClient - Key Schema', () => {
+  describe('configuration', () => {
+    test('should default to pk/sk key schema', () => {
+      const client = new TableClient({ tableName: 'test-table' })
+
+      expect(client.getKeySchema()).toEqual({
+        partitionKey: { name: 'pk', type: 'string' },
+        sortKey: { name: 'sk', type: 'string' },
+      })
+    })
+
+    test('should expose the configured key schema', () => {
+      const client = new TableClient(legacyConfig)
+
+      expect(client.getKeySchema()).toEqual(legacyConfig.keySchema)
+    })
+
+    test('should reject invalid key schemas', () => {
+      expect(
+        () =>
+          new TableClient({
+            tableName: 'test-table',
+            keySchema: { partitionKey: { name: '', type: 'string' } },
+          })
+      ).toThrow('Key schema partition key must have a non-empty attribute name')
+    })
+  })
+
+  describe('single-item operations', () => {
+    test('should pass custom key attributes to get', async () => {
+      const client = new TableClient(legacyConfig)
+      const commands = captureCommands(client, { Item: { PK: 'USER#1', SK: 'PROFILE' } })
+
+      const result = await client.get({ PK: 'USER#1', SK: 'PROFILE' })
+
+      expect(result).toEqual({ PK: 'USER#1', SK: 'PROFILE' })
+      expect(commands[0].input.Key).toEqual({ PK: 'USER#1', SK: 'PROFILE' })
+    })
+
+    test('should support numeric partition-only keys', async () => {
+      const client = new TableClient({
+        tableName: 'accounts',
+        keySchema: { partitionKey: { name: 'id', type: 'number' } },
+      })
+      const commands = captureCommands(client)
+
+      await client.delete({ id: 42 })
+
+      expect(commands[0].input.Key).toEqual({ id: 42 })
+    })
+
+    test('should reject keys that do not match the schema', async () => {
+      const client = new TableClient(legacyConfig)
+      const commands = captureCommands(client)
+
+      await expect(client.get({ pk: 'USER#1', sk: 'PROFILE' })).rejects.toThrow(
+        "Key contains unexpected attribute 'pk'"
+      )
+      await expect(client.update({ PK: 'USER#1' }, { name: 'Alice' })).rejects.toThrow(
+        "Key is missing sort key attribute 'SK'"
+      )
+      expect(commands).toHaveLength(0)
+    })
+
+    test('should reject put items without key attributes', async () => {
+      const client = new TableClient(legacyConfig)
+      captureCommands(client)
+
+      await expect(client.put({ pk: 'USER#1', sk: 'PROFILE' })).rejects.toThrow(
+        "Key is missing partition key attribute 'PK'"
+      )
+    })
+
+    test('should not validate keys when no key schema is configured', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client)
+
+      await client.get({ pk: 'USER#1' })
+
+      expect(commands[0].input.Key).toEqual({ pk: 'USER#1' })
+    })
+  })
+
+  describe('batch and transaction operations', () => {
+    test('should validate batchGet keys', async () => {
+      const client = new TableClient(legacyConfig)
+      const commands = captureCommands(client, { Responses: { 'legacy-table': [] } })
+
+      await client.batchGet([{ PK: 'USER#1', SK: 'PROFILE' }])
+
+      expect(commands[0].input.RequestItems['legacy-table'].Keys).toEqual([
+        { PK: 'USER#1', SK: 'PROFILE' },
+      ])
+      await expect(client.batchGet([{ PK: 'USER#1' }])).rejects.toThrow(
+        "Key is missing sort key attribute 'SK'"
+      )
+    })
+
+    test('should validate transaction keys', async () => {
+      const client = new TableClient(legacyConfig)
+      captureCommands(client)
+
+      await expect(
+        client.transactWrite([{ type: 'delete', key: { id: 'USER#1' } }])
+      ).rejects.toThrow("Key contains unexpected attribute 'id'")
+      await expect(client.transactGet([{ SK: 'PROFILE' }])).rejects.toThrow(
+        "Key is missing partition key attribute 'PK'"
+      )
+    })
+  })
+
+  describe('query', () => {
+    test('should use table key attribute names in key condition', async () => {
+      const client = new TableClient(legacyConfig)
+      const commands = captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+      await client.query({ keyCondition: { pk: 'USER#1', sk: { beginsWith: 'ORDER#' } } })
+
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#k0': 'PK', '#k1': 'SK' })
+    })
+
+    test('should use index key schema for index queries', async () => {
+      const client = new TableClient(legacyConfig)
+      const commands = captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+      await client.query({ index: 'GSI1', keyCondition: { pk: 'STATUS#ACTIVE' } })
+
+      expect(commands[0].input.IndexName).toBe('GSI1')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#k0': 'GSI1PK' })
+    })
+
+    test('should return and accept cursors with custom key attributes', async () => {
+      const client = new TableClient(legacyConfig)
+      const lastEvaluatedKey = { PK: 'USER#1', SK: 'ORDER#9', GSI1PK: 'STATUS#ACTIVE' }
+      const commands = captureCommands(client, {
+        Items: [],
+        Count: 0,
+        ScannedCount: 0,
+        LastEvaluatedKey: lastEvaluatedKey,
+      })
+
+      const page = await client.query({ index: 'GSI1', keyCondition: { pk: 'STATUS#ACTIVE' } })
+      await client.query({
+        index: 'GSI1',
+        keyCondition: { pk: 'STATUS#ACTIVE' },
+        exclusiveStartKey: page.lastEvaluatedKey,
+      })
+
+      expect(page.lastEvaluatedKey).toEqual(lastEvaluatedKey)
+      expect(commands[1].input.ExclusiveStartKey).toEqual(lastEvaluatedKey)
+    })
+
+    test('should reject cursors missing table key attributes', async () => {
+      const client = new TableClient(legacyConfig)
+      captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+      await expect(
+        client.query({
+          keyCondition: { pk: 'USER#1' },
+          exclusiveStartKey: { pk: 'USER#1', sk: 'ORDER#9' },
+        })
+      ).rejects.toThrow("Key is missing partition key attribute 'PK'")
+    })
+  })
+})
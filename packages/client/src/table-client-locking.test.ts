@@ -0,0 +1,259 @@
+/**
+ * Tests for optimistic locking
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { UpdateExpressionBuilder } from '@ddb-lib/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+import { ConditionalCheckError, VersionConflictError } from './errors'
+
+/**
+ * Replace the document client's send with a recorder failing with the given error
+ */
+function failCommands(client: TableClient, error: any): any[] {
+  const commands: any[] = []
+  client['docClient'].send = async (command: any) => {
+    commands.push(command)
+    throw error
+  }
+  return commands
+}
+
+function conditionalCheckFailure(item?: any): Error {
+  const error: any = new Error('The conditional request failed')
+  error.name = 'ConditionalCheckFailedException'
+  error.Item = item
+  return error
+}
+
+describe('TableClient - Optimistic Locking', () => {
+  describe('put', () => {
+    test('should create new items at version 1', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client)
+
+      await client.put({ pk: 'USER#1', name: 'Alice' })
+
+      expect(commands[0].input.Item).toEqual({ pk: 'USER#1', name: 'Alice', version: 1 })
+      expect(commands[0].input.ConditionExpression).toBe('attribute_not_exists(#c0)')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#c0': 'version' })
+      expect(commands[0].input.ReturnValuesOnConditionCheckFailure).toBe('ALL_OLD')
+    })
+
+    test('should check and bump the version of existing items', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client)
+
+      await client.put(
+        { pk: 'USER#1', name: 'Alice', version: 3 },
+        { condition: { status: 'ACTIVE' } }
+      )
+
+      expect(commands[0].input.Item.version).toBe(4)
+      expect(commands[0].input.ConditionExpression).toBe('#c0 = :c0 AND #c1 = :c1')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({
+        '#c0': 'status',
+        '#c1': 'version',
+      })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({ ':c0': 'ACTIVE', ':c1': 3 })
+    })
+
+    test('should use a custom version attribute', async () => {
+      const client = new TableClient({
+        tableName: 'test-table',
+        optimisticLocking: { versionAttribute: 'rev' },
+      })
+      const commands = captureCommands(client)
+
+      await client.put({ pk: 'USER#1', rev: 7 })
+
+      expect(commands[0].input.Item).toEqual({ pk: 'USER#1', rev: 8 })
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#c0': 'rev' })
+    })
+
+    test('should throw VersionConflictError with the stored version', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = failCommands(
+        client,
+        conditionalCheckFailure({ pk: { S: 'USER#1' }, version: { N: '5' } })
+      )
+
+      const error = await client.put({ pk: 'USER#1', version: 3 }).catch((e) => e)
+
+      expect(error).toBeInstanceOf(VersionConflictError)
+      expect(error.message).toBe(
+        'Version conflict for put operation: expected version 3, found version 5'
+      )
+      expect(error.expectedVersion).toBe(3)
+      expect(error.currentVersion).toBe(5)
+      expect(commands).toHaveLength(1)
+    })
+
+    test('should report other condition failures as ConditionalCheckError', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      failCommands(client, conditionalCheckFailure({ pk: { S: 'USER#1' }, version: { N: '3' } }))
+
+      const error = await client
+        .put({ pk: 'USER#1', version: 3 }, { condition: { status: 'ACTIVE' } })
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(ConditionalCheckError)
+      expect(error).not.toBeInstanceOf(VersionConflictError)
+    })
+
+    test('should reject invalid versions', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      captureCommands(client)
+
+      await expect(client.put({ pk: 'USER#1', version: '3' })).rejects.toThrow(
+        "Version attribute 'version' must be a non-negative integer"
+      )
+    })
+  })
+
+  describe('update', () => {
+    test('should take the expected version from partial updates', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update({ pk: 'USER#1' }, { name: 'Bob', version: 2 })
+
+      expect(commands[0].input.UpdateExpression).toBe('SET #v0 = :v0, #u0 = :u0')
+      expect(commands[0].input.ConditionExpression).toBe('#c0 = :c0')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({
+        '#u0': 'name',
+        '#v0': 'version',
+        '#c0': 'version',
+      })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({
+        ':u0': 'Bob',
+        ':v0': 3,
+        ':c0': 2,
+      })
+    })
+
+    test('should add the version to builders without SET actions', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update({ pk: 'USER#1' }, new UpdateExpressionBuilder().remove('draft'), {
+        expectedVersion: 4,
+      })
+
+      expect(commands[0].input.UpdateExpression).toBe('SET #v0 = :v0 REMOVE #u0')
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({ ':v0': 5, ':c0': 4 })
+    })
+
+    test('should bump the version when only the version is given', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update({ pk: 'USER#1' }, { version: 1 })
+
+      expect(commands[0].input.UpdateExpression).toBe('SET #v0 = :v0')
+    })
+
+    test('should require an expected version', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client)
+
+      await expect(client.update({ pk: 'USER#1' }, { name: 'Bob' })).rejects.toThrow(
+        'Optimistic locking requires an expected version for update operations'
+      )
+      expect(commands).toHaveLength(0)
+    })
+
+    test('should report missing items as version conflicts', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      failCommands(client, conditionalCheckFailure())
+
+      await expect(
+        client.update({ pk: 'USER#1' }, { name: 'Bob' }, { expectedVersion: 2 })
+      ).rejects.toThrow(
+        'Version conflict for update operation: expected version 2, found no stored version'
+      )
+    })
+  })
+
+  describe('delete', () => {
+    test('should check the expected version', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client)
+
+      await client.delete({ pk: 'USER#1' }, { expectedVersion: 6 })
+
+      expect(commands[0].input.ConditionExpression).toBe('#c0 = :c0')
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({ ':c0': 6 })
+    })
+
+    test('should require an expected version', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      captureCommands(client)
+
+      await expect(client.delete({ pk: 'USER#1' })).rejects.toThrow(
+        'Optimistic locking requires an expected version for delete operations'
+      )
+    })
+  })
+
+  describe('transactWrite', () => {
+    test('should version-check put, update and delete operations', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const commands = captureCommands(client)
+
+      await client.transactWrite([
+        { type: 'put', item: { pk: 'ORDER#1' } },
+        { type: 'update', key: { pk: 'USER#1' }, updates: { orders: 1 }, expectedVersion: 2 },
+        { type: 'delete', key: { pk: 'CART#1' }, expectedVersion: 9 },
+        { type: 'conditionCheck', key: { pk: 'LOCK#1' }, condition: { status: 'FREE' } },
+      ])
+
+      const [put, update, remove, check] = commands[0].input.TransactItems
+      expect(put.Put.Item).toEqual({ pk: 'ORDER#1', version: 1 })
+      expect(put.Put.ConditionExpression).toBe('attribute_not_exists(#c0)')
+      expect(update.Update.UpdateExpression).toBe('SET #v0 = :v0, #u0 = :u0')
+      expect(update.Update.ExpressionAttributeValues).toEqual({ ':u0': 1, ':v0': 3, ':c0': 2 })
+      expect(remove.Delete.ExpressionAttributeValues).toEqual({ ':c0': 9 })
+      expect(remove.Delete.ReturnValuesOnConditionCheckFailure).toBe('ALL_OLD')
+      expect(check.ConditionCheck.ConditionExpression).toBe('#c0 = :c0')
+      expect(check.ConditionCheck.ReturnValuesOnConditionCheckFailure).toBeUndefined()
+    })
+
+    test('should report the conflicting operation of a cancelled transaction', async () => {
+      const client = new TableClient({ tableName: 'test-table', optimisticLocking: true })
+      const error: any = new Error('Transaction cancelled')
+      error.name = 'TransactionCanceledException'
+      error.CancellationReasons = [
+        { Code: 'None' },
+        { Code: 'ConditionalCheckFailed', Item: { pk: { S: 'USER#1' }, version: { N: '4' } } },
+      ]
+      failCommands(client, error)
+
+      const conflict = await client
+        .transactWrite([
+          { type: 'put', item: { pk: 'ORDER#1' } },
+          { type: 'update', key: { pk: 'USER#1' }, updates: { orders: 1 }, expectedVersion: 2 },
+        ])
+        .catch((e) => e)
+
+      expect(conflict).toBeInstanceOf(VersionConflictError)
+      expect(conflict.message).toBe(
+        'Version conflict for transactWrite update operation at index 1: expected version 2, found version 4'
+      )
+      expect(conflict.currentVersion).toBe(4)
+    })
+  })
+
+  test('should leave writes unchanged when disabled', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = captureCommands(client, { Attributes: {} })
+
+    await client.put({ pk: 'USER#1', version: 3 })
+    await client.update({ pk: 'USER#1' }, { version: 4 })
+
+    expect(commands[0].input.Item).toEqual({ pk: 'USER#1', version: 3 })
+    expect(commands[0].input.ConditionExpression).toBeUndefined()
+    expect(commands[1].input.UpdateExpression).toBe('SET #u0 = :u0')
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Tests for the middleware pipeline around TableClient requests
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+import { ConditionalCheckError } from './errors'
+import type { MiddlewareContext, TableClientMiddleware } from './types'
+
+/**
+ * Middleware recording the context of every request it sees
+ */
+function recordContexts(contexts: MiddlewareContext[]): TableClientMiddleware {
+  return async (context, next) => {
+    contexts.push({ ...context })
+    return next()
+  }
+}
+
+describe('TableClient - Middleware', () => {
+  test('should run middleware in the order it was added around the request', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    captureCommands(client, { Item: { pk: 'USER#1', sk: 'PROFILE' } })
+    const calls: string[] = []
+    client
+      .use(async (_, next) => {
+        calls.push('outer:before')
+        const response = await next()
+        calls.push('outer:after')
+        return response
+      })
+      .use(async (context, next) => {
+        calls.push(`inner:${context.operation}:${context.tableName}`)
+        return next()
+      })
+
+    await client.get({ pk: 'USER#1', sk: 'PROFILE' })
+
+    expect(calls).toEqual(['outer:before', 'inner:get:test-table', 'outer:after'])
+  })
+
+  test('should apply to every operation with its name and SDK input', async () => {
+    const contexts: MiddlewareContext[] = []
+    const client = new TableClient({
+      tableName: 'test-table',
+      middleware: [recordContexts(contexts)],
+    })
+    captureCommands(client, { Items: [], Responses: { 'test-table': [] }, UnprocessedItems: {} })
+
+    await client.put({ pk: 'USER#1', sk: 'PROFILE' })
+    await client.query({ keyCondition: { pk: 'USER#1' } })
+    await client.count({ keyCondition: { pk: 'USER#1' } })
+    await client.batchGet([{ pk: 'USER#1', sk: 'PROFILE' }])
+    await client.batchWrite([{ type: 'delete', key: { pk: 'USER#1', sk: 'PROFILE' } }])
+    await client.transactWrite([{ type: 'delete', key: { pk: 'USER#1', sk: 'PROFILE' } }])
+
+    expect(contexts.map((context) => context.operation)).toEqual([
+      'put',
+      'query',
+      'query',
+      'batchGet',
+      'batchWrite',
+      'transactWrite',
+    ])
+    expect(contexts[0].input.Item).toEqual({ pk: 'USER#1', sk: 'PROFILE' })
+    expect(contexts[2].input.Select).toBe('COUNT')
+  })
+
+  test('should send input changed or replaced by middleware', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = captureCommands(client)
+    client
+      .use(async (context, next) => {
+        context.input.Item.tenantId = 'TENANT#1'
+        return next()
+      })
+      .use(async (context, next) => {
+        context.input = { ...context.input, TableName: 'tenant-table' }
+        return next()
+      })
+
+    await client.put({ pk: 'USER#1', sk: 'PROFILE' })
+
+    expect(commands[0].constructor.name).toBe('PutCommand')
+    expect(commands[0].input.TableName).toBe('tenant-table')
+    expect(commands[0].input.Item).toEqual({ pk: 'USER#1', sk: 'PROFILE', tenantId: 'TENANT#1' })
+  })
+
+  test('should return responses changed or produced by middleware', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = captureCommands(client, { Item: { pk: 'USER#1', sk: 'PROFILE', secret: 'x' } })
+    client.use(async (context, next) => {
+      if (context.input.Key.pk === 'CACHED') {
+        return { Item: { pk: 'CACHED', sk: 'PROFILE' } }
+      }
+      const response = await next()
+      delete response.Item.secret
+      return response
+    })
+
+    expect(await client.get({ pk: 'CACHED', sk: 'PROFILE' })).toEqual({
+      pk: 'CACHED',
+      sk: 'PROFILE',
+    })
+    expect(commands).toHaveLength(0)
+    expect(await client.get({ pk: 'USER#1', sk: 'PROFILE' })).toEqual({
+      pk: 'USER#1',
+      sk: 'PROFILE',
+    })
+  })
+
+  test('should let middleware retry and see raw SDK errors', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    let attempts = 0
+    client['docClient'].send = async () => {
+      attempts++
+      const error = new Error('The conditional request failed')
+      error.name =
+        attempts === 1
+          ? 'ProvisionedThroughputExceededException'
+          : 'ConditionalCheckFailedException'
+      throw error
+    }
+    const seen: string[] = []
+    client.use(async (_, next) => {
+      try {
+        return await next()
+      } catch (error: any) {
+        seen.push(error.name)
+        if (error.name !== 'ProvisionedThroughputExceededException') {
+          throw error
+        }
+        return next()
+      }
+    })
+
+    await expect(client.put({ pk: 'USER#1', sk: 'PROFILE' })).rejects.toThrow(
+      ConditionalCheckError
+    )
+    expect(attempts).toBe(2)
+    expect(seen).toEqual(['ProvisionedThroughputExceededException'])
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Tests for page-by-page queries and scans with opaque cursors
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+import { capturePages } from './test-utils'
+
+describe('TableClient - Pages', () => {
+  describe('queryPages', () => {
+    test('should yield pages with cursors until the query is exhausted', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = capturePages(client, [
+        {
+          Items: [{ pk: 'USER#1', sk: 'ORDER#1' }],
+          LastEvaluatedKey: { pk: 'USER#1', sk: 'ORDER#1' },
+        },
+        { Items: [{ pk: 'USER#1', sk: 'ORDER#2' }] },
+      ])
+
+      const pages = []
+      for await (const page of client.queryPages({ keyCondition: { pk: 'USER#1' }, limit: 1 })) {
+        pages.push(page)
+      }
+
+      expect(pages).toHaveLength(2)
+      expect(pages[0].items).toEqual([{ pk: 'USER#1', sk: 'ORDER#1' }])
+      expect(typeof pages[0].cursor).toBe('string')
+      expect(pages[1].cursor).toBeUndefined()
+      expect(commands[1].input.ExclusiveStartKey).toEqual({ pk: 'USER#1', sk: 'ORDER#1' })
+    })
+
+    test('should resume from a signed cursor', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const params = { keyCondition: { pk: 'USER#1' }, limit: 1, cursorSecret: 's3cret' }
+      capturePages(client, [
+        {
+          Items: [{ pk: 'USER#1', sk: 'ORDER#1' }],
+          LastEvaluatedKey: { pk: 'USER#1', sk: 'ORDER#1' },
+        },
+      ])
+      const { value: first } = await client.queryPages(params).next()
+
+      const commands = capturePages(client, [{ Items: [{ pk: 'USER#1', sk: 'ORDER#2' }] }])
+      const { value: second } = await client.queryPages({ ...params, cursor: first.cursor }).next()
+
+      expect(first.cursor).toContain('.')
+      expect(commands[0].input.ExclusiveStartKey).toEqual({ pk: 'USER#1', sk: 'ORDER#1' })
+      expect(second.items).toEqual([{ pk: 'USER#1', sk: 'ORDER#2' }])
+    })
+
+    test('should reject cursors from other queries', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      capturePages(client, [{ Items: [], LastEvaluatedKey: { pk: 'USER#1', sk: 'ORDER#1' } }])
+      const { value: page } = await client.queryPages({ keyCondition: { pk: 'USER#1' } }).next()
+
+      const commands = capturePages(client, [])
+      const pages = client.queryPages({ keyCondition: { pk: 'USER#2' }, cursor: page.cursor })
+
+      await expect(pages.next()).rejects.toThrow('Cursor does not match the request parameters')
+      expect(commands).toHaveLength(0)
+    })
+  })
+
+  describe('scanPages', () => {
+    test('should yield pages with cursors bound to the scan parameters', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      capturePages(client, [
+        { Items: [{ pk: 'USER#1' }], LastEvaluatedKey: { pk: 'USER#1' } },
+        { Items: [{ pk: 'USER#2' }] },
+      ])
+
+      const pages = client.scanPages({ filter: { status: 'ACTIVE' } })
+      const { value: first } = await pages.next()
+      await pages.return?.()
+
+      const resumed = client.scanPages({ filter: { status: 'ACTIVE' }, cursor: first.cursor })
+      const other = client.scanPages({ filter: { status: 'DELETED' }, cursor: first.cursor })
+
+      await expect(resumed.next()).resolves.toEqual({
+        done: false,
+        value: { items: [{ pk: 'USER#2' }], cursor: undefined },
+      })
+      await expect(other.next()).rejects.toThrow('Cursor does not match the request parameters')
+    })
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Tests for parallel segmented scans
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+
+/**
+ * Pages per segment, each page listing the pk values of its items
+ */
+type SegmentPages = Record<number, string[][]>
+
+/**
+ * Replace the document client's send with a segmented scan over the given pages
+ * Pages continue with a LastEvaluatedKey holding the index of the next page
+ */
+function captureSegments(client: TableClient, segments: SegmentPages, delayMs = 0): any[] {
+  const commands: any[] = []
+  client['docClient'].send = async (command: any) => {
+    commands.push(command)
+    const { Segment, ExclusiveStartKey } = command.input
+    const page = ExclusiveStartKey ? ExclusiveStartKey.page : 0
+    const pages = segments[Segment]
+    await new Promise((resolve) => setTimeout(resolve, delayMs))
+    return {
+      Items: pages[page].map((pk) => ({ pk })),
+      Count: pages[page].length,
+      ScannedCount: pages[page].length,
+      ConsumedCapacity: { TableName: 'test-table', CapacityUnits: 0.5 },
+      LastEvaluatedKey: page + 1 < pages.length ? { pk: 'cursor', page: page + 1 } : undefined,
+    }
+  }
+  return commands
+}
+
+async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+  const pages: T[] = []
+  for await (const page of iterator) {
+    pages.push(page)
+  }
+  return pages
+}
+
+describe('TableClient - Parallel Scan', () => {
+  test('should scan every segment and merge their items', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = captureSegments(client, {
+      0: [['A1', 'A2'], ['A3']],
+      1: [['B1']],
+      2: [[], ['C1']],
+    })
+
+    const pages = await collect(client.parallelScan({ totalSegments: 3 }))
+
+    const pks = pages.flatMap((page) => page.items.map((item: any) => item.pk))
+    expect(pks.sort()).toEqual(['A1', 'A2', 'A3', 'B1', 'C1'])
+    expect(commands).toHaveLength(5)
+    expect(commands.every((command) => command.input.TotalSegments === 3)).toBe(true)
+    expect(pages[pages.length - 1].cursors.every((cursor) => cursor.done)).toBe(true)
+  })
+
+  test('should limit the number of segments scanned at once', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    let inFlight = 0
+    let maxInFlight = 0
+    const segments = { 0: [['A']], 1: [['B']], 2: [['C']], 3: [['D']] }
+    const commands = captureSegments(client, segments, 5)
+    const original = client['docClient'].send
+    client['docClient'].send = async (command: any) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      try {
+        return await original(command)
+      } finally {
+        inFlight--
+      }
+    }
+
+    const pages = await collect(client.parallelScan({ totalSegments: 4, concurrency: 2 }))
+
+    expect(pages).toHaveLength(4)
+    expect(commands).toHaveLength(4)
+    expect(maxInFlight).toBe(2)
+  })
+
+  test('should resume from segment cursors', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    captureSegments(client, { 0: [['A1'], ['A2']], 1: [['B1'], ['B2']] })
+
+    const first = client.parallelScan({ totalSegments: 2, concurrency: 1 })
+    const page = await first.next()
+    await first.return?.()
+
+    expect(page.value.items).toEqual([{ pk: 'A1' }])
+    expect(page.value.cursors).toEqual([
+      { segment: 0, exclusiveStartKey: { pk: 'cursor', page: 1 }, done: false },
+      { segment: 1, done: false },
+    ])
+
+    const commands = captureSegments(client, { 0: [['A1'], ['A2']], 1: [['B1'], ['B2']] })
+    const rest = await collect(
+      client.parallelScan({ totalSegments: 2, concurrency: 1, cursors: page.value.cursors })
+    )
+
+    expect(rest.flatMap((p) => p.items)).toEqual([{ pk: 'A2' }, { pk: 'B1' }, { pk: 'B2' }])
+    expect(commands[0].input.ExclusiveStartKey).toEqual({ pk: 'cursor', page: 1 })
+  })
+
+  test('should skip segments that are already done', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = captureSegments(client, { 0: [['A1']], 1: [['B1']] })
+
+    await collect(
+      client.parallelScan({
+        totalSegments: 2,
+        cursors: [
+          { segment: 0, done: true },
+          { segment: 1, done: false },
+        ],
+      })
+    )
+
+    expect(commands.map((command) => command.input.Segment)).toEqual([1])
+  })
+
+  test('should record stats per segment', async () => {
+    const client = new TableClient({ tableName: 'test-table', statsConfig: { enabled: true } })
+    captureSegments(client, { 0: [['A1']], 1: [['B1']] })
+
+    await collect(client.parallelScan({ totalSegments: 2 }))
+
+    const records = client['statsCollector']?.export() ?? []
+    expect(records.map((record) => record.metadata?.segment).sort()).toEqual([0, 1])
+    expect(records.every((record) => record.metadata?.totalSegments === 2)).toBe(true)
+    expect(client.getStats().operations.scan.totalRCU).toBe(1)
+  })
+
+  test('should reject invalid segment counts and cursors', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = captureSegments(client, {})
+
+    await expect(collect(client.parallelScan({ totalSegments: 0 }))).rejects.toThrow(
+      'totalSegments must be an integer between 1 and 1000000'
+    )
+    await expect(
+      collect(client.parallelScan({ totalSegments: 2, cursors: [{ segment: 0, done: false }] }))
+    ).rejects.toThrow('Cursors must list segments 0 to 1 in order')
+    await expect(
+      collect(client.parallelScan({ totalSegments: 2, concurrency: 0 }))
+    ).rejects.toThrow('concurrency must be a positive integer')
+    expect(commands).toHaveLength(0)
+  })
+
+  test('should propagate segment errors', async () => {
+    const client = new TableClient({
+      tableName: 'test-table',
+      retryConfig: { maxRetries: 0 },
+    })
+    client['docClient'].send = async (command: any) => {
+      if (command.input.Segment === 1) {
+        throw new Error('Segment failed')
+      }
+      return { Items: [], Count: 0, ScannedCount: 0 }
+    }
+
+    await expect(collect(client.parallelScan({ totalSegments: 2 }))).rejects.toThrow(
+      'Segment failed'
+    )
+  })
+})
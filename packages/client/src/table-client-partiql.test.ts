@@ -0,0 +1,175 @@
+/**
+ * Tests for PartiQL statements
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+import { partiql } from './partiql'
+import { ConditionalCheckError } from './errors'
+
+describe('TableClient - PartiQL', () => {
+  describe('partiql', () => {
+    test('should bind interpolated values as parameters', () => {
+      const status = 'ACTIVE'
+      const minAge = 18
+
+      const statement = partiql`SELECT * FROM users WHERE status = ${status} AND age >= ${minAge}`
+
+      expect(statement).toEqual({
+        statement: 'SELECT * FROM users WHERE status = ? AND age >= ?',
+        parameters: ['ACTIVE', 18],
+      })
+    })
+
+    test('should quote identifiers instead of binding them', () => {
+      const statement = partiql`
+        SELECT * FROM ${partiql.identifier('my"table')}.${partiql.identifier('GSI1')}
+        WHERE pk = ${"O'Brien"}
+      `
+
+      expect(statement.statement).toBe(
+        'SELECT * FROM "my""table"."GSI1"\n        WHERE pk = ?'
+      )
+      expect(statement.parameters).toEqual(["O'Brien"])
+    })
+
+    test('should reject undefined parameters', () => {
+      const missing: string | undefined = undefined
+
+      expect(() => partiql`SELECT * FROM users WHERE pk = ${missing}`).toThrow(
+        'PartiQL parameter 1 is undefined'
+      )
+    })
+  })
+
+  describe('executeStatement', () => {
+    test('should send the statement with its parameters', async () => {
+      const client = new TableClient({ tableName: 'users' })
+      const commands = captureCommands(client, {
+        Items: [{ pk: 'USER#1', name: 'Alice' }],
+        NextToken: 'token-2',
+      })
+
+      const result = await client.executeStatement(
+        partiql`SELECT * FROM users WHERE pk = ${'USER#1'}`,
+        { consistentRead: true, limit: 10, nextToken: 'token-1' }
+      )
+
+      expect(result.items).toEqual([{ pk: 'USER#1', name: 'Alice' }])
+      expect(result.nextToken).toBe('token-2')
+      expect(commands[0].input).toEqual({
+        Statement: 'SELECT * FROM users WHERE pk = ?',
+        Parameters: ['USER#1'],
+        ConsistentRead: true,
+        Limit: 10,
+        NextToken: 'token-1',
+        ReturnConsumedCapacity: 'NONE',
+      })
+    })
+
+    test('should validate returned items against the schema', async () => {
+      const schema: any = {
+        parse: (data: any) => {
+          if (typeof data.name !== 'string') {
+            throw new Error('name is required')
+          }
+          return data
+        },
+      }
+      const client = new TableClient({ tableName: 'users', schema })
+      captureCommands(client, { Items: [{ pk: 'USER#1' }] })
+
+      await expect(client.executeStatement('SELECT * FROM users')).rejects.toThrow(
+        'name is required'
+      )
+    })
+
+    test('should convert failed WHERE conditions into ConditionalCheckError', async () => {
+      const client = new TableClient({ tableName: 'users', retryConfig: { maxRetries: 0 } })
+      client['docClient'].send = async () => {
+        const error: any = new Error('The conditional request failed')
+        error.name = 'ConditionalCheckFailedException'
+        throw error
+      }
+
+      await expect(
+        client.executeStatement(partiql`DELETE FROM users WHERE pk = ${'USER#1'} AND age > ${5}`)
+      ).rejects.toThrow(ConditionalCheckError)
+    })
+
+    test('should retry throttled statements', async () => {
+      const client = new TableClient({
+        tableName: 'users',
+        retryConfig: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+      })
+      let attempts = 0
+      client['docClient'].send = async () => {
+        attempts++
+        if (attempts === 1) {
+          const error: any = new Error('Throughput exceeded')
+          error.name = 'ProvisionedThroughputExceededException'
+          throw error
+        }
+        return { Items: [] }
+      }
+
+      await client.executeStatement('SELECT * FROM users')
+
+      expect(attempts).toBe(2)
+    })
+
+    test('should record stats as partiql operations', async () => {
+      const client = new TableClient({ tableName: 'users', statsConfig: { enabled: true } })
+      captureCommands(client, { Items: [], ConsumedCapacity: { CapacityUnits: 2 } })
+
+      await client.executeStatement(partiql`UPDATE users SET age = ${30} WHERE pk = ${'USER#1'}`)
+
+      const stats = client.getStats()
+      expect(stats.operations.partiql.count).toBe(1)
+      expect(stats.operations.partiql.totalWCU).toBe(2)
+      expect(stats.operations.partiql.totalRCU).toBe(0)
+    })
+  })
+
+  describe('batchExecuteStatement', () => {
+    test('should report results per statement', async () => {
+      const client = new TableClient({ tableName: 'users' })
+      const commands = captureCommands(client, {
+        Responses: [
+          { TableName: 'users', Item: { pk: 'USER#1' } },
+          { TableName: 'users', Error: { Code: 'ResourceNotFound', Message: 'Missing' } },
+        ],
+      })
+
+      const results = await client.batchExecuteStatement(
+        ['USER#1', 'USER#2'].map((pk) => partiql`SELECT * FROM users WHERE pk = ${pk}`),
+        { consistentRead: true }
+      )
+
+      expect(results).toEqual([
+        { item: { pk: 'USER#1' } },
+        { error: { code: 'ResourceNotFound', message: 'Missing' } },
+      ])
+      const statement = 'SELECT * FROM users WHERE pk = ?'
+      expect(commands[0].input.Statements).toEqual([
+        { Statement: statement, Parameters: ['USER#1'], ConsistentRead: true },
+        { Statement: statement, Parameters: ['USER#2'], ConsistentRead: true },
+      ])
+    })
+
+    test('should reject more than 25 statements', async () => {
+      const client = new TableClient({ tableName: 'users' })
+      const commands = captureCommands(client)
+      const statements = Array.from(
+        { length: 26 },
+        (_, i) => partiql`DELETE FROM users WHERE pk = ${i}`
+      )
+
+      await expect(client.batchExecuteStatement(statements)).rejects.toThrow(
+        'BatchExecuteStatement supports a maximum of 25 statements, but 26 were provided'
+      )
+      expect(commands).toHaveLength(0)
+    })
+  })
+})
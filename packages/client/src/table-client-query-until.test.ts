@@ -0,0 +1,163 @@
+/**
+ * Tests for queryAll/queryUntil paging through filtered results
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { TableClient } from './table-client'
+import { capturePages } from './test-utils'
+
+/**
+ * Query page with the given matching sort keys
+ */
+function page(sortKeys: string[], scannedCount: number, lastSortKey?: string, rcu = 1): any {
+  return {
+    Items: sortKeys.map((sk) => ({ pk: 'USER#1', sk, status: 'OPEN' })),
+    Count: sortKeys.length,
+    ScannedCount: scannedCount,
+    ConsumedCapacity: { TableName: 'test-table', CapacityUnits: rcu },
+    LastEvaluatedKey: lastSortKey ? { pk: 'USER#1', sk: lastSortKey } : undefined,
+  }
+}
+
+const params = { keyCondition: { pk: 'USER#1' }, filter: { status: 'OPEN' } }
+
+describe('TableClient - Query Until', () => {
+  test('should keep paging through empty filtered pages', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [
+      page([], 10, 'ORDER#10'),
+      page([], 10, 'ORDER#20'),
+      page(['ORDER#25', 'ORDER#28'], 10, 'ORDER#30'),
+    ])
+
+    const result = await client.queryUntil({ ...params, maxItems: 2, pageSize: 10 })
+
+    expect(result.items.map((item) => item.sk)).toEqual(['ORDER#25', 'ORDER#28'])
+    expect(result.stoppedBy).toBe('maxItems')
+    expect(result.lastEvaluatedKey).toEqual({ pk: 'USER#1', sk: 'ORDER#30' })
+    expect(result.pages).toBe(3)
+    expect(result.scannedCount).toBe(30)
+    expect(commands.map((command) => command.input.Limit)).toEqual([10, 10, 10])
+    expect(commands[1].input.ExclusiveStartKey).toEqual({ pk: 'USER#1', sk: 'ORDER#10' })
+  })
+
+  test('should resume right after the last returned item of a partial page', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    capturePages(client, [page(['ORDER#1', 'ORDER#2', 'ORDER#3'], 3, 'ORDER#3')])
+
+    const result = await client.queryUntil({ ...params, maxItems: 2 })
+
+    expect(result.items.map((item) => item.sk)).toEqual(['ORDER#1', 'ORDER#2'])
+    expect(result.lastEvaluatedKey).toEqual({ pk: 'USER#1', sk: 'ORDER#2' })
+  })
+
+  test('should include index keys in the resume key', async () => {
+    const client = new TableClient({
+      tableName: 'test-table',
+      indexKeySchemas: {
+        GSI1: {
+          partitionKey: { name: 'GSI1PK', type: 'string' },
+          sortKey: { name: 'GSI1SK', type: 'string' },
+        },
+      },
+    })
+    const commands = capturePages(client, [
+      {
+        Items: [
+          { pk: 'ORDER#1', sk: 'META', GSI1PK: 'STATUS#OPEN', GSI1SK: '2025-01-01', total: 10 },
+          { pk: 'ORDER#2', sk: 'META', GSI1PK: 'STATUS#OPEN', GSI1SK: '2025-01-02', total: 20 },
+        ],
+        Count: 2,
+        ScannedCount: 2,
+      },
+    ])
+
+    const result = await client.queryUntil({
+      index: 'GSI1',
+      keyCondition: { pk: 'STATUS#OPEN' },
+      projectionExpression: ['total'],
+      maxItems: 1,
+    })
+
+    // Key attributes projected for the cursor are not returned
+    expect(result.items).toEqual([{ total: 10 }])
+    expect(result.lastEvaluatedKey).toEqual({
+      pk: 'ORDER#1',
+      sk: 'META',
+      GSI1PK: 'STATUS#OPEN',
+      GSI1SK: '2025-01-01',
+    })
+    expect(Object.values(commands[0].input.ExpressionAttributeNames)).toEqual(
+      expect.arrayContaining(['total', 'pk', 'sk', 'GSI1PK', 'GSI1SK'])
+    )
+  })
+
+  test('should require the key schema of queried indexes', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [])
+
+    await expect(
+      client.queryUntil({ keyCondition: { pk: 'ORG#1' }, index: 'GSI1', maxItems: 2 })
+    ).rejects.toThrow("queryUntil on index 'GSI1' requires its key schema in indexKeySchemas")
+    expect(commands).toHaveLength(0)
+  })
+
+  test('should stop at the scanned budget', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [
+      page(['ORDER#1'], 10, 'ORDER#10'),
+      page([], 5, 'ORDER#15'),
+    ])
+
+    const result = await client.queryUntil({
+      ...params,
+      maxItems: 5,
+      pageSize: 10,
+      maxScanned: 15,
+    })
+
+    expect(result.stoppedBy).toBe('maxScanned')
+    expect(result.items).toHaveLength(1)
+    expect(result.lastEvaluatedKey).toEqual({ pk: 'USER#1', sk: 'ORDER#15' })
+    expect(commands.map((command) => command.input.Limit)).toEqual([10, 5])
+  })
+
+  test('should stop at the RCU budget', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [
+      page(['ORDER#1'], 10, 'ORDER#10', 2),
+      page(['ORDER#11'], 10, 'ORDER#20', 2),
+    ])
+
+    const result = await client.queryAll({ ...params, maxRCU: 4 })
+
+    expect(result.stoppedBy).toBe('maxRCU')
+    expect(result.consumedRCU).toBe(4)
+    expect(result.items).toHaveLength(2)
+    expect(commands[0].input.ReturnConsumedCapacity).toBe('TOTAL')
+  })
+
+  test('should collect every match when the query is exhausted', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    capturePages(client, [page(['ORDER#1'], 10, 'ORDER#10'), page(['ORDER#12'], 4)])
+
+    const result = await client.queryAll(params)
+
+    expect(result.items).toHaveLength(2)
+    expect(result.stoppedBy).toBe('exhausted')
+    expect(result.lastEvaluatedKey).toBeUndefined()
+  })
+
+  test('should reject invalid limits and budgets', async () => {
+    const client = new TableClient({ tableName: 'test-table' })
+    const commands = capturePages(client, [])
+
+    await expect(client.queryUntil({ ...params, maxItems: 0 })).rejects.toThrow(
+      'maxItems must be a positive integer'
+    )
+    await expect(client.queryAll({ ...params, maxScanned: -1 })).rejects.toThrow(
+      'maxScanned must be positive'
+    )
+    expect(commands).toHaveLength(0)
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Tests for automatic timestamp and TTL attributes
+ */
+
+import { describe, test, expect, beforeEach, afterEach, rs } from '@rstest/core'
+import { UpdateExpressionBuilder } from '@ddb-lib/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+
+const NOW = new Date('2025-01-01T00:00:00.000Z')
+const NOW_SECONDS = NOW.getTime() / 1000
+
+describe('TableClient - Timestamps and TTL', () => {
+  beforeEach(() => {
+    rs.useFakeTimers({ now: NOW })
+  })
+
+  afterEach(() => {
+    rs.useRealTimers()
+  })
+
+  describe('timestamps', () => {
+    test('should set createdAt and updatedAt on put', async () => {
+      const client = new TableClient({ tableName: 'test-table', timestamps: true })
+      const commands = captureCommands(client)
+
+      await client.put({ pk: 'USER#1', name: 'Alice' })
+
+      expect(commands[0].input.Item).toEqual({
+        pk: 'USER#1',
+        name: 'Alice',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+      })
+    })
+
+    test('should keep createdAt of replaced items', async () => {
+      const client = new TableClient({
+        tableName: 'test-table',
+        timestamps: { createdAt: 'created', updatedAt: 'modified' },
+      })
+      const commands = captureCommands(client)
+
+      await client.put({ pk: 'USER#1', created: '2024-06-01T00:00:00.000Z' })
+
+      expect(commands[0].input.Item).toEqual({
+        pk: 'USER#1',
+        created: '2024-06-01T00:00:00.000Z',
+        modified: '2025-01-01T00:00:00.000Z',
+      })
+    })
+
+    test('should set createdAt with if_not_exists on update', async () => {
+      const client = new TableClient({ tableName: 'test-table', timestamps: true })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update({ pk: 'USER#1' }, { name: 'Bob' })
+
+      expect(commands[0].input.UpdateExpression).toBe(
+        'SET #t0 = if_not_exists(#t0, :t0), #t1 = :t0, #u0 = :u0'
+      )
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({
+        '#u0': 'name',
+        '#t0': 'createdAt',
+        '#t1': 'updatedAt',
+      })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({
+        ':u0': 'Bob',
+        ':t0': '2025-01-01T00:00:00.000Z',
+      })
+    })
+
+    test('should add timestamps to builder updates', async () => {
+      const client = new TableClient({ tableName: 'test-table', timestamps: true })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update({ pk: 'USER#1' }, new UpdateExpressionBuilder().add('views', 1))
+
+      expect(commands[0].input.UpdateExpression).toBe(
+        'SET #t0 = if_not_exists(#t0, :t0), #t1 = :t0 ADD #u0 :u0'
+      )
+    })
+
+    test('should stamp batch and transaction writes', async () => {
+      const client = new TableClient({ tableName: 'test-table', timestamps: true })
+      const commands = captureCommands(client)
+
+      await client.batchWrite([{ type: 'put', item: { pk: 'USER#1' } }])
+      await client.transactWrite([
+        { type: 'put', item: { pk: 'USER#2' } },
+        { type: 'update', key: { pk: 'USER#3' }, updates: { name: 'Carol' } },
+      ])
+
+      expect(commands[0].input.RequestItems['test-table'][0].PutRequest.Item.updatedAt).toBe(
+        '2025-01-01T00:00:00.000Z'
+      )
+      const [put, update] = commands[1].input.TransactItems
+      expect(put.Put.Item.createdAt).toBe('2025-01-01T00:00:00.000Z')
+      expect(update.Update.UpdateExpression).toBe(
+        'SET #t0 = if_not_exists(#t0, :t0), #t1 = :t0, #u0 = :u0'
+      )
+    })
+  })
+
+  describe('ttl', () => {
+    test('should apply the default lifetime to new items', async () => {
+      const client = new TableClient({
+        tableName: 'test-table',
+        ttl: { attribute: 'expiresAt', defaultExpiresIn: 3600 },
+      })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.put({ pk: 'SESSION#1' })
+      await client.put({ pk: 'SESSION#2', expiresAt: 42 })
+      await client.update({ pk: 'SESSION#3' }, { user: 'Alice' })
+
+      expect(commands[0].input.Item.expiresAt).toBe(NOW_SECONDS + 3600)
+      expect(commands[1].input.Item.expiresAt).toBe(42)
+      expect(commands[2].input.UpdateExpression).toBe(
+        'SET #x0 = if_not_exists(#x0, :x0), #u0 = :u0'
+      )
+      expect(commands[2].input.ExpressionAttributeValues[':x0']).toBe(NOW_SECONDS + 3600)
+    })
+
+    test('should set the expiry from expiresIn', async () => {
+      const client = new TableClient({ tableName: 'test-table', ttl: { attribute: 'ttl' } })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.put({ pk: 'SESSION#1', ttl: 42 }, { expiresIn: 60 })
+      await client.update({ pk: 'SESSION#1' }, { user: 'Alice' }, { expiresIn: 120 })
+      await client.update({ pk: 'SESSION#1' }, { user: 'Bob' })
+
+      expect(commands[0].input.Item.ttl).toBe(NOW_SECONDS + 60)
+      expect(commands[1].input.UpdateExpression).toBe('SET #x0 = :x0, #u0 = :u0')
+      expect(commands[1].input.ExpressionAttributeValues[':x0']).toBe(NOW_SECONDS + 120)
+      expect(commands[2].input.UpdateExpression).toBe('SET #u0 = :u0')
+    })
+
+    test('should reject expiresIn without a ttl attribute', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      captureCommands(client)
+
+      await expect(client.put({ pk: 'SESSION#1' }, { expiresIn: 60 })).rejects.toThrow(
+        'expiresIn requires a ttl attribute in the TableClient config'
+      )
+    })
+
+    test('should hide expired items on get', async () => {
+      const client = new TableClient({ tableName: 'test-table', ttl: { attribute: 'ttl' } })
+      captureCommands(client, { Item: { pk: 'SESSION#1', ttl: NOW_SECONDS - 1 } })
+
+      await expect(client.get({ pk: 'SESSION#1' })).resolves.toBeNull()
+    })
+
+    test('should return expired items when filtering is disabled', async () => {
+      const client = new TableClient({
+        tableName: 'test-table',
+        ttl: { attribute: 'ttl', filterExpired: false },
+      })
+      const commands = captureCommands(client, { Item: { pk: 'SESSION#1', ttl: 1 } })
+
+      await expect(client.get({ pk: 'SESSION#1' })).resolves.toEqual({ pk: 'SESSION#1', ttl: 1 })
+      await client.scan()
+      expect(commands[1].input.FilterExpression).toBeUndefined()
+    })
+
+    test('should filter expired items in queries', async () => {
+      const client = new TableClient({ tableName: 'test-table', ttl: { attribute: 'ttl' } })
+      const commands = captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+      await client.query({ keyCondition: { pk: 'USER#1' }, filter: { status: 'ACTIVE' } })
+
+      expect(commands[0].input.FilterExpression).toBe(
+        '(#f0 = :f0 AND (attribute_not_exists(#f1) OR #f2 > :f1))'
+      )
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({
+        '#k0': 'pk',
+        '#f0': 'status',
+        '#f1': 'ttl',
+        '#f2': 'ttl',
+      })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({
+        ':k0': 'USER#1',
+        ':f0': 'ACTIVE',
+        ':f1': NOW_SECONDS,
+      })
+    })
+  })
+})
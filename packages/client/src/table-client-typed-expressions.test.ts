@@ -0,0 +1,70 @@
+/**
+ * Tests for item-typed filter and condition expressions
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { untyped } from '@ddb-lib/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+
+interface Order {
+  pk: string
+  sk: string
+  status: 'OPEN' | 'CLOSED'
+  total: number
+  tags: string[]
+  address?: { city: string }
+}
+
+describe('TableClient - Typed Expressions', () => {
+  test('should build typed query filters', async () => {
+    const client = new TableClient<Order>({ tableName: 'orders' })
+    const commands = captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+    await client.query({
+      keyCondition: { pk: 'CUSTOMER#1' },
+      filter: {
+        or: [{ status: 'OPEN' }, { total: { gt: 100 } }],
+        'address.city': 'Berlin',
+      },
+    })
+
+    expect(commands[0].input.FilterExpression).toBe('(#f0 = :f0 OR #f1 > :f1) AND #f2.#f3 = :f2')
+    expect(commands[0].input.ExpressionAttributeNames).toEqual({
+      '#k0': 'pk',
+      '#f0': 'status',
+      '#f1': 'total',
+      '#f2': 'address',
+      '#f3': 'city',
+    })
+  })
+
+  test('should build typed conditions', async () => {
+    const client = new TableClient<Order>({ tableName: 'orders' })
+    const commands = captureCommands(client)
+
+    await client.put(
+      { pk: 'ORDER#1', sk: 'META', status: 'OPEN', total: 10, tags: [] },
+      { condition: { pk: { exists: false }, tags: { size: { lt: 100 } } } }
+    )
+
+    expect(commands[0].input.ConditionExpression).toBe(
+      'attribute_not_exists(#c0) AND size(#c1) < :c0'
+    )
+  })
+
+  test('should accept untyped expressions as an escape hatch', async () => {
+    const client = new TableClient<Order>({ tableName: 'orders' })
+    const commands = captureCommands(client, { Items: [], Count: 0, ScannedCount: 0 })
+
+    await client.scan({ filter: untyped({ legacyFlag: true }) })
+    await client.delete(
+      { pk: 'ORDER#1', sk: 'META' },
+      { condition: { or: [{ status: 'CLOSED' }, untyped({ archivedAt: { exists: true } })] } }
+    )
+
+    expect(commands[0].input.FilterExpression).toBe('#f0 = :f0')
+    expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#f0': 'legacyFlag' })
+    expect(commands[1].input.ConditionExpression).toBe('(#c0 = :c0 OR attribute_exists(#c1))')
+  })
+})
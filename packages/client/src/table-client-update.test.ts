@@ -0,0 +1,136 @@
+/**
+ * Tests for update operations with UpdateExpressionBuilder
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { UpdateExpressionBuilder } from '@ddb-lib/core'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+
+describe('TableClient - Update Expressions', () => {
+  describe('update', () => {
+    test('should build SET expression from a partial item', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client, { Attributes: { pk: 'USER#1', name: 'Alice' } })
+
+      const result = await client.update({ pk: 'USER#1' }, { name: 'Alice' })
+
+      expect(result).toEqual({ pk: 'USER#1', name: 'Alice' })
+      expect(commands[0].input.UpdateExpression).toBe('SET #u0 = :u0')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#u0': 'name' })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({ ':u0': 'Alice' })
+    })
+
+    test('should accept an UpdateExpressionBuilder', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update(
+        { pk: 'USER#1', sk: 'PROFILE' },
+        new UpdateExpressionBuilder().increment('stats.views').add('tags', new Set(['vip']))
+      )
+
+      expect(commands[0].input.UpdateExpression).toBe('SET #u0.#u1 = #u0.#u1 + :u0 ADD #u2 :u1')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({
+        '#u0': 'stats',
+        '#u1': 'views',
+        '#u2': 'tags',
+      })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({
+        ':u0': 1,
+        ':u1': new Set(['vip']),
+      })
+    })
+
+    test('should accept builders from another copy of @ddb-lib/core', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client, { Attributes: {} })
+      // Same shape as the builder, but not an instance of this package's class
+      class ForeignBuilder {
+        build() {
+          return new UpdateExpressionBuilder().set('name', 'Alice').build()
+        }
+      }
+
+      await client.update({ pk: 'USER#1' }, new ForeignBuilder() as UpdateExpressionBuilder)
+
+      expect(commands[0].input.UpdateExpression).toBe('SET #u0 = :u0')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#u0': 'name' })
+    })
+
+    test('should omit ExpressionAttributeValues for REMOVE-only updates', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update({ pk: 'USER#1' }, new UpdateExpressionBuilder().remove('draft'))
+
+      expect(commands[0].input.UpdateExpression).toBe('REMOVE #u0')
+      expect(commands[0].input.ExpressionAttributeValues).toBeUndefined()
+    })
+
+    test('should merge builder and condition placeholders', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client, { Attributes: {} })
+
+      await client.update(
+        { pk: 'PRODUCT#1' },
+        new UpdateExpressionBuilder().decrement('stock'),
+        { condition: { stock: { gt: 0 } } }
+      )
+
+      expect(commands[0].input.ConditionExpression).toBe('#c0 > :c0')
+      expect(commands[0].input.ExpressionAttributeNames).toEqual({ '#u0': 'stock', '#c0': 'stock' })
+      expect(commands[0].input.ExpressionAttributeValues).toEqual({ ':u0': 1, ':c0': 0 })
+    })
+
+    test('should not validate builder updates against the schema', async () => {
+      const schema: any = {
+        parse: () => {
+          throw new Error('schema should not be called')
+        },
+        partial: () => schema,
+      }
+      const client = new TableClient({ tableName: 'test-table', schema })
+      captureCommands(client, { Attributes: {} })
+
+      await expect(
+        client.update({ pk: 'USER#1' }, new UpdateExpressionBuilder().increment('views'))
+      ).resolves.toEqual({})
+    })
+
+    test('should reject empty builders', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      captureCommands(client)
+
+      await expect(client.update({ pk: 'USER#1' }, new UpdateExpressionBuilder())).rejects.toThrow(
+        'Update expression must contain at least one action'
+      )
+    })
+  })
+
+  describe('transactWrite', () => {
+    test('should accept UpdateExpressionBuilder in update operations', async () => {
+      const client = new TableClient({ tableName: 'test-table' })
+      const commands = captureCommands(client)
+
+      await client.transactWrite([
+        {
+          type: 'update',
+          key: { pk: 'PRODUCT#1', sk: 'STOCK' },
+          updates: new UpdateExpressionBuilder().appendToList('reservations', ['ORDER#9']),
+          condition: { status: 'AVAILABLE' },
+        },
+        { type: 'update', key: { pk: 'ORDER#9', sk: 'META' }, updates: { status: 'RESERVED' } },
+      ])
+
+      const [first, second] = commands[0].input.TransactItems
+      expect(first.Update.UpdateExpression).toBe('SET #u0 = list_append(#u0, :u0)')
+      expect(first.Update.ConditionExpression).toBe('#c0 = :c0')
+      expect(first.Update.ExpressionAttributeValues).toEqual({
+        ':u0': ['ORDER#9'],
+        ':c0': 'AVAILABLE',
+      })
+      expect(second.Update.UpdateExpression).toBe('SET #u0 = :u0')
+    })
+  })
+})
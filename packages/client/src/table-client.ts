@@ -2,6 +2,7 @@
  * TableClient - Main interface for DynamoDB operations
  */
 
+import { createHash, randomUUID } from 'node:crypto'
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
 import {
   DynamoDBDocumentClient,
@@ -15,17 +16,32 @@ import {
   BatchWriteCommand,
   TransactWriteCommand,
   TransactGetCommand,
+  ExecuteStatementCommand,
+  BatchExecuteStatementCommand,
 } from '@aws-sdk/lib-dynamodb'
+import type { BatchWriteCommandOutput, TransactWriteCommandOutput } from '@aws-sdk/lib-dynamodb'
 import type {
   Key,
   KeyCondition,
+  KeySchema,
   GSIConfig,
+  FilterExpression,
+  ConditionExpression,
+  TypedConditionExpression,
+  TypedFilterExpression,
+  UpdateExpressionBuilder,
 } from '@ddb-lib/core'
 import {
+  DEFAULT_KEY_SCHEMA,
+  validateKeySchema,
+  validateKey,
+  extractKey,
+  getKeyAttributeNames,
   KeyConditionBuilder,
   FilterExpressionBuilder,
   ConditionExpressionBuilder,
   ProjectionExpressionBuilder,
+  isUpdateExpressionBuilder,
   validateMultiAttributeKeyValues,
   validateMultiAttributeSortKeyOrder,
   hasMultiAttributePartitionKey,
@@ -33,6 +49,8 @@ import {
   isMultiAttributePartitionKey,
   isMultiAttributeSortKey,
   isMultiAttributeSortKeyArray,
+  untyped,
+  PatternHelpers,
 } from '@ddb-lib/core'
 import type {
   OperationRecord,
@@ -48,19 +66,197 @@ import type {
   BatchGetOptions,
   BatchWriteOperation,
   BatchWriteOptions,
+  BatchGetResult,
+  BatchWriteResult,
+  BatchChunkResult,
   TransactWriteOperation,
   TransactWriteOptions,
+  TableTransactWriteOperation,
+  TransactionCancellationReason,
+  SplitTransactWriteOptions,
+  SplitTransactWriteReport,
+  TransactWriteGroupResult,
   TransactGetOptions,
-  ConditionExpression,
+  PartiQLStatement,
+  ExecuteStatementOptions,
+  ExecuteStatementResult,
+  BatchStatementResult,
   QueryParams,
   QueryResult,
+  QueryAllParams,
+  QueryUntilParams,
+  QueryAllResult,
+  CountParams,
+  CountResult,
   ScanParams,
+  Page,
+  QueryPagesParams,
+  ScanPagesParams,
+  SegmentCursor,
+  ParallelScanParams,
+  ParallelScanPage,
+  CollectionSchemas,
+  CollectionQueryParams,
+  CollectionResult,
   ScanResult,
   AccessPatternDefinition,
   TableStats,
+  TtlConfig,
+  TableOperation,
+  TableClientMiddleware,
+  MiddlewareContext,
 } from './types'
 import { RetryHandler } from './retry-handler'
-import { ValidationError, ConditionalCheckError } from './errors'
+import { encodeCursor, decodeCursor, canonicalJson } from './cursor'
+import { estimateItemSize } from './item-size'
+import { ItemCache } from './cache'
+import {
+  ValidationError,
+  ConditionalCheckError,
+  VersionConflictError,
+  BatchPartialFailureError,
+  TransactionCancelledError,
+} from './errors'
+
+/**
+ * Version check of a single write under optimistic locking
+ */
+interface VersionCheck {
+  /** Attribute holding the item version */
+  attribute: string
+  /** Version the write is based on (undefined when creating a new item) */
+  expectedVersion?: number
+  /** Version written by the operation */
+  nextVersion: number
+}
+
+/**
+ * Read the version number of a stored item
+ * Items returned with condition check failures are still in DynamoDB JSON
+ */
+function readStoredVersion(item: any, attribute: string): number | undefined {
+  const value = item?.[attribute]
+  if (typeof value === 'number') {
+    return value
+  }
+  if (typeof value?.N === 'string') {
+    return Number(value.N)
+  }
+  return undefined
+}
+
+/**
+ * Maximum number of operations in a single transaction
+ */
+const MAX_TRANSACTION_ITEMS = 100
+
+/**
+ * Maximum aggregate item size of a single transaction
+ */
+const MAX_TRANSACTION_BYTES = 4 * 1024 * 1024
+
+/**
+ * Whether a transaction was cancelled only because of conflicts with other transactions,
+ * which makes it safe to retry
+ */
+function isTransactionConflict(error: unknown): boolean {
+  if (!(error instanceof TransactionCancelledError)) {
+    return false
+  }
+  const failures = error.failures
+  return failures.length > 0 && failures.every((reason) => reason.code === 'TransactionConflict')
+}
+
+/**
+ * Client request token of one transaction of a split transactional write
+ * Derived from the token seed, the group index and the group's TransactItems, so a retry with
+ * the same seed and request parameters gets the same token. Without a seed, each call gets a
+ * random token, so identical writes sent on purpose are not deduplicated by DynamoDB.
+ */
+function deriveRequestToken(seed: string | undefined, group: number, transactItems: any[]): string {
+  if (seed === undefined) {
+    return randomUUID()
+  }
+  return createHash('sha256')
+    .update(canonicalJson([seed, group, transactItems]))
+    .digest('hex')
+    .slice(0, 36)
+}
+
+/**
+ * Estimated size of the items a TransactItems entry writes or checks
+ * Updates count their key and new values, as the stored item is not known up front
+ */
+function transactItemSize(transactItem: any): number {
+  const { Put, Update, Delete, ConditionCheck } = transactItem
+  if (Put) {
+    return estimateItemSize(Put.Item)
+  }
+  if (Update) {
+    return estimateItemSize(Update.Key) + estimateItemSize(Update.ExpressionAttributeValues ?? {})
+  }
+  return estimateItemSize((Delete ?? ConditionCheck).Key)
+}
+
+/**
+ * Normalize statement text without parameters to a PartiQL statement
+ */
+function toPartiQLStatement(statement: PartiQLStatement | string): PartiQLStatement {
+  return typeof statement === 'string' ? { statement, parameters: [] } : statement
+}
+
+/**
+ * Whether a PartiQL statement reads (SELECT) rather than writes
+ */
+function isReadStatement(statement: string): boolean {
+  return /^\s*select\b/i.test(statement)
+}
+
+/**
+ * Serialize the given key attributes of a key or item for lookups
+ */
+function serializeKey(key: Record<string, any>, attributes: string[]): string {
+  return JSON.stringify(attributes.map((attribute) => key[attribute]))
+}
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at a time
+ * Results keep the order of the items; no new calls start after a failure
+ */
+async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  let failed = false
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++
+      try {
+        results[index] = await fn(items[index], index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => worker())
+  await Promise.all(workers)
+  return results
+}
+
+/**
+ * Output type of a document client command
+ */
+type CommandOutput<TCommand> = TCommand extends {
+  resolveMiddleware(...args: any[]): (...args: any[]) => Promise<{ output: infer TOutput }>
+}
+  ? TOutput
+  : never
 
 /**
  * Main client for interacting with a DynamoDB table
@@ -70,16 +266,57 @@ export class TableClient<TItem = any> {
   private readonly client: DynamoDBClient
   private readonly docClient: DynamoDBDocumentClient
   private readonly schema?: TableClientConfig<TItem>['schema']
+  private readonly keySchema?: KeySchema
+  private readonly indexKeySchemas: Record<string, KeySchema>
   private readonly accessPatterns?: TableClientConfig<TItem>['accessPatterns']
   private readonly statsCollector?: StatsCollector
   private readonly recommendationEngine?: RecommendationEngine
   private readonly retryHandler: RetryHandler
+  private readonly versionAttribute?: string
+  private readonly timestampAttributes?: { createdAt: string; updatedAt: string }
+  private readonly ttl?: TtlConfig
+  private readonly middleware: TableClientMiddleware[]
+  private readonly cache?: ItemCache
 
   constructor(config: TableClientConfig<TItem>) {
     this.tableName = config.tableName
     this.schema = config.schema
     this.accessPatterns = config.accessPatterns
 
+    // Validate key schemas up front so misconfiguration fails fast
+    if (config.keySchema) {
+      validateKeySchema(config.keySchema)
+    }
+    for (const indexKeySchema of Object.values(config.indexKeySchemas ?? {})) {
+      validateKeySchema(indexKeySchema)
+    }
+    this.keySchema = config.keySchema
+    this.indexKeySchemas = config.indexKeySchemas ?? {}
+
+    // Resolve the version attribute when optimistic locking is enabled
+    if (config.optimisticLocking) {
+      this.versionAttribute =
+        (typeof config.optimisticLocking === 'object' &&
+          config.optimisticLocking.versionAttribute) ||
+        PatternHelpers.versionAttribute()
+    }
+
+    // Resolve the managed timestamp and TTL attributes
+    if (config.timestamps) {
+      const timestamps = typeof config.timestamps === 'object' ? config.timestamps : {}
+      this.timestampAttributes = {
+        createdAt: timestamps.createdAt ?? 'createdAt',
+        updatedAt: timestamps.updatedAt ?? 'updatedAt',
+      }
+    }
+    this.ttl = config.ttl
+    this.middleware = [...(config.middleware ?? [])]
+
+    // Initialize the read-through cache if configured
+    if (config.cache) {
+      this.cache = new ItemCache(this.tableName, config.cache)
+    }
+
     // Initialize retry handler with custom config or defaults
     this.retryHandler = new RetryHandler(config.retryConfig)
 
@@ -132,6 +369,22 @@ export class TableClient<TItem = any> {
     return this.tableName
   }
 
+  /**
+   * Get the key schema of the table (defaults to `pk`/`sk` when not configured)
+   */
+  getKeySchema(): KeySchema {
+    return this.keySchema ?? DEFAULT_KEY_SCHEMA
+  }
+
+  /**
+   * Get the configured key schema of an index
+   * @param indexName - Name of the GSI or LSI
+   * @returns The schema from `indexKeySchemas`, or undefined when none is configured
+   */
+  getIndexKeySchema(indexName: string): KeySchema | undefined {
+    return this.indexKeySchemas[indexName]
+  }
+
   /**
    * Get aggregated statistics for operations performed by this client
    * @returns Table statistics including operation metrics and access pattern usage
@@ -147,6 +400,14 @@ export class TableClient<TItem = any> {
     return this.statsCollector.getStats()
   }
 
+  /**
+   * Get the collector recording this client's operations, e.g. to run the stats detectors on it
+   * @returns The collector, or undefined when statistics are disabled
+   */
+  getStatsCollector(): StatsCollector | undefined {
+    return this.statsCollector
+  }
+
   /**
    * Get recommendations for optimizing table usage
    * Emits warnings for high-severity recommendations
@@ -173,6 +434,49 @@ export class TableClient<TItem = any> {
     return recommendations
   }
 
+  /**
+   * Add middleware around every request this client sends
+   * Middleware runs in the order it was added, the first added being the outermost. It runs
+   * inside the retry loop, so it sees each attempt of a retried request.
+   * @returns This client, for chaining
+   */
+  use(middleware: TableClientMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Send a document client command through the middleware pipeline
+   * @private
+   */
+  private async send<TCommand extends { input: object }>(
+    operation: TableOperation,
+    command: TCommand
+  ): Promise<CommandOutput<TCommand>> {
+    const docClient = this.docClient as { send(command: unknown): Promise<any> }
+    if (this.middleware.length === 0) {
+      return docClient.send(command)
+    }
+
+    const context: MiddlewareContext = {
+      operation,
+      tableName: this.tableName,
+      input: command.input,
+    }
+    const dispatch = (index: number): Promise<any> => {
+      const middleware = this.middleware[index]
+      if (middleware) {
+        return middleware(context, () => dispatch(index + 1))
+      }
+      // Rebuild the command when middleware replaced its input
+      const Command = command.constructor as new (input: object) => TCommand
+      return docClient.send(
+        context.input === command.input ? command : new Command(context.input)
+      )
+    }
+    return dispatch(0)
+  }
+
   /**
    * Helper method to determine if an error should be retried
    * Validation and conditional check errors should not be retried
@@ -210,8 +514,12 @@ export class TableClient<TItem = any> {
   /**
    * Execute an operation with retry logic
    * Wraps operations to handle retryable errors automatically
+   * @param isRetryable - Optional check for further errors the operation can retry
    */
-  private async executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
+  private async executeWithRetry<T>(
+    operation: () => Promise<T>,
+    isRetryable?: (error: unknown) => boolean
+  ): Promise<T> {
     return this.retryHandler.executeWithRetry(async () => {
       try {
         return await operation()
@@ -223,22 +531,32 @@ export class TableClient<TItem = any> {
         // Otherwise, let the retry handler decide
         throw error
       }
-    })
+    }, undefined, isRetryable)
   }
 
   /**
    * Get an item from the table by key
-   * @param key - The partition key (pk) and optional sort key (sk)
+   * @param key - The key attributes (`pk`/`sk` unless a keySchema is configured)
    * @param options - Optional get options (consistentRead, projectionExpression)
    * @returns The item if found, null otherwise
    */
   async get(key: Key, options?: GetOptions): Promise<TItem | null> {
-    return this.executeWithRetry(async () => {
+    // Only whole items are cached; consistent reads bypass the cache but refresh it
+    const cache = options?.projectionExpression?.length ? undefined : this.cache
+    if (cache && !options?.consistentRead) {
+      const cached = await cache.getItem<TItem>(this.readItemKey(key))
+      this.statsCollector?.recordCacheLookup('get', cached !== undefined)
+      if (cached) {
+        return this.isExpired(cached.item ?? undefined) ? null : cached.item
+      }
+    }
+
+    const read = () => this.executeWithRetry(async () => {
       const startTime = Date.now()
 
       const params: any = {
         TableName: this.tableName,
-        Key: key,
+        Key: this.validateTableKey(key),
         ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
       }
 
@@ -260,7 +578,7 @@ export class TableClient<TItem = any> {
       }
 
       const command = new GetCommand(params)
-      const response = await this.docClient.send(command)
+      const response = await this.send('get', command)
 
       // Record stats
       if (this.statsCollector) {
@@ -278,32 +596,49 @@ export class TableClient<TItem = any> {
         }, this.tableName)
       }
 
-      // Return null if item doesn't exist
+      // Return null if item doesn't exist or has expired but is not deleted yet
+      if (this.isExpired(response.Item)) {
+        return null
+      }
       return (response.Item as TItem) ?? null
     })
+
+    if (!cache) {
+      return read()
+    }
+    const itemKey = this.readItemKey(key)
+    return cache.readItems([itemKey], read, (item) => [[itemKey, item]])
   }
 
   /**
    * Put an item into the table
+   * With optimistic locking, the item's version attribute is the expected stored version
+   * (absent for new items) and the item is written with the next version
    * @param item - The item to put
    * @param options - Optional put options (condition, returnValues)
+   * @throws {VersionConflictError} If the stored item has a different version
    */
-  async put(item: TItem, options?: PutOptions): Promise<void> {
+  async put(item: TItem, options?: PutOptions<TItem>): Promise<void> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
 
       // Validate item against schema if provided
       const validatedItem = this.validateItem(item)
+      this.validateItemKey(validatedItem)
+
+      // Check and bump the item version under optimistic locking
+      const versionCheck = this.resolveVersionCheck(this.readItemVersion(validatedItem), 'put')
+      const condition = this.withVersionCondition(options?.condition, versionCheck)
 
       const params: any = {
         TableName: this.tableName,
-        Item: validatedItem,
+        Item: this.withManagedAttributes(validatedItem, versionCheck, options?.expiresIn),
         ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
       }
 
       // Add condition expression if specified
-      if (options?.condition) {
-        const conditionResult = this.buildConditionExpression(options.condition)
+      if (condition) {
+        const conditionResult = this.buildConditionExpression(condition)
         params.ConditionExpression = conditionResult.expression
         if (conditionResult.names) {
           params.ExpressionAttributeNames = conditionResult.names
@@ -318,9 +653,14 @@ export class TableClient<TItem = any> {
         params.ReturnValues = options.returnValues
       }
 
+      // Return the stored item on version check failures to report its version
+      if (versionCheck) {
+        params.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+      }
+
       try {
         const command = new PutCommand(params)
-        const response = await this.docClient.send(command)
+        const response = await this.send('put', command)
 
         // Record stats
         if (this.statsCollector) {
@@ -334,40 +674,71 @@ export class TableClient<TItem = any> {
           }, this.tableName)
         }
       } catch (error) {
-        this.handleDynamoDBError(error, 'put', options?.condition)
+        this.handleVersionConflict(error, 'put operation', versionCheck)
+        this.handleDynamoDBError(error, 'put', condition)
+      } finally {
+        await this.invalidateCachedItems([this.readItemKey(params.Item)])
       }
     })
   }
 
   /**
    * Update an item in the table
-   * @param key - The partition key (pk) and optional sort key (sk)
-   * @param updates - Partial item with fields to update
-   * @param options - Optional update options (condition, returnValues)
+   * @param key - The key attributes (`pk`/`sk` unless a keySchema is configured)
+   * @param updates - Partial item with fields to SET, or an UpdateExpressionBuilder for
+   * REMOVE/ADD/DELETE, list and arithmetic updates (builders bypass schema validation)
+   * @param options - Optional update options (condition, expectedVersion, returnValues)
    * @returns The updated item
+   * @throws {VersionConflictError} If the stored item has a different version
+   *
+   * @example
+   * ```typescript
+   * await client.update(key, { status: 'ACTIVE' })
+   * await client.update(key, new UpdateExpressionBuilder().increment('views').remove('draft'))
+   *
+   * // With optimistic locking, the expected version comes from the updates or the options
+   * await client.update(key, { status: 'ACTIVE', version: 3 })
+   * await client.update(key, new UpdateExpressionBuilder().increment('views'), {
+   *   expectedVersion: 3,
+   * })
+   * ```
    */
-  async update(key: Key, updates: Partial<TItem>, options?: UpdateOptions): Promise<TItem> {
+  async update(
+    key: Key,
+    updates: Partial<TItem> | UpdateExpressionBuilder,
+    options?: UpdateOptions<TItem>
+  ): Promise<TItem> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
 
-      // Validate updates against schema if provided
-      const validatedUpdates = this.validatePartialItem(updates)
-
       const params: any = {
         TableName: this.tableName,
-        Key: key,
+        Key: this.validateTableKey(key),
         ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
       }
 
-      // Build update expression from updates object
-      const updateResult = this.buildUpdateExpression(validatedUpdates)
+      // Check and bump the item version under optimistic locking
+      const versionCheck = this.resolveVersionCheck(
+        options?.expectedVersion ?? this.readItemVersion(updates),
+        'update'
+      )
+      const condition = this.withVersionCondition(options?.condition, versionCheck)
+
+      // Build update expression from updates object or builder
+      const updateResult = this.resolveManagedUpdateExpression(
+        updates,
+        versionCheck,
+        options?.expiresIn
+      )
       params.UpdateExpression = updateResult.expression
       params.ExpressionAttributeNames = updateResult.names
-      params.ExpressionAttributeValues = updateResult.values
+      if (updateResult.values) {
+        params.ExpressionAttributeValues = updateResult.values
+      }
 
       // Add condition expression if specified
-      if (options?.condition) {
-        const conditionResult = this.buildConditionExpression(options.condition)
+      if (condition) {
+        const conditionResult = this.buildConditionExpression(condition)
         params.ConditionExpression = conditionResult.expression
 
         // Merge expression attribute names and values
@@ -388,9 +759,14 @@ export class TableClient<TItem = any> {
       // Set return values (default to ALL_NEW to return updated item)
       params.ReturnValues = options?.returnValues || 'ALL_NEW'
 
+      // Return the stored item on version check failures to report its version
+      if (versionCheck) {
+        params.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+      }
+
       try {
         const command = new UpdateCommand(params)
-        const response = await this.docClient.send(command)
+        const response = await this.send('update', command)
 
         // Record stats
         if (this.statsCollector) {
@@ -406,29 +782,37 @@ export class TableClient<TItem = any> {
 
         return response.Attributes as TItem
       } catch (error) {
-        this.handleDynamoDBError(error, 'update', options?.condition)
+        this.handleVersionConflict(error, 'update operation', versionCheck)
+        this.handleDynamoDBError(error, 'update', condition)
+      } finally {
+        await this.invalidateCachedItems([params.Key])
       }
     })
   }
 
   /**
    * Delete an item from the table
-   * @param key - The partition key (pk) and optional sort key (sk)
-   * @param options - Optional delete options (condition, returnValues)
+   * @param key - The key attributes (`pk`/`sk` unless a keySchema is configured)
+   * @param options - Optional delete options (condition, expectedVersion, returnValues)
+   * @throws {VersionConflictError} If the stored item has a different version
    */
-  async delete(key: Key, options?: DeleteOptions): Promise<void> {
+  async delete(key: Key, options?: DeleteOptions<TItem>): Promise<void> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
 
       const params: any = {
         TableName: this.tableName,
-        Key: key,
+        Key: this.validateTableKey(key),
         ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
       }
 
+      // Check the item version under optimistic locking
+      const versionCheck = this.resolveVersionCheck(options?.expectedVersion, 'delete')
+      const condition = this.withVersionCondition(options?.condition, versionCheck)
+
       // Add condition expression if specified
-      if (options?.condition) {
-        const conditionResult = this.buildConditionExpression(options.condition)
+      if (condition) {
+        const conditionResult = this.buildConditionExpression(condition)
         params.ConditionExpression = conditionResult.expression
         if (conditionResult.names) {
           params.ExpressionAttributeNames = conditionResult.names
@@ -443,9 +827,14 @@ export class TableClient<TItem = any> {
         params.ReturnValues = options.returnValues
       }
 
+      // Return the stored item on version check failures to report its version
+      if (versionCheck) {
+        params.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+      }
+
       try {
         const command = new DeleteCommand(params)
-        const response = await this.docClient.send(command)
+        const response = await this.send('delete', command)
 
         // Record stats
         if (this.statsCollector) {
@@ -459,7 +848,10 @@ export class TableClient<TItem = any> {
           }, this.tableName)
         }
       } catch (error) {
-        this.handleDynamoDBError(error, 'delete', options?.condition)
+        this.handleVersionConflict(error, 'delete operation', versionCheck)
+        this.handleDynamoDBError(error, 'delete', condition)
+      } finally {
+        await this.invalidateCachedItems([params.Key])
       }
     })
   }
@@ -467,120 +859,149 @@ export class TableClient<TItem = any> {
   /**
    * Batch get multiple items from the table
    * Automatically chunks requests to DynamoDB's 100-item limit and retries unprocessed keys
+   * with the retry policy delays. Chunks run sequentially unless `concurrency` is set.
    * 
    * @param keys - Array of keys to retrieve
-   * @param options - Optional batch get options (consistentRead, projectionExpression, chunkSize)
-   * @returns Array of items (may be in different order than keys, missing items are not included)
+   * @param options - Optional batch get options (consistentRead, projectionExpression, chunkSize,
+   * concurrency, onUnprocessed, retryDeadlineMs)
+   * @returns Items in the order of their keys (missing items are not included),
+   * keys left unprocessed and per-chunk consumed capacity
+   * @throws {BatchPartialFailureError} If keys remain unprocessed in 'throw' or 'retry' mode
    * 
    * @example
    * ```typescript
-   * const items = await client.batchGet([
+   * const { items, unprocessedKeys } = await client.batchGet([
    *   { pk: 'USER#1', sk: 'PROFILE' },
    *   { pk: 'USER#2', sk: 'PROFILE' },
    *   { pk: 'USER#3', sk: 'PROFILE' }
    * ])
    * ```
    */
-  async batchGet(keys: Key[], options?: BatchGetOptions): Promise<TItem[]> {
+  async batchGet(keys: Key[], options?: BatchGetOptions): Promise<BatchGetResult<TItem>> {
+    if (!this.cache || options?.projectionExpression?.length) {
+      return this.batchGetFromTable(keys, options)
+    }
+    return this.batchGetThroughCache(this.cache, keys, options)
+  }
+
+  /**
+   * Batch get items from the table, bypassing the cache
+   * @private
+   */
+  private async batchGetFromTable(
+    keys: Key[],
+    options?: BatchGetOptions
+  ): Promise<BatchGetResult<TItem>> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
       const chunkSize = options?.chunkSize || 100 // DynamoDB limit
-      const allItems: TItem[] = []
+      const concurrency = this.validateConcurrency(options?.concurrency)
+      const validatedKeys = keys.map((key) => this.validateTableKey(key))
 
       // Split keys into chunks
       const chunks: Key[][] = []
-      for (let i = 0; i < keys.length; i += chunkSize) {
-        chunks.push(keys.slice(i, i + chunkSize))
-      }
-
-      // Process each chunk
-      for (const chunk of chunks) {
-        let keysToProcess = chunk
-        let attempts = 0
-        const maxAttempts = 3
-
-        while (keysToProcess.length > 0 && attempts < maxAttempts) {
-          attempts++
-
-          const params: any = {
-            RequestItems: {
-              [this.tableName]: {
-                Keys: keysToProcess,
-                ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
-              },
-            },
-          }
-
-          // Add consistent read if specified
-          if (options?.consistentRead) {
-            params.RequestItems[this.tableName].ConsistentRead = true
-          }
+      for (let i = 0; i < validatedKeys.length; i += chunkSize) {
+        chunks.push(validatedKeys.slice(i, i + chunkSize))
+      }
 
-          // Add projection expression if specified
-          if (options?.projectionExpression && options.projectionExpression.length > 0) {
-            const projection = this.buildProjectionExpression(options.projectionExpression)
-            params.RequestItems[this.tableName].ProjectionExpression = projection.expression
-            if (projection.names) {
-              params.RequestItems[this.tableName].ExpressionAttributeNames = projection.names
-            }
-          }
+      // Process chunks, up to `concurrency` at a time
+      const chunkOutcomes = await runWithConcurrency(chunks, concurrency, (chunk, index) =>
+        this.processBatchGetChunk(chunk, index, startTime, options)
+      )
 
-          const command = new BatchGetCommand(params)
-          const response = await this.docClient.send(command)
+      const result: BatchGetResult<TItem> = {
+        items: this.orderByKeys(
+          chunkOutcomes.flatMap((outcome) => outcome.items),
+          validatedKeys
+        ),
+        unprocessedKeys: chunkOutcomes.flatMap((outcome) => outcome.unprocessedKeys),
+        chunks: chunkOutcomes.map((outcome) => outcome.chunk),
+      }
 
-          // Collect items from response
-          const items = response.Responses?.[this.tableName] || []
-          allItems.push(...(items as TItem[]))
+      if (result.unprocessedKeys.length > 0 && (options?.onUnprocessed ?? 'return') !== 'return') {
+        throw new BatchPartialFailureError(
+          `BatchGet: ${result.unprocessedKeys.length} keys could not be processed`,
+          'batchGet',
+          result
+        )
+      }
 
-          // Check for unprocessed keys
-          const unprocessedKeys = response.UnprocessedKeys?.[this.tableName]?.Keys
-          if (unprocessedKeys && unprocessedKeys.length > 0) {
-            keysToProcess = unprocessedKeys as Key[]
-            // Add exponential backoff before retry
-            if (attempts < maxAttempts) {
-              await new Promise((resolve) => setTimeout(resolve, 100 * Math.pow(2, attempts - 1)))
-            }
-          } else {
-            keysToProcess = []
-          }
+      return result
+    })
+  }
 
-          // Record stats for this batch
-          if (this.statsCollector) {
-            const consumedCapacity = response.ConsumedCapacity?.find(
-              (cc) => cc.TableName === this.tableName
-            )
-            this.statsCollector.record({
-              operation: 'batchGet',
-              timestamp: startTime,
-              latencyMs: Date.now() - startTime,
-              rcu: consumedCapacity?.CapacityUnits,
-              itemCount: items.length,
-            }, this.tableName)
-          }
+  /**
+   * Batch get items, reading cached items from the cache and the rest from the table
+   * Fetched items are cached, as are keys without item; unprocessed keys are not.
+   * @private
+   */
+  private async batchGetThroughCache(
+    cache: ItemCache,
+    keys: Key[],
+    options?: BatchGetOptions
+  ): Promise<BatchGetResult<TItem>> {
+    const hits: TItem[] = []
+    const misses: Key[] = []
+    if (options?.consistentRead) {
+      misses.push(...keys)
+    } else {
+      const cached = await Promise.all(keys.map((key) => cache.getItem<TItem>(this.readItemKey(key))))
+      for (const [index, entry] of cached.entries()) {
+        this.statsCollector?.recordCacheLookup('batchGet', entry !== undefined)
+        if (!entry) {
+          misses.push(keys[index])
+        } else if (entry.item && !this.isExpired(entry.item)) {
+          hits.push(entry.item)
         }
+      }
+    }
 
-        // Warn if there are still unprocessed keys after max attempts
-        if (keysToProcess.length > 0) {
-          console.warn(
-            `⚠️  BatchGet: ${keysToProcess.length} keys could not be processed after ${maxAttempts} attempts`
+    const result: BatchGetResult<TItem> =
+      misses.length > 0
+        ? await cache.readItems(
+            misses.map((key) => this.readItemKey(key)),
+            () => this.batchGetFromTable(misses, options),
+            (result) => {
+              const resolved = new Set(
+                [...result.items, ...result.unprocessedKeys].map((item) =>
+                  cache.itemKey(this.readItemKey(item))
+                )
+              )
+              return [
+                ...result.items.map((item): [Key, TItem | null] => [this.readItemKey(item), item]),
+                ...misses
+                  .filter((key) => !resolved.has(cache.itemKey(this.readItemKey(key))))
+                  .map((key): [Key, TItem | null] => [this.readItemKey(key), null]),
+              ]
+            }
           )
-        }
-      }
+        : { items: [], unprocessedKeys: [], chunks: [] }
 
-      return allItems
-    })
+    return { ...result, items: this.orderByKeys([...hits, ...result.items], keys) }
+  }
+
+  /**
+   * Drop cached items of the given keys and cached access pattern results after a write
+   * @private
+   */
+  private async invalidateCachedItems(keys: Key[]): Promise<void> {
+    await this.cache?.invalidate(keys)
   }
 
   /**
    * Batch write multiple items to the table (put or delete operations)
    * Automatically chunks requests to DynamoDB's 25-item limit and retries unprocessed items
+   * with the retry policy delays. Chunks run sequentially unless `concurrency` is set.
    * 
    * @param operations - Array of put or delete operations
-   * @param options - Optional batch write options (chunkSize)
+   * @param options - Optional batch write options (chunkSize, concurrency, onUnprocessed,
+   * retryDeadlineMs)
+   * @returns Operations left unprocessed and per-chunk consumed capacity
+   * @throws {BatchPartialFailureError} If operations remain unprocessed in 'throw' or 'retry' mode
    * 
    * @example
    * ```typescript
-   * await client.batchWrite([
+   * const { unprocessedOperations } = await client.batchWrite([
    *   { type: 'put', item: { pk: 'USER#1', sk: 'PROFILE', name: 'Alice' } },
    *   { type: 'put', item: { pk: 'USER#2', sk: 'PROFILE', name: 'Bob' } },
    *   { type: 'delete', key: { pk: 'USER#3', sk: 'PROFILE' } }
@@ -590,10 +1011,11 @@ export class TableClient<TItem = any> {
   async batchWrite(
     operations: BatchWriteOperation<TItem>[],
     options?: BatchWriteOptions
-  ): Promise<void> {
+  ): Promise<BatchWriteResult<TItem>> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
       const chunkSize = options?.chunkSize || 25 // DynamoDB limit
+      const concurrency = this.validateConcurrency(options?.concurrency)
 
       // Split operations into chunks
       const chunks: BatchWriteOperation<TItem>[][] = []
@@ -601,92 +1023,26 @@ export class TableClient<TItem = any> {
         chunks.push(operations.slice(i, i + chunkSize))
       }
 
-      // Process each chunk
-      for (const chunk of chunks) {
-        let operationsToProcess = chunk
-        let attempts = 0
-        const maxAttempts = 3
-
-        while (operationsToProcess.length > 0 && attempts < maxAttempts) {
-          attempts++
-
-          // Build request items
-          const requestItems = operationsToProcess.map((op) => {
-            if (op.type === 'put') {
-              // Validate item against schema if provided
-              const validatedItem = this.validateItem(op.item)
-              return {
-                PutRequest: {
-                  Item: validatedItem,
-                },
-              }
-            }
-            // Delete operation
-            return {
-              DeleteRequest: {
-                Key: op.key,
-              },
-            }
-          })
-
-          const params: any = {
-            RequestItems: {
-              [this.tableName]: requestItems,
-            },
-            ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
-          }
-
-          const command = new BatchWriteCommand(params)
-          const response = await this.docClient.send(command)
-
-          // Check for unprocessed items
-          const unprocessedItems = response.UnprocessedItems?.[this.tableName]
-          if (unprocessedItems && unprocessedItems.length > 0) {
-            // Convert unprocessed items back to operations
-            operationsToProcess = unprocessedItems.map((item) => {
-              if ('PutRequest' in item && item.PutRequest) {
-                return {
-                  type: 'put' as const,
-                  item: item.PutRequest.Item as TItem,
-                }
-              }
-              // DeleteRequest
-              return {
-                type: 'delete' as const,
-                key: item.DeleteRequest!.Key as Key,
-              }
-            })
-
-            // Add exponential backoff before retry
-            if (attempts < maxAttempts) {
-              await new Promise((resolve) => setTimeout(resolve, 100 * Math.pow(2, attempts - 1)))
-            }
-          } else {
-            operationsToProcess = []
-          }
+      // Process chunks, up to `concurrency` at a time
+      const chunkOutcomes = await runWithConcurrency(chunks, concurrency, (chunk, index) =>
+        this.processBatchWriteChunk(chunk, index, startTime, options)
+      )
 
-          // Record stats for this batch
-          if (this.statsCollector) {
-            const consumedCapacity = response.ConsumedCapacity?.find(
-              (cc) => cc.TableName === this.tableName
-            )
-            this.statsCollector.record({
-              operation: 'batchWrite',
-              timestamp: startTime,
-              latencyMs: Date.now() - startTime,
-              wcu: consumedCapacity?.CapacityUnits,
-              itemCount: requestItems.length,
-            }, this.tableName)
-          }
-        }
+      const result: BatchWriteResult<TItem> = {
+        unprocessedOperations: chunkOutcomes.flatMap((outcome) => outcome.unprocessedOperations),
+        chunks: chunkOutcomes.map((outcome) => outcome.chunk),
+      }
 
-        // Warn if there are still unprocessed items after max attempts
-        if (operationsToProcess.length > 0) {
-          console.warn(
-            `⚠️  BatchWrite: ${operationsToProcess.length} operations could not be processed after ${maxAttempts} attempts`
-          )
-        }
+      const unprocessedCount = result.unprocessedOperations.length
+      if (unprocessedCount > 0 && (options?.onUnprocessed ?? 'return') !== 'return') {
+        throw new BatchPartialFailureError(
+          `BatchWrite: ${unprocessedCount} operations could not be processed`,
+          'batchWrite',
+          result
+        )
       }
+
+      return result
     })
   }
 
@@ -696,6 +1052,9 @@ export class TableClient<TItem = any> {
    * 
    * @param operations - Array of transactional write operations (put, update, delete, conditionCheck)
    * @param options - Optional transaction options
+   * @throws {VersionConflictError} If a versioned operation finds a different stored version
+   * @throws {TransactionCancelledError} If DynamoDB cancels the transaction, e.g. on a failed
+   *   condition; cancellations caused only by TransactionConflict are retried
    * 
    * @example
    * ```typescript
@@ -711,159 +1070,447 @@ export class TableClient<TItem = any> {
     operations: TransactWriteOperation<TItem>[],
     options?: TransactWriteOptions
   ): Promise<void> {
-    return this.executeWithRetry(async () => {
-      const startTime = Date.now()
-
-      if (operations.length === 0) {
-        return
-      }
-
-      if (operations.length > 100) {
-        throw new Error(
-          `TransactWrite supports a maximum of 100 operations, but ${operations.length} were provided`
-        )
-      }
-
-      // Build transaction items
-      const transactItems = operations.map((op) => {
-        if (op.type === 'put') {
-          // Validate item against schema if provided
-          const validatedItem = this.validateItem(op.item)
-          const putItem: any = {
-            Put: {
-              TableName: this.tableName,
-              Item: validatedItem,
-            },
-          }
-
-          // Add condition expression if specified
-          if (op.condition) {
-            const conditionResult = this.buildConditionExpression(op.condition)
-            putItem.Put.ConditionExpression = conditionResult.expression
-            if (conditionResult.names) {
-              putItem.Put.ExpressionAttributeNames = conditionResult.names
-            }
-            if (conditionResult.values) {
-              putItem.Put.ExpressionAttributeValues = conditionResult.values
-            }
-          }
-
-          return putItem
-        }
-
-        if (op.type === 'update') {
-          // Validate updates against schema if provided
-          const validatedUpdates = this.validatePartialItem(op.updates)
-
-          const updateItem: any = {
-            Update: {
-              TableName: this.tableName,
-              Key: op.key,
-            },
-          }
-
-          // Build update expression
-          const updateResult = this.buildUpdateExpression(validatedUpdates)
-          updateItem.Update.UpdateExpression = updateResult.expression
-          updateItem.Update.ExpressionAttributeNames = updateResult.names
-          updateItem.Update.ExpressionAttributeValues = updateResult.values
-
-          // Add condition expression if specified
-          if (op.condition) {
-            const conditionResult = this.buildConditionExpression(op.condition)
-            updateItem.Update.ConditionExpression = conditionResult.expression
-
-            // Merge expression attribute names and values
-            if (conditionResult.names) {
-              updateItem.Update.ExpressionAttributeNames = {
-                ...updateItem.Update.ExpressionAttributeNames,
-                ...conditionResult.names,
-              }
-            }
-            if (conditionResult.values) {
-              updateItem.Update.ExpressionAttributeValues = {
-                ...updateItem.Update.ExpressionAttributeValues,
-                ...conditionResult.values,
-              }
-            }
-          }
-
-          return updateItem
-        }
+    return TableClient.transactWriteTables(
+      operations.map((operation) => ({ client: this, operation })),
+      options
+    )
+  }
 
-        if (op.type === 'delete') {
-          const deleteItem: any = {
-            Delete: {
-              TableName: this.tableName,
-              Key: op.key,
-            },
-          }
+  /**
+   * Execute write operations as several sequential transactions of up to 100 operations
+   * Opt-in for bulk writes: each transaction is atomic, but operations in different
+   * transactions are not. See `transactWriteTablesSplit` for how operations are grouped.
+   *
+   * @param operations - Array of transactional write operations
+   * @param options - Token seed, group size and failure handling
+   * @returns Report of which transactions committed
+   * @throws {ValidationError} If an operation is invalid or larger than 4MB on its own
+   *
+   * @example
+   * ```typescript
+   * const report = await client.transactWriteSplit(operations, { clientRequestToken: 'migration-7' })
+   * if (!report.complete) {
+   *   // Retry with the same seed: committed transactions are not applied twice
+   * }
+   * ```
+   */
+  async transactWriteSplit(
+    operations: TransactWriteOperation<TItem>[],
+    options?: SplitTransactWriteOptions
+  ): Promise<SplitTransactWriteReport> {
+    return TableClient.transactWriteTablesSplit(
+      operations.map((operation) => ({ client: this, operation })),
+      options
+    )
+  }
 
-          // Add condition expression if specified
-          if (op.condition) {
-            const conditionResult = this.buildConditionExpression(op.condition)
-            deleteItem.Delete.ConditionExpression = conditionResult.expression
-            if (conditionResult.names) {
-              deleteItem.Delete.ExpressionAttributeNames = conditionResult.names
-            }
-            if (conditionResult.values) {
-              deleteItem.Delete.ExpressionAttributeValues = conditionResult.values
-            }
-          }
+  /**
+   * Execute write operations against several tables as a single atomic transaction
+   * Each operation is validated and built by its own client (schema, key schema, optimistic
+   * locking, timestamps); the transaction is sent and retried with the first client.
+   * Use `TransactionBuilder` for a chainable interface.
+   *
+   * @param entries - Operations paired with the client of the table they write to
+   * @param options - Optional transaction options
+   * @throws {ValidationError} If there are more than 100 operations or the items exceed 4MB
+   * @throws {VersionConflictError} If a versioned operation finds a different stored version
+   * @throws {TransactionCancelledError} If DynamoDB cancels the transaction, e.g. on a failed
+   *   condition; cancellations caused only by TransactionConflict are retried
+   *
+   * @example
+   * ```typescript
+   * await TableClient.transactWriteTables([
+   *   { client: orders, operation: { type: 'put', item: order } },
+   *   {
+   *     client: inventory,
+   *     operation: {
+   *       type: 'update',
+   *       key: { pk: 'SKU#1' },
+   *       updates: new UpdateExpressionBuilder().add('stock', -1),
+   *       condition: { stock: { gte: 1 } },
+   *     },
+   *   },
+   * ])
+   * ```
+   */
+  static async transactWriteTables(
+    entries: TableTransactWriteOperation[],
+    options?: TransactWriteOptions
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return
+    }
 
-          return deleteItem
-        }
+    if (entries.length > MAX_TRANSACTION_ITEMS) {
+      throw new ValidationError(
+        `TransactWrite supports a maximum of ${MAX_TRANSACTION_ITEMS} operations, but ${entries.length} were provided`,
+        'operations',
+        entries.length,
+        `maximum ${MAX_TRANSACTION_ITEMS} operations`
+      )
+    }
 
-        // conditionCheck
-        const conditionCheckItem: any = {
-          ConditionCheck: {
-            TableName: this.tableName,
-            Key: op.key,
-          },
-        }
+    // Build transaction items once, each with the client of its table, so retries after
+    // conflicts send the same parameters with the same client request token
+    const built = entries.map(({ client, operation }) => client.buildTransactWriteItem(operation))
+    const totalSize = built.reduce(
+      (sum, { transactItem }) => sum + transactItemSize(transactItem),
+      0
+    )
+    if (totalSize > MAX_TRANSACTION_BYTES) {
+      throw new ValidationError(
+        `TransactWrite items must not exceed 4MB, but are about ${totalSize} bytes`,
+        'operations',
+        totalSize,
+        `maximum ${MAX_TRANSACTION_BYTES} bytes`
+      )
+    }
 
-        // Condition is required for conditionCheck
-        const conditionResult = this.buildConditionExpression(op.condition)
-        conditionCheckItem.ConditionCheck.ConditionExpression = conditionResult.expression
-        if (conditionResult.names) {
-          conditionCheckItem.ConditionCheck.ExpressionAttributeNames = conditionResult.names
-        }
-        if (conditionResult.values) {
-          conditionCheckItem.ConditionCheck.ExpressionAttributeValues = conditionResult.values
-        }
+    return TableClient.sendTransactWrite(entries, built, options?.clientRequestToken)
+  }
 
-        return conditionCheckItem
-      })
+  /**
+   * Send built transaction items, retrying on transaction conflicts
+   * @private
+   */
+  private static async sendTransactWrite(
+    entries: TableTransactWriteOperation[],
+    built: Array<{ transactItem: any; key: Key; versionCheck?: VersionCheck }>,
+    clientRequestToken: string | undefined
+  ): Promise<void> {
+    const sender = entries[0].client
+    return sender.executeWithRetry(async () => {
+      const startTime = Date.now()
+      const transactItems = built.map(({ transactItem }) => transactItem)
 
+      const clients = [...new Set(entries.map(({ client }) => client))]
       const params: any = {
         TransactItems: transactItems,
-        ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
+        ReturnConsumedCapacity: clients.some((client) => client.statsCollector) ? 'TOTAL' : 'NONE',
       }
 
       // Add client request token if specified (for idempotency)
-      if (options?.clientRequestToken) {
-        params.ClientRequestToken = options.clientRequestToken
+      if (clientRequestToken) {
+        params.ClientRequestToken = clientRequestToken
       }
 
       const command = new TransactWriteCommand(params)
-      const response = await this.docClient.send(command)
-
-      // Record stats
-      if (this.statsCollector) {
-        const latencyMs = Date.now() - startTime
-        const totalWCU = response.ConsumedCapacity?.reduce(
-          (sum, cc) => sum + (cc.CapacityUnits || 0),
-          0
+      let response: TransactWriteCommandOutput
+      try {
+        response = await sender.send('transactWrite', command)
+      } catch (error) {
+        TableClient.handleTransactionCancellation(error, entries, built)
+        throw error
+      } finally {
+        await Promise.all(
+          entries.map(({ client, operation }, index) =>
+            operation.type === 'conditionCheck'
+              ? undefined
+              : client.invalidateCachedItems([built[index].key])
+          )
         )
-        this.statsCollector.record({
-          operation: 'transactWrite',
+      }
+
+      // Record stats with each client, capacity going to the first client of each table
+      const latencyMs = Date.now() - startTime
+      const countedTables = new Set<string>()
+      for (const client of clients) {
+        if (!client.statsCollector) {
+          continue
+        }
+        const counted = countedTables.has(client.tableName)
+        countedTables.add(client.tableName)
+        const totalWCU = counted
+          ? 0
+          : response.ConsumedCapacity?.filter((cc) => cc.TableName === client.tableName).reduce(
+            (sum, cc) => sum + (cc.CapacityUnits || 0),
+            0
+          )
+        client.statsCollector.record({
+          operation: 'transactWrite',
           timestamp: startTime,
           latencyMs,
           wcu: totalWCU,
-          itemCount: operations.length,
-        }, this.tableName)
+          itemCount: entries.filter((entry) => entry.client === client).length,
+        }, client.tableName)
       }
-    })
+    }, isTransactionConflict)
+  }
+
+  /**
+   * Execute write operations against several tables as sequential transactions
+   * Operations are grouped in request order into transactions of at most `maxOperations`
+   * operations and 4MB of items, never writing the same item twice in one transaction.
+   * Each transaction is sent with a client request token derived from the token seed and its
+   * items, so sending the same operations again within DynamoDB's 10 minute idempotency
+   * window does not apply committed transactions twice. Managed timestamps and TTL values are
+   * taken from `timestamp`; pass the same one with the same seed when retrying.
+   *
+   * @param entries - Operations paired with the client of the table they write to
+   * @param options - Token seed, group size and failure handling
+   * @returns Report of which transactions committed
+   * @throws {ValidationError} If an operation is invalid or larger than 4MB on its own
+   */
+  static async transactWriteTablesSplit(
+    entries: TableTransactWriteOperation[],
+    options?: SplitTransactWriteOptions
+  ): Promise<SplitTransactWriteReport> {
+    const maxOperations = options?.maxOperations ?? MAX_TRANSACTION_ITEMS
+    if (
+      !Number.isInteger(maxOperations) ||
+      maxOperations < 1 ||
+      maxOperations > MAX_TRANSACTION_ITEMS
+    ) {
+      throw new ValidationError(
+        `maxOperations must be an integer between 1 and ${MAX_TRANSACTION_ITEMS}`,
+        'maxOperations',
+        maxOperations,
+        `integer between 1 and ${MAX_TRANSACTION_ITEMS}`
+      )
+    }
+
+    const timestamp = options?.timestamp ?? new Date()
+    if (!(timestamp instanceof Date) || Number.isNaN(timestamp.getTime())) {
+      throw new ValidationError(
+        'timestamp must be a valid Date',
+        'timestamp',
+        timestamp,
+        'valid Date'
+      )
+    }
+
+    // Items are built once with frozen managed values, so their tokens match what is sent
+    const built = entries.map(({ client, operation }) =>
+      client.buildTransactWriteItem(operation, timestamp)
+    )
+    const groups = TableClient.groupTransactWriteOperations(entries, built, maxOperations)
+
+    const results: TransactWriteGroupResult[] = groups.map((operationIndexes, group) => ({
+      group,
+      operationIndexes,
+      clientRequestToken: deriveRequestToken(
+        options?.clientRequestToken,
+        group,
+        operationIndexes.map((index) => built[index].transactItem)
+      ),
+      status: 'skipped',
+    }))
+
+    for (const result of results) {
+      try {
+        await TableClient.sendTransactWrite(
+          result.operationIndexes.map((index) => entries[index]),
+          result.operationIndexes.map((index) => built[index]),
+          result.clientRequestToken
+        )
+        result.status = 'committed'
+      } catch (error) {
+        result.status = 'failed'
+        result.error = error as Error
+        if (!options?.continueOnError) {
+          break
+        }
+      }
+    }
+
+    return {
+      groups: results,
+      complete: results.every((result) => result.status === 'committed'),
+    }
+  }
+
+  /**
+   * Group operations in request order into valid transactions
+   * A group is closed when it is full, would exceed 4MB or already writes the next item
+   * @private
+   */
+  private static groupTransactWriteOperations(
+    entries: TableTransactWriteOperation[],
+    built: Array<{ transactItem: any; key: Key }>,
+    maxOperations: number
+  ): number[][] {
+    const groups: number[][] = []
+    let group: number[] = []
+    let groupSize = 0
+    let groupKeys = new Set<string>()
+
+    for (const [index, { client }] of entries.entries()) {
+      const { transactItem, key } = built[index]
+      const size = transactItemSize(transactItem)
+      if (size > MAX_TRANSACTION_BYTES) {
+        throw new ValidationError(
+          `TransactWrite operation at index ${index} is about ${size} bytes, ` +
+            'more than the 4MB transaction limit',
+          'operations',
+          size,
+          `maximum ${MAX_TRANSACTION_BYTES} bytes`
+        )
+      }
+
+      const itemKey = `${client.tableName}:${serializeKey(key, Object.keys(key).sort())}`
+      if (
+        group.length === maxOperations ||
+        groupSize + size > MAX_TRANSACTION_BYTES ||
+        groupKeys.has(itemKey)
+      ) {
+        groups.push(group)
+        group = []
+        groupSize = 0
+        groupKeys = new Set()
+      }
+
+      group.push(index)
+      groupSize += size
+      groupKeys.add(itemKey)
+    }
+
+    if (group.length > 0) {
+      groups.push(group)
+    }
+    return groups
+  }
+
+  /**
+   * Build the TransactItems entry of a transactional write operation
+   * @private
+   */
+  private buildTransactWriteItem(
+    operation: TransactWriteOperation<TItem>,
+    now = new Date()
+  ): { transactItem: any; key: Key; versionCheck?: VersionCheck } {
+    if (operation.type === 'put') {
+      // Validate item against schema if provided
+      const validatedItem = this.validateItem(operation.item)
+      this.validateItemKey(validatedItem)
+      const versionCheck = this.resolveVersionCheck(this.readItemVersion(validatedItem), 'put')
+      const condition = this.withVersionCondition(operation.condition, versionCheck)
+      const putItem: any = {
+        Put: {
+          TableName: this.tableName,
+          Item: this.withManagedAttributes(validatedItem, versionCheck, undefined, now),
+        },
+      }
+
+      // Add condition expression if specified
+      if (condition) {
+        const conditionResult = this.buildConditionExpression(condition)
+        putItem.Put.ConditionExpression = conditionResult.expression
+        if (conditionResult.names) {
+          putItem.Put.ExpressionAttributeNames = conditionResult.names
+        }
+        if (conditionResult.values) {
+          putItem.Put.ExpressionAttributeValues = conditionResult.values
+        }
+      }
+
+      if (versionCheck) {
+        putItem.Put.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+      }
+
+      return { transactItem: putItem, key: this.readItemKey(validatedItem), versionCheck }
+    }
+
+    if (operation.type === 'update') {
+      const updateItem: any = {
+        Update: {
+          TableName: this.tableName,
+          Key: this.validateTableKey(operation.key),
+        },
+      }
+      const versionCheck = this.resolveVersionCheck(
+        operation.expectedVersion ?? this.readItemVersion(operation.updates),
+        'update'
+      )
+      const condition = this.withVersionCondition(operation.condition, versionCheck)
+
+      // Build update expression from updates object or builder
+      const updateResult = this.resolveManagedUpdateExpression(
+        operation.updates,
+        versionCheck,
+        undefined,
+        now
+      )
+      updateItem.Update.UpdateExpression = updateResult.expression
+      updateItem.Update.ExpressionAttributeNames = updateResult.names
+      if (updateResult.values) {
+        updateItem.Update.ExpressionAttributeValues = updateResult.values
+      }
+
+      // Add condition expression if specified
+      if (condition) {
+        const conditionResult = this.buildConditionExpression(condition)
+        updateItem.Update.ConditionExpression = conditionResult.expression
+
+        // Merge expression attribute names and values
+        if (conditionResult.names) {
+          updateItem.Update.ExpressionAttributeNames = {
+            ...updateItem.Update.ExpressionAttributeNames,
+            ...conditionResult.names,
+          }
+        }
+        if (conditionResult.values) {
+          updateItem.Update.ExpressionAttributeValues = {
+            ...updateItem.Update.ExpressionAttributeValues,
+            ...conditionResult.values,
+          }
+        }
+      }
+
+      if (versionCheck) {
+        updateItem.Update.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+      }
+
+      return { transactItem: updateItem, key: operation.key, versionCheck }
+    }
+
+    if (operation.type === 'delete') {
+      const deleteItem: any = {
+        Delete: {
+          TableName: this.tableName,
+          Key: this.validateTableKey(operation.key),
+        },
+      }
+      const versionCheck = this.resolveVersionCheck(operation.expectedVersion, 'delete')
+      const condition = this.withVersionCondition(operation.condition, versionCheck)
+
+      // Add condition expression if specified
+      if (condition) {
+        const conditionResult = this.buildConditionExpression(condition)
+        deleteItem.Delete.ConditionExpression = conditionResult.expression
+        if (conditionResult.names) {
+          deleteItem.Delete.ExpressionAttributeNames = conditionResult.names
+        }
+        if (conditionResult.values) {
+          deleteItem.Delete.ExpressionAttributeValues = conditionResult.values
+        }
+      }
+
+      if (versionCheck) {
+        deleteItem.Delete.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+      }
+
+      return { transactItem: deleteItem, key: operation.key, versionCheck }
+    }
+
+    // conditionCheck
+    const conditionCheckItem: any = {
+      ConditionCheck: {
+        TableName: this.tableName,
+        Key: this.validateTableKey(operation.key),
+      },
+    }
+
+    // Condition is required for conditionCheck
+    const conditionResult = this.buildConditionExpression(operation.condition)
+    conditionCheckItem.ConditionCheck.ConditionExpression = conditionResult.expression
+    if (conditionResult.names) {
+      conditionCheckItem.ConditionCheck.ExpressionAttributeNames = conditionResult.names
+    }
+    if (conditionResult.values) {
+      conditionCheckItem.ConditionCheck.ExpressionAttributeValues = conditionResult.values
+    }
+
+    return { transactItem: conditionCheckItem, key: operation.key }
   }
 
   /**
@@ -902,7 +1549,7 @@ export class TableClient<TItem = any> {
         const getItem: any = {
           Get: {
             TableName: this.tableName,
-            Key: key,
+            Key: this.validateTableKey(key),
           },
         }
 
@@ -924,7 +1571,7 @@ export class TableClient<TItem = any> {
       }
 
       const command = new TransactGetCommand(params)
-      const response = await this.docClient.send(command)
+      const response = await this.send('transactGet', command)
 
       // Extract items from response (maintaining order)
       const items = (response.Responses || []).map((r) => (r.Item as TItem) || null)
@@ -949,31 +1596,202 @@ export class TableClient<TItem = any> {
     })
   }
 
+  /**
+   * Execute a PartiQL statement
+   * Build the statement with the `partiql` tagged template so values are bound as `?`
+   * parameters. Items returned by SELECT statements are validated against the schema.
+   *
+   * @param statement - Statement built with `partiql`, or statement text without parameters
+   * @param options - Optional consistentRead, limit and nextToken for SELECT statements
+   * @returns Returned items and the token of the next page
+   * @throws {ConditionalCheckError} If a write statement's WHERE condition is not met
+   *
+   * @example
+   * ```typescript
+   * const { items } = await client.executeStatement(
+   *   partiql`SELECT * FROM ${partiql.identifier('users')} WHERE pk = ${'USER#1'}`
+   * )
+   * ```
+   */
+  async executeStatement(
+    statement: PartiQLStatement | string,
+    options?: ExecuteStatementOptions
+  ): Promise<ExecuteStatementResult<TItem>> {
+    const { statement: text, parameters } = toPartiQLStatement(statement)
+
+    return this.executeWithRetry(async () => {
+      const startTime = Date.now()
+
+      const params: any = {
+        Statement: text,
+        ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
+      }
+
+      if (parameters.length > 0) {
+        params.Parameters = parameters
+      }
+
+      if (options?.consistentRead) {
+        params.ConsistentRead = true
+      }
+
+      if (options?.limit !== undefined) {
+        params.Limit = options.limit
+      }
+
+      if (options?.nextToken) {
+        params.NextToken = options.nextToken
+      }
+
+      try {
+        const command = new ExecuteStatementCommand(params)
+        const response = await this.send('executeStatement', command)
+        const items = (response.Items ?? []).map((item) => this.validateItem(item as TItem))
+
+        // Record stats
+        if (this.statsCollector) {
+          const capacityUnits = response.ConsumedCapacity?.CapacityUnits
+          const isRead = isReadStatement(text)
+          this.statsCollector.record({
+            operation: 'partiql',
+            timestamp: startTime,
+            latencyMs: Date.now() - startTime,
+            rcu: isRead ? capacityUnits : undefined,
+            wcu: isRead ? undefined : capacityUnits,
+            itemCount: items.length,
+            metadata: { statementCount: 1 },
+          }, this.tableName)
+        }
+
+        return {
+          items,
+          nextToken: response.NextToken,
+          consumedCapacity: response.ConsumedCapacity,
+        }
+      } catch (error: any) {
+        this.handleDynamoDBError(error, 'executeStatement')
+      }
+    })
+  }
+
+  /**
+   * Execute up to 25 PartiQL statements in one request
+   * Statements succeed or fail individually; failures are reported per statement instead
+   * of being thrown. All statements must be reads or all must be writes.
+   *
+   * @param statements - Statements built with `partiql` (maximum 25)
+   * @param options - Optional consistentRead for SELECT statements
+   * @returns One result per statement, in the order of the statements
+   * @throws {ValidationError} If more than 25 statements are given
+   *
+   * @example
+   * ```typescript
+   * const table = partiql.identifier('orders')
+   * const results = await client.batchExecuteStatement(
+   *   orderIds.map((id) => partiql`UPDATE ${table} SET status = ${'SHIPPED'} WHERE pk = ${id}`)
+   * )
+   * const failed = results.filter((result) => result.error)
+   * ```
+   */
+  async batchExecuteStatement(
+    statements: Array<PartiQLStatement | string>,
+    options?: Pick<ExecuteStatementOptions, 'consistentRead'>
+  ): Promise<BatchStatementResult<TItem>[]> {
+    const count = statements.length
+    if (count > 25) {
+      throw new ValidationError(
+        `BatchExecuteStatement supports a maximum of 25 statements, but ${count} were provided`,
+        'statements',
+        count,
+        'maximum 25 statements'
+      )
+    }
+    if (statements.length === 0) {
+      return []
+    }
+
+    const partiQLStatements = statements.map(toPartiQLStatement)
+
+    return this.executeWithRetry(async () => {
+      const startTime = Date.now()
+
+      const params: any = {
+        Statements: partiQLStatements.map(({ statement, parameters }) => ({
+          Statement: statement,
+          ...(parameters.length > 0 && { Parameters: parameters }),
+          ...(options?.consistentRead && { ConsistentRead: true }),
+        })),
+        ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
+      }
+
+      const command = new BatchExecuteStatementCommand(params)
+      const response = await this.send('batchExecuteStatement', command)
+
+      const results = (response.Responses ?? []).map((statementResponse) => {
+        const result: BatchStatementResult<TItem> = {}
+        if (statementResponse.Error) {
+          result.error = {
+            code: statementResponse.Error.Code ?? 'Unknown',
+            message: statementResponse.Error.Message ?? '',
+          }
+        } else if (statementResponse.Item) {
+          result.item = this.validateItem(statementResponse.Item as TItem)
+        }
+        return result
+      })
+
+      // Record stats
+      if (this.statsCollector) {
+        const capacityUnits = response.ConsumedCapacity?.reduce(
+          (sum, capacity) => sum + (capacity.CapacityUnits ?? 0),
+          0
+        )
+        const isRead = isReadStatement(partiQLStatements[0].statement)
+        this.statsCollector.record({
+          operation: 'partiql',
+          timestamp: startTime,
+          latencyMs: Date.now() - startTime,
+          rcu: isRead ? capacityUnits : undefined,
+          wcu: isRead ? undefined : capacityUnits,
+          itemCount: results.filter((result) => result.item).length,
+          metadata: {
+            statementCount: partiQLStatements.length,
+            failedCount: results.filter((result) => result.error).length,
+          },
+        }, this.tableName)
+      }
+
+      return results
+    })
+  }
+
   /**
    * Query items from the table
    * @param params - Query parameters including key condition, filter, index, etc.
    * @returns Query result with items, count, and pagination info
    */
-  async query(params: QueryParams): Promise<QueryResult<TItem>> {
+  async query(params: QueryParams<TItem>): Promise<QueryResult<TItem>> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
 
       const queryParams: any = {
         TableName: this.tableName,
-        ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
+        ReturnConsumedCapacity:
+          this.statsCollector || params.returnConsumedCapacity ? 'TOTAL' : 'NONE',
       }
 
-      // Build key condition expression
-      const keyConditionBuilder = new KeyConditionBuilder()
+      // Build key condition expression using the key schema of the queried table or index
+      const keyConditionBuilder = new KeyConditionBuilder(this.getQueryKeySchema(params.index))
       const keyConditionResult = keyConditionBuilder.build(params.keyCondition)
       queryParams.KeyConditionExpression = keyConditionResult.expression
       queryParams.ExpressionAttributeNames = keyConditionResult.attributeNames
       queryParams.ExpressionAttributeValues = keyConditionResult.attributeValues
 
-      // Build filter expression if provided
-      if (params.filter) {
+      // Build filter expression if provided (expired items are filtered out when TTL is configured)
+      const filter = this.withExpiryFilter(params.filter)
+      if (filter) {
         const filterBuilder = new FilterExpressionBuilder()
-        const filterResult = filterBuilder.build(params.filter)
+        const filterResult = filterBuilder.build(filter)
         queryParams.FilterExpression = filterResult.expression
 
         // Merge expression attribute names and values
@@ -1004,6 +1822,7 @@ export class TableClient<TItem = any> {
 
       // Add exclusive start key for pagination
       if (params.exclusiveStartKey) {
+        this.validateCursor(params.exclusiveStartKey)
         queryParams.ExclusiveStartKey = params.exclusiveStartKey
       }
 
@@ -1025,7 +1844,7 @@ export class TableClient<TItem = any> {
       }
 
       const command = new QueryCommand(queryParams)
-      const response = await this.docClient.send(command)
+      const response = await this.send('query', command)
 
       // Record stats
       if (this.statsCollector) {
@@ -1064,7 +1883,7 @@ export class TableClient<TItem = any> {
    * @param params - Scan parameters including filter, index, etc.
    * @returns Scan result with items, count, and pagination info
    */
-  async scan(params?: ScanParams): Promise<ScanResult<TItem>> {
+  async scan(params?: ScanParams<TItem>): Promise<ScanResult<TItem>> {
     return this.executeWithRetry(async () => {
       const startTime = Date.now()
 
@@ -1076,13 +1895,15 @@ export class TableClient<TItem = any> {
 
       const scanParams: any = {
         TableName: this.tableName,
-        ReturnConsumedCapacity: this.statsCollector ? 'TOTAL' : 'NONE',
+        ReturnConsumedCapacity:
+          this.statsCollector || params?.returnConsumedCapacity ? 'TOTAL' : 'NONE',
       }
 
-      // Build filter expression if provided
-      if (params?.filter) {
+      // Build filter expression if provided (expired items are filtered out when TTL is configured)
+      const filter = this.withExpiryFilter(params?.filter)
+      if (filter) {
         const filterBuilder = new FilterExpressionBuilder()
-        const filterResult = filterBuilder.build(params.filter)
+        const filterResult = filterBuilder.build(filter)
         scanParams.FilterExpression = filterResult.expression
         scanParams.ExpressionAttributeNames = filterResult.attributeNames
         scanParams.ExpressionAttributeValues = filterResult.attributeValues
@@ -1100,6 +1921,7 @@ export class TableClient<TItem = any> {
 
       // Add exclusive start key for pagination
       if (params?.exclusiveStartKey) {
+        this.validateCursor(params.exclusiveStartKey)
         scanParams.ExclusiveStartKey = params.exclusiveStartKey
       }
 
@@ -1108,6 +1930,12 @@ export class TableClient<TItem = any> {
         scanParams.ConsistentRead = true
       }
 
+      // Add segment if specified (for parallel scans)
+      if (params?.totalSegments !== undefined) {
+        scanParams.Segment = params.segment ?? 0
+        scanParams.TotalSegments = params.totalSegments
+      }
+
       // Add projection expression if specified
       if (params?.projectionExpression && params.projectionExpression.length > 0) {
         const projection = this.buildProjectionExpression(params.projectionExpression)
@@ -1121,7 +1949,7 @@ export class TableClient<TItem = any> {
       }
 
       const command = new ScanCommand(scanParams)
-      const response = await this.docClient.send(command)
+      const response = await this.send('scan', command)
 
       // Record stats
       if (this.statsCollector) {
@@ -1137,6 +1965,8 @@ export class TableClient<TItem = any> {
           metadata: {
             usedProjection: params?.projectionExpression && params.projectionExpression.length > 0,
             projectedAttributeCount: params?.projectionExpression?.length,
+            segment: scanParams.Segment,
+            totalSegments: scanParams.TotalSegments,
           },
         }
         this.statsCollector.record(stats, this.tableName)
@@ -1166,7 +1996,7 @@ export class TableClient<TItem = any> {
    * }
    * ```
    */
-  async * queryPaginated(params: QueryParams): AsyncIterableIterator<TItem> {
+  async * queryPaginated(params: QueryParams<TItem>): AsyncIterableIterator<TItem> {
     let lastEvaluatedKey: Key | undefined = params.exclusiveStartKey
 
     do {
@@ -1184,102 +2014,485 @@ export class TableClient<TItem = any> {
   }
 
   /**
-   * Scan items with automatic pagination using async iteration
-   * This allows processing large result sets without loading everything into memory
-   * WARNING: Scan operations are expensive. Consider using queryPaginated with an index instead.
-   * 
-   * @param params - Scan parameters
-   * @returns AsyncIterableIterator that yields items one at a time
-   * 
+   * Query all matching items, paging through filtered results within an optional budget
+   * DynamoDB applies `Limit` before the filter, so a single page can hold few or no matches;
+   * this keeps fetching pages until the query is exhausted or `maxScanned`/`maxRCU` is reached.
+   *
+   * @param params - Query parameters with page size and budget
+   * @returns Matching items, the key to resume from and the consumed budget
+   *
    * @example
    * ```typescript
-   * for await (const item of client.scanPaginated({ filter: { status: 'ACTIVE' } })) {
-   *   console.log(item)
-   * }
+   * const { items, lastEvaluatedKey } = await client.queryAll({
+   *   keyCondition: { pk: 'USER#123' },
+   *   filter: { status: 'OPEN' },
+   *   maxRCU: 50,
+   * })
    * ```
    */
-  async * scanPaginated(params?: ScanParams): AsyncIterableIterator<TItem> {
-    let lastEvaluatedKey: Key | undefined = params?.exclusiveStartKey
-
-    do {
-      const result = await this.scan({
-        ...params,
-        exclusiveStartKey: lastEvaluatedKey,
-      })
-
-      for (const item of result.items) {
-        yield item
-      }
-
-      lastEvaluatedKey = result.lastEvaluatedKey
-    } while (lastEvaluatedKey)
+  async queryAll(params: QueryAllParams<TItem>): Promise<QueryAllResult<TItem>> {
+    return this.queryWithinBudget(params, undefined)
   }
 
   /**
-   * Execute a named access pattern with type-safe pattern names and parameters
-   * @param patternName - Name of the access pattern to execute (type-checked against defined patterns)
-   * @param params - Parameters for the access pattern (type-checked against pattern definition)
-   * @returns Array of items matching the pattern
-   * 
+   * Query until `maxItems` matching items are found, paging through filtered results
+   * Stops early when the query is exhausted or `maxScanned`/`maxRCU` is reached. The returned
+   * lastEvaluatedKey resumes right after the last returned item, even when it was taken from
+   * the middle of a page. Index queries require the index key schema in `indexKeySchemas`.
+   *
+   * @param params - Query parameters with the number of matches to collect and a budget
+   * @returns Up to `maxItems` matching items, the key to resume from and the consumed budget
+   *
    * @example
    * ```typescript
-   * const orders = await client.executePattern('getUserOrders', { userId: '123' })
+   * const page = await client.queryUntil({
+   *   keyCondition: { pk: 'USER#123' },
+   *   filter: { status: 'OPEN' },
+   *   maxItems: 20,
+   *   maxScanned: 1000,
+   * })
+   * // Next page: exclusiveStartKey: page.lastEvaluatedKey
    * ```
    */
-  async executePattern<
-    TPatternName extends keyof NonNullable<TableClientConfig<TItem>['accessPatterns']>,
-    TParams = NonNullable<TableClientConfig<TItem>['accessPatterns']>[TPatternName] extends AccessPatternDefinition<TItem, infer P, any> ? P : never,
-    TResult = NonNullable<TableClientConfig<TItem>['accessPatterns']>[TPatternName] extends AccessPatternDefinition<TItem, any, infer R> ? R : TItem
-  >(
-    patternName: TPatternName,
-    params: TParams
-  ): Promise<TResult[]> {
-    const startTime = Date.now()
-
-    // Check if access patterns are defined
-    if (!this.accessPatterns) {
-      throw new Error(
-        `Access patterns not configured. Please provide accessPatterns in TableClientConfig.`
+  async queryUntil(params: QueryUntilParams<TItem>): Promise<QueryAllResult<TItem>> {
+    const { maxItems, ...queryParams } = params
+    if (!Number.isInteger(maxItems) || maxItems < 1) {
+      throw new ValidationError(
+        'maxItems must be a positive integer',
+        'maxItems',
+        maxItems,
+        'positive integer'
       )
     }
-
-    // Look up the pattern definition
-    const pattern = this.accessPatterns[patternName]
-    if (!pattern) {
-      const availablePatterns = Object.keys(this.accessPatterns).join(', ')
-      throw new Error(
-        `Access pattern '${patternName}' not found. Available patterns: ${availablePatterns}`
+    // A resume key taken from the middle of a page needs the key attributes of the index
+    if (queryParams.index && !this.indexKeySchemas[queryParams.index]) {
+      throw new ValidationError(
+        `queryUntil on index '${queryParams.index}' requires its key schema in indexKeySchemas`,
+        'index',
+        queryParams.index,
+        'index with a configured key schema'
       )
     }
+    return this.queryWithinBudget(queryParams, maxItems)
+  }
 
-    // Execute the keyCondition function to get the key condition
-    const keyCondition = pattern.keyCondition(params)
+  /**
+   * Count items with `Select: COUNT`, without fetching them
+   * Queries when a key condition is given and scans otherwise, following pagination until
+   * every item is counted. Counting queries are recorded as 'count' operations in the stats,
+   * so they are not mistaken for queries returning no items; counting scans are recorded as
+   * scans, so the scan detectors and recommendations still see them.
+   *
+   * @param params - Key condition, filter and index to count
+   * @returns Matching and evaluated item counts and the consumed capacity
+   *
+   * @example
+   * ```typescript
+   * const { count } = await client.count({
+   *   keyCondition: { pk: 'USER#123', sk: { beginsWith: 'ORDER#' } },
+   *   filter: { status: 'OPEN' },
+   * })
+   * ```
+   */
+  async count(params: CountParams<TItem> = {}): Promise<CountResult> {
+    const source = params.keyCondition ? 'query' : 'scan'
 
-    // Validate multi-attribute keys against GSI configuration if provided
-    if (pattern.gsiConfig) {
-      this.validateMultiAttributeKeysAgainstConfig(keyCondition, pattern.gsiConfig)
+    const input: any = {
+      TableName: this.tableName,
+      Select: 'COUNT',
+      ReturnConsumedCapacity: 'TOTAL',
     }
 
-    // Build query parameters
-    const queryParams: QueryParams = {
-      keyCondition,
+    // Build key condition expression using the key schema of the queried table or index
+    if (params.keyCondition) {
+      const keyConditionBuilder = new KeyConditionBuilder(this.getQueryKeySchema(params.index))
+      const keyConditionResult = keyConditionBuilder.build(params.keyCondition)
+      input.KeyConditionExpression = keyConditionResult.expression
+      input.ExpressionAttributeNames = keyConditionResult.attributeNames
+      input.ExpressionAttributeValues = keyConditionResult.attributeValues
     }
 
-    // Add index if specified
-    if (pattern.index) {
-      queryParams.index = pattern.index
+    // Build filter expression if provided (expired items are filtered out when TTL is configured)
+    const filter = this.withExpiryFilter(params.filter)
+    if (filter) {
+      const filterResult = new FilterExpressionBuilder().build(filter)
+      input.FilterExpression = filterResult.expression
+      input.ExpressionAttributeNames = {
+        ...input.ExpressionAttributeNames,
+        ...filterResult.attributeNames,
+      }
+      input.ExpressionAttributeValues = {
+        ...input.ExpressionAttributeValues,
+        ...filterResult.attributeValues,
+      }
     }
 
-    // Add filter if specified
-    if (pattern.filter) {
-      queryParams.filter = pattern.filter(params)
+    if (params.index) {
+      input.IndexName = params.index
     }
 
-    // Execute the query (this will record its own stats)
-    const result = await this.query(queryParams)
+    if (params.consistentRead) {
+      input.ConsistentRead = true
+    }
 
-    // Record additional stats for the access pattern
-    if (this.statsCollector) {
+    const result: CountResult = { count: 0, scannedCount: 0, pages: 0, consumedRCU: 0 }
+    let lastEvaluatedKey = params.exclusiveStartKey
+    if (lastEvaluatedKey) {
+      this.validateCursor(lastEvaluatedKey)
+    }
+
+    do {
+      const pageInput = { ...input, ExclusiveStartKey: lastEvaluatedKey }
+      const page = await this.executeWithRetry(async () => {
+        const startTime = Date.now()
+        const command =
+          source === 'query' ? new QueryCommand(pageInput) : new ScanCommand(pageInput)
+        const response = await this.send(source, command)
+
+        // Counting scans still read the whole table, so they are recorded as scans for the
+        // scan detectors; counting queries are kept apart from queries returning nothing
+        if (this.statsCollector) {
+          // Select COUNT reads no attributes, so the page counts as projected
+          const stats: OperationRecord = {
+            operation: source === 'scan' ? 'scan' : 'count',
+            timestamp: startTime,
+            latencyMs: Date.now() - startTime,
+            rcu: response.ConsumedCapacity?.CapacityUnits,
+            itemCount: response.Count || 0,
+            scannedCount: response.ScannedCount || 0,
+            indexName: params.index,
+            usedProjection: true,
+            metadata: { source, select: 'COUNT' },
+          }
+          this.statsCollector.record(stats, this.tableName)
+        }
+
+        return response
+      })
+
+      result.pages++
+      result.count += page.Count || 0
+      result.scannedCount += page.ScannedCount || 0
+      result.consumedRCU += page.ConsumedCapacity?.CapacityUnits ?? 0
+      lastEvaluatedKey = page.LastEvaluatedKey as Key | undefined
+    } while (lastEvaluatedKey)
+
+    return result
+  }
+
+  /**
+   * Query page by page, with opaque cursors instead of raw keys
+   * Each page holds the items of one DynamoDB request (`limit` sets the page size) and the
+   * cursor of the next page. Cursors are bound to the query parameters and signed when a
+   * `cursorSecret` is given, so they can be handed to API clients.
+   *
+   * @param params - Query parameters, with the cursor of the page to start from
+   * @returns AsyncIterableIterator that yields pages until the query is exhausted
+   * @throws {InvalidCursorError} If the cursor is malformed, tampered with or from another query
+   *
+   * @example
+   * ```typescript
+   * const pages = client.queryPages({ keyCondition: { pk }, limit: 20, cursor, cursorSecret })
+   * const { value: page } = await pages.next()
+   * return { items: page.items, next: page.cursor }
+   * ```
+   */
+  async * queryPages(params: QueryPagesParams<TItem>): AsyncIterableIterator<Page<TItem>> {
+    const { cursor, cursorSecret, ...queryParams } = params
+    const cursorOptions = {
+      secret: cursorSecret,
+      bindTo: {
+        table: this.tableName,
+        index: queryParams.index,
+        keyCondition: queryParams.keyCondition,
+        filter: queryParams.filter,
+        scanIndexForward: queryParams.scanIndexForward,
+        projectionExpression: queryParams.projectionExpression,
+      },
+    }
+    let lastEvaluatedKey = cursor ? decodeCursor(cursor, cursorOptions) : undefined
+
+    do {
+      const result = await this.query({ ...queryParams, exclusiveStartKey: lastEvaluatedKey })
+      lastEvaluatedKey = result.lastEvaluatedKey
+
+      yield {
+        items: result.items,
+        cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey, cursorOptions) : undefined,
+      }
+    } while (lastEvaluatedKey)
+  }
+
+  /**
+   * Query an item collection holding several entity types and group the items by type
+   * Follows pagination until the collection is complete and validates each item
+   * with the schema registered for its discriminator value
+   *
+   * @param params - Collection query parameters
+   * @returns Validated items per discriminator value
+   *
+   * @example
+   * ```typescript
+   * const { org, users, invoices } = await client.queryCollection({
+   *   keyCondition: { pk: 'ORG#1' },
+   *   entities: { org: orgSchema, users: userSchema, invoices: invoiceSchema },
+   * })
+   * ```
+   */
+  async queryCollection<TSchemas extends CollectionSchemas>(
+    params: CollectionQueryParams<TSchemas>
+  ): Promise<CollectionResult<TSchemas>> {
+    const typeAttribute = params.typeAttribute ?? 'entityType'
+    const entityTypes = Object.keys(params.entities)
+    if (entityTypes.length === 0) {
+      throw new ValidationError(
+        'Collection query requires at least one entity type',
+        'entities',
+        params.entities,
+        'required'
+      )
+    }
+
+    const collection: Record<string, any[]> = {}
+    for (const entityType of entityTypes) {
+      collection[entityType] = []
+    }
+
+    const items = this.queryPaginated({
+      keyCondition: params.keyCondition,
+      index: params.index,
+      filter: untyped({ ...params.filter, [typeAttribute]: { in: entityTypes } }),
+      scanIndexForward: params.scanIndexForward,
+      consistentRead: params.consistentRead,
+    })
+
+    for await (const item of items) {
+      const entityType = (item as Record<string, any>)[typeAttribute]
+      if (!entityTypes.includes(entityType)) {
+        continue
+      }
+      collection[entityType].push(params.entities[entityType].parse(item))
+    }
+
+    return collection as CollectionResult<TSchemas>
+  }
+
+  /**
+   * Scan items with automatic pagination using async iteration
+   * This allows processing large result sets without loading everything into memory
+   * WARNING: Scan operations are expensive. Consider using queryPaginated with an index instead.
+   * 
+   * @param params - Scan parameters
+   * @returns AsyncIterableIterator that yields items one at a time
+   * 
+   * @example
+   * ```typescript
+   * for await (const item of client.scanPaginated({ filter: { status: 'ACTIVE' } })) {
+   *   console.log(item)
+   * }
+   * ```
+   */
+  async * scanPaginated(params?: ScanParams<TItem>): AsyncIterableIterator<TItem> {
+    let lastEvaluatedKey: Key | undefined = params?.exclusiveStartKey
+
+    do {
+      const result = await this.scan({
+        ...params,
+        exclusiveStartKey: lastEvaluatedKey,
+      })
+
+      for (const item of result.items) {
+        yield item
+      }
+
+      lastEvaluatedKey = result.lastEvaluatedKey
+    } while (lastEvaluatedKey)
+  }
+
+  /**
+   * Scan page by page, with opaque cursors instead of raw keys
+   * Works like queryPages; cursors are bound to the scan parameters.
+   * WARNING: Scan operations are expensive. Consider using queryPages with an index instead.
+   *
+   * @param params - Scan parameters, with the cursor of the page to start from
+   * @returns AsyncIterableIterator that yields pages until the scan is exhausted
+   * @throws {InvalidCursorError} If the cursor is malformed, tampered with or from another scan
+   */
+  async * scanPages(params?: ScanPagesParams<TItem>): AsyncIterableIterator<Page<TItem>> {
+    const { cursor, cursorSecret, ...scanParams } = params ?? {}
+    const cursorOptions = {
+      secret: cursorSecret,
+      bindTo: {
+        table: this.tableName,
+        index: scanParams.index,
+        filter: scanParams.filter,
+        projectionExpression: scanParams.projectionExpression,
+        segment: scanParams.segment,
+        totalSegments: scanParams.totalSegments,
+      },
+    }
+    let lastEvaluatedKey = cursor ? decodeCursor(cursor, cursorOptions) : undefined
+
+    do {
+      const result = await this.scan({ ...scanParams, exclusiveStartKey: lastEvaluatedKey })
+      lastEvaluatedKey = result.lastEvaluatedKey
+
+      yield {
+        items: result.items,
+        cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey, cursorOptions) : undefined,
+      }
+    } while (lastEvaluatedKey)
+  }
+
+  /**
+   * Scan the table in parallel segments using async iteration
+   * Runs up to `concurrency` segments at a time and yields their pages as they arrive.
+   * Each page carries the cursors of all segments, which can be passed back as `cursors`
+   * to resume the scan after the last processed page.
+   * WARNING: Scan operations are expensive. Consider using queryPaginated with an index instead.
+   *
+   * @param params - Parallel scan parameters
+   * @returns AsyncIterableIterator that yields pages from all segments
+   *
+   * @example
+   * ```typescript
+   * for await (const page of client.parallelScan({ totalSegments: 8, concurrency: 4 })) {
+   *   await exportItems(page.items)
+   *   await saveCheckpoint(page.cursors)
+   * }
+   * ```
+   */
+  async * parallelScan(
+    params: ParallelScanParams<TItem>
+  ): AsyncIterableIterator<ParallelScanPage<TItem>> {
+    const { totalSegments, concurrency, cursors: resumeCursors, ...scanParams } = params
+    const cursors = this.resolveSegmentCursors(totalSegments, resumeCursors)
+    const limit = concurrency === undefined ? totalSegments : this.validateConcurrency(concurrency)
+
+    const pending = cursors.filter((cursor) => !cursor.done).map((cursor) => cursor.segment)
+    const running = new Map<number, Promise<{ segment: number; result: ScanResult<TItem> }>>()
+
+    const scanSegment = (segment: number) => {
+      const page = this.scan({
+        ...scanParams,
+        segment,
+        totalSegments,
+        exclusiveStartKey: cursors[segment].exclusiveStartKey,
+      }).then((result) => ({ segment, result }))
+      running.set(segment, page)
+    }
+
+    while (running.size < limit && pending.length > 0) {
+      scanSegment(pending.shift() as number)
+    }
+
+    try {
+      while (running.size > 0) {
+        const { segment, result } = await Promise.race(running.values())
+        running.delete(segment)
+
+        // Keep the slot for the segment until it is done, then move on to the next one
+        const done = !result.lastEvaluatedKey
+        cursors[segment] = { segment, exclusiveStartKey: result.lastEvaluatedKey, done }
+        if (!done) {
+          scanSegment(segment)
+        } else if (pending.length > 0) {
+          scanSegment(pending.shift() as number)
+        }
+
+        yield {
+          segment,
+          items: result.items,
+          count: result.count,
+          scannedCount: result.scannedCount,
+          consumedCapacity: result.consumedCapacity,
+          cursors: cursors.map((cursor) => ({ ...cursor })),
+        }
+      }
+    } finally {
+      // Pages still in flight after an error or an early exit are discarded
+      for (const page of running.values()) {
+        page.catch(() => undefined)
+      }
+    }
+  }
+
+  /**
+   * Execute a named access pattern with type-safe pattern names and parameters
+   * @param patternName - Name of the access pattern to execute (type-checked against defined patterns)
+   * @param params - Parameters for the access pattern (type-checked against pattern definition)
+   * @returns Array of items matching the pattern
+   * 
+   * @example
+   * ```typescript
+   * const orders = await client.executePattern('getUserOrders', { userId: '123' })
+   * ```
+   */
+  async executePattern<
+    TPatternName extends keyof NonNullable<TableClientConfig<TItem>['accessPatterns']>,
+    TParams = NonNullable<TableClientConfig<TItem>['accessPatterns']>[TPatternName] extends AccessPatternDefinition<TItem, infer P, any> ? P : never,
+    TResult = NonNullable<TableClientConfig<TItem>['accessPatterns']>[TPatternName] extends AccessPatternDefinition<TItem, any, infer R> ? R : TItem
+  >(
+    patternName: TPatternName,
+    params: TParams
+  ): Promise<TResult[]> {
+    const startTime = Date.now()
+
+    // Check if access patterns are defined
+    if (!this.accessPatterns) {
+      throw new Error(
+        `Access patterns not configured. Please provide accessPatterns in TableClientConfig.`
+      )
+    }
+
+    // Look up the pattern definition
+    const pattern = this.accessPatterns[patternName]
+    if (!pattern) {
+      const availablePatterns = Object.keys(this.accessPatterns).join(', ')
+      throw new Error(
+        `Access pattern '${patternName}' not found. Available patterns: ${availablePatterns}`
+      )
+    }
+
+    // Serve cached results of cached patterns
+    const cache = this.cache?.cachesPattern(String(patternName)) ? this.cache : undefined
+    if (cache) {
+      const cached = await cache.getPattern<TResult>(String(patternName), params)
+      this.statsCollector?.recordCacheLookup('executePattern', cached !== undefined)
+      if (cached) {
+        return cached
+      }
+    }
+    const generation = cache?.generation ?? 0
+
+    // Execute the keyCondition function to get the key condition
+    const keyCondition = pattern.keyCondition(params)
+
+    // Validate multi-attribute keys against GSI configuration if provided
+    if (pattern.gsiConfig) {
+      this.validateMultiAttributeKeysAgainstConfig(keyCondition, pattern.gsiConfig)
+    }
+
+    // Build query parameters
+    const queryParams: QueryParams<TItem> = {
+      keyCondition,
+    }
+
+    // Add index if specified
+    if (pattern.index) {
+      queryParams.index = pattern.index
+    }
+
+    // Add filter if specified
+    if (pattern.filter) {
+      queryParams.filter = untyped(pattern.filter(params))
+    }
+
+    // Execute the query (this will record its own stats)
+    const result = await this.query(queryParams)
+
+    // Record additional stats for the access pattern
+    if (this.statsCollector) {
       const latencyMs = Date.now() - startTime
       const stats: OperationRecord = {
         operation: 'query',
@@ -1295,11 +2508,12 @@ export class TableClient<TItem = any> {
     }
 
     // Apply transform if specified
-    if (pattern.transform) {
-      return pattern.transform(result.items) as unknown as TResult[]
-    }
+    const results = pattern.transform
+      ? (pattern.transform(result.items) as unknown as TResult[])
+      : (result.items as unknown as TResult[])
 
-    return result.items as unknown as TResult[]
+    await cache?.setPattern(String(patternName), params, results, generation)
+    return results
   }
 
   /**
@@ -1371,6 +2585,31 @@ export class TableClient<TItem = any> {
     }
   }
 
+  /**
+   * Resolve update input into an update expression
+   * Partial items are validated against the schema; builders are used as-is
+   * @private
+   */
+  private resolveUpdateExpression(updates: Partial<TItem> | UpdateExpressionBuilder): {
+    expression: string
+    names: Record<string, string>
+    values?: Record<string, any>
+  } {
+    if (isUpdateExpressionBuilder(updates)) {
+      const result = updates.build()
+      return {
+        expression: result.expression,
+        names: result.attributeNames,
+        // REMOVE-only expressions have no values, and DynamoDB rejects an empty map
+        values: Object.keys(result.attributeValues).length > 0 ? result.attributeValues : undefined,
+      }
+    }
+
+    // Validate updates against schema if provided
+    const validatedUpdates = this.validatePartialItem(updates)
+    return this.buildUpdateExpression(validatedUpdates)
+  }
+
   /**
    * Build an update expression from a partial item
    * @private
@@ -1408,10 +2647,10 @@ export class TableClient<TItem = any> {
   }
 
   /**
-   * Build a condition expression from a ConditionExpression object
+   * Build a condition expression from a (typed or untyped) condition object
    * @private
    */
-  private buildConditionExpression(condition: ConditionExpression): {
+  private buildConditionExpression(condition: TypedConditionExpression<TItem>): {
     expression: string
     names?: Record<string, string>
     values?: Record<string, any>
@@ -1447,11 +2686,776 @@ export class TableClient<TItem = any> {
     }
   }
 
+  /**
+   * Get one chunk of a batch get, retrying its unprocessed keys
+   * @private
+   */
+  private async processBatchGetChunk(
+    chunk: Key[],
+    index: number,
+    startTime: number,
+    options?: BatchGetOptions
+  ): Promise<{ items: TItem[]; unprocessedKeys: Key[]; chunk: BatchChunkResult }> {
+    const chunkResult: BatchChunkResult = { chunk: index, attempts: 0, consumedCapacity: 0 }
+    const chunkItems: TItem[] = []
+    let keysToProcess = chunk
+
+    while (keysToProcess.length > 0) {
+      // Back off before retrying unprocessed keys, until the retry policy gives up
+      if (chunkResult.attempts > 0) {
+        const retry = await this.waitForBatchRetry(chunkResult.attempts, startTime, options)
+        if (!retry) {
+          break
+        }
+      }
+      chunkResult.attempts++
+
+      const params: any = {
+        RequestItems: {
+          [this.tableName]: {
+            Keys: keysToProcess,
+          },
+        },
+        ReturnConsumedCapacity: 'TOTAL',
+      }
+
+      // Add consistent read if specified
+      if (options?.consistentRead) {
+        params.RequestItems[this.tableName].ConsistentRead = true
+      }
+
+      // Add projection expression if specified
+      if (options?.projectionExpression && options.projectionExpression.length > 0) {
+        const projection = this.buildProjectionExpression(options.projectionExpression)
+        params.RequestItems[this.tableName].ProjectionExpression = projection.expression
+        if (projection.names) {
+          params.RequestItems[this.tableName].ExpressionAttributeNames = projection.names
+        }
+      }
+
+      const command = new BatchGetCommand(params)
+      const response = await this.send('batchGet', command)
+
+      // Collect items from response
+      const items = response.Responses?.[this.tableName] || []
+      chunkItems.push(...(items as TItem[]))
+
+      // Continue with unprocessed keys
+      keysToProcess = (response.UnprocessedKeys?.[this.tableName]?.Keys as Key[]) ?? []
+
+      const capacityUnits = response.ConsumedCapacity?.find(
+        (cc) => cc.TableName === this.tableName
+      )?.CapacityUnits
+      chunkResult.consumedCapacity += capacityUnits ?? 0
+
+      // Record stats for this batch
+      if (this.statsCollector) {
+        this.statsCollector.record({
+          operation: 'batchGet',
+          timestamp: startTime,
+          latencyMs: Date.now() - startTime,
+          rcu: capacityUnits,
+          itemCount: items.length,
+        }, this.tableName)
+      }
+    }
+
+    return { items: chunkItems, unprocessedKeys: keysToProcess, chunk: chunkResult }
+  }
+
+  /**
+   * Write one chunk of a batch write, retrying its unprocessed operations
+   * @private
+   */
+  private async processBatchWriteChunk(
+    chunk: BatchWriteOperation<TItem>[],
+    index: number,
+    startTime: number,
+    options?: BatchWriteOptions
+  ): Promise<{ unprocessedOperations: BatchWriteOperation<TItem>[]; chunk: BatchChunkResult }> {
+    const chunkResult: BatchChunkResult = { chunk: index, attempts: 0, consumedCapacity: 0 }
+    // Request items are built once, so retries resend them unchanged and unprocessed requests
+    // map back to the operations the caller submitted
+    let pending = chunk.map((operation) => {
+      if (operation.type === 'put') {
+        // Validate item against schema if provided
+        const validatedItem = this.validateItem(operation.item)
+        this.validateItemKey(validatedItem)
+        const item = this.withManagedAttributes(validatedItem, undefined)
+        return { operation, key: this.readItemKey(item), request: { PutRequest: { Item: item } } }
+      }
+      const key = this.validateTableKey(operation.key)
+      return { operation, key: this.readItemKey(key), request: { DeleteRequest: { Key: key } } }
+    })
+
+    while (pending.length > 0) {
+      // Back off before retrying unprocessed items, until the retry policy gives up
+      if (chunkResult.attempts > 0) {
+        const retry = await this.waitForBatchRetry(chunkResult.attempts, startTime, options)
+        if (!retry) {
+          break
+        }
+      }
+      chunkResult.attempts++
+
+      const requestItems = pending.map((entry) => entry.request)
+
+      const params: any = {
+        RequestItems: {
+          [this.tableName]: requestItems,
+        },
+        ReturnConsumedCapacity: 'TOTAL',
+      }
+
+      const command = new BatchWriteCommand(params)
+      let response: BatchWriteCommandOutput
+      try {
+        response = await this.send('batchWrite', command)
+      } finally {
+        await this.invalidateCachedItems(pending.map((entry) => entry.key))
+      }
+
+      // Keep the entries whose requests came back unprocessed
+      const unprocessedKeys = new Set(
+        (response.UnprocessedItems?.[this.tableName] ?? []).map((item) =>
+          canonicalJson(
+            this.readItemKey((item.PutRequest?.Item ?? item.DeleteRequest?.Key) as Key)
+          )
+        )
+      )
+      pending = pending.filter((entry) => unprocessedKeys.has(canonicalJson(entry.key)))
+
+      const capacityUnits = response.ConsumedCapacity?.find(
+        (cc) => cc.TableName === this.tableName
+      )?.CapacityUnits
+      chunkResult.consumedCapacity += capacityUnits ?? 0
+
+      // Record stats for this batch
+      if (this.statsCollector) {
+        this.statsCollector.record({
+          operation: 'batchWrite',
+          timestamp: startTime,
+          latencyMs: Date.now() - startTime,
+          wcu: capacityUnits,
+          itemCount: requestItems.length,
+        }, this.tableName)
+      }
+    }
+
+    return {
+      unprocessedOperations: pending.map((entry) => entry.operation),
+      chunk: chunkResult,
+    }
+  }
+
+  /**
+   * Order batch get items like the requested keys
+   * Items whose key attributes were not projected keep their response order, at the end
+   * @private
+   */
+  private orderByKeys(items: TItem[], keys: Key[]): TItem[] {
+    if (items.length < 2) {
+      return items
+    }
+
+    const keyAttributes = this.keySchema
+      ? getKeyAttributeNames(this.keySchema)
+      : Object.keys(keys[0])
+    const positions = new Map<string, number>()
+    for (const [index, key] of keys.entries()) {
+      positions.set(serializeKey(key, keyAttributes), index)
+    }
+
+    const ordered: TItem[] = new Array(keys.length)
+    const unmatched: TItem[] = []
+    for (const item of items) {
+      const position = positions.get(serializeKey(item as Record<string, any>, keyAttributes))
+      if (position === undefined) {
+        unmatched.push(item)
+      } else {
+        ordered[position] = item
+      }
+    }
+
+    return [...ordered.filter((item) => item !== undefined), ...unmatched]
+  }
+
+  /**
+   * Page through a query until it is exhausted, `maxItems` matches are found or the
+   * scanned/RCU budget is used up
+   * @private
+   */
+  private async queryWithinBudget(
+    params: QueryAllParams<TItem>,
+    maxItems: number | undefined
+  ): Promise<QueryAllResult<TItem>> {
+    const { pageSize, maxScanned, maxRCU, ...queryParams } = params
+    for (const [field, value] of Object.entries({ pageSize, maxScanned, maxRCU })) {
+      if (value !== undefined && !(value > 0)) {
+        throw new ValidationError(`${field} must be positive`, field, value, 'positive number')
+      }
+    }
+
+    // Key attributes are always projected so a resume key can be built from any item, and
+    // removed again from the returned items when the caller did not project them
+    const keyAttributes = [
+      ...new Set([
+        ...getKeyAttributeNames(this.getKeySchema()),
+        ...getKeyAttributeNames(this.getQueryKeySchema(queryParams.index)),
+      ]),
+    ]
+    const requested = queryParams.projectionExpression?.length
+      ? queryParams.projectionExpression
+      : undefined
+    const projectionExpression = requested && [...new Set([...requested, ...keyAttributes])]
+    const addedAttributes = requested
+      ? keyAttributes.filter((attribute) => !requested.includes(attribute))
+      : []
+    const withoutAddedAttributes = (item: TItem): TItem => {
+      if (addedAttributes.length === 0) {
+        return item
+      }
+      const stripped = { ...(item as Record<string, any>) }
+      for (const attribute of addedAttributes) {
+        delete stripped[attribute]
+      }
+      return stripped as TItem
+    }
+
+    const result: QueryAllResult<TItem> = {
+      items: [],
+      lastEvaluatedKey: queryParams.exclusiveStartKey,
+      stoppedBy: 'exhausted',
+      pages: 0,
+      scannedCount: 0,
+      consumedRCU: 0,
+    }
+
+    do {
+      if (maxScanned !== undefined && result.scannedCount >= maxScanned) {
+        result.stoppedBy = 'maxScanned'
+        break
+      }
+      if (maxRCU !== undefined && result.consumedRCU >= maxRCU) {
+        result.stoppedBy = 'maxRCU'
+        break
+      }
+
+      // Never evaluate more items than the scanned budget allows
+      let limit = pageSize
+      if (maxScanned !== undefined) {
+        const remainingScans = Math.ceil(maxScanned - result.scannedCount)
+        limit = Math.min(pageSize ?? remainingScans, remainingScans)
+      }
+
+      const page = await this.query({
+        ...queryParams,
+        projectionExpression,
+        limit,
+        exclusiveStartKey: result.lastEvaluatedKey,
+        returnConsumedCapacity: maxRCU !== undefined,
+      })
+      result.pages++
+      result.scannedCount += page.scannedCount
+      result.consumedRCU += page.consumedCapacity?.CapacityUnits ?? 0
+      result.lastEvaluatedKey = page.lastEvaluatedKey
+
+      const remainingItems =
+        maxItems === undefined ? page.items.length : maxItems - result.items.length
+      result.items.push(...page.items.slice(0, remainingItems).map(withoutAddedAttributes))
+
+      if (maxItems !== undefined && result.items.length >= maxItems) {
+        result.stoppedBy = 'maxItems'
+        // Resume right after the last returned item when the page held more matches
+        if (page.items.length > remainingItems) {
+          const lastItem = page.items[remainingItems - 1] as Record<string, any>
+          result.lastEvaluatedKey = Object.fromEntries(
+            keyAttributes.map((attribute) => [attribute, lastItem[attribute]])
+          )
+        }
+        break
+      }
+    } while (result.lastEvaluatedKey)
+
+    return result
+  }
+
+  /**
+   * Validate the segment count of a parallel scan and build the cursors to start from
+   * @private
+   */
+  private resolveSegmentCursors(totalSegments: number, cursors?: SegmentCursor[]): SegmentCursor[] {
+    if (!Number.isInteger(totalSegments) || totalSegments < 1 || totalSegments > 1000000) {
+      throw new ValidationError(
+        'totalSegments must be an integer between 1 and 1000000',
+        'totalSegments',
+        totalSegments,
+        'integer between 1 and 1000000'
+      )
+    }
+
+    if (!cursors) {
+      return Array.from({ length: totalSegments }, (_, segment) => ({ segment, done: false }))
+    }
+
+    const valid =
+      cursors.length === totalSegments &&
+      cursors.every((cursor, segment) => cursor.segment === segment)
+    if (!valid) {
+      throw new ValidationError(
+        `Cursors must list segments 0 to ${totalSegments - 1} in order`,
+        'cursors',
+        cursors,
+        'one cursor per segment'
+      )
+    }
+
+    return cursors.map((cursor) => {
+      if (cursor.exclusiveStartKey) {
+        this.validateCursor(cursor.exclusiveStartKey)
+      }
+      return { ...cursor }
+    })
+  }
+
+  /**
+   * Validate the concurrency option of batch operations and parallel scans
+   * @private
+   */
+  private validateConcurrency(concurrency: number | undefined): number {
+    if (concurrency === undefined) {
+      return 1
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError(
+        'concurrency must be a positive integer',
+        'concurrency',
+        concurrency,
+        'positive integer'
+      )
+    }
+    return concurrency
+  }
+
+  /**
+   * Wait before retrying the unprocessed part of a batch chunk
+   * Retries up to `maxRetries` times, or until the deadline in 'retry' mode
+   * @returns false when the retry policy gives up
+   * @private
+   */
+  private async waitForBatchRetry(
+    attempts: number,
+    startTime: number,
+    options?: BatchGetOptions | BatchWriteOptions
+  ): Promise<boolean> {
+    let delay = this.retryHandler.getRetryDelay(attempts - 1)
+
+    if (options?.onUnprocessed === 'retry') {
+      const remaining = startTime + (options.retryDeadlineMs ?? 30000) - Date.now()
+      if (remaining <= 0) {
+        return false
+      }
+      delay = Math.min(delay, remaining)
+    } else if (attempts > this.retryHandler.getConfig().maxRetries) {
+      return false
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    return true
+  }
+
+  /**
+   * Resolve the version check of a write (undefined without optimistic locking)
+   * Puts without an expected version create new items; updates and deletes require one
+   * @private
+   */
+  private resolveVersionCheck(
+    expectedVersion: unknown,
+    operation: 'put' | 'update' | 'delete'
+  ): VersionCheck | undefined {
+    const attribute = this.versionAttribute
+    if (!attribute) {
+      return undefined
+    }
+
+    if (expectedVersion === undefined) {
+      if (operation !== 'put') {
+        throw new ValidationError(
+          `Optimistic locking requires an expected version for ${operation} operations`,
+          attribute,
+          expectedVersion,
+          'required'
+        )
+      }
+      return { attribute, nextVersion: PatternHelpers.incrementVersion(0) }
+    }
+
+    if (
+      typeof expectedVersion !== 'number' ||
+      !Number.isInteger(expectedVersion) ||
+      expectedVersion < 0
+    ) {
+      throw new ValidationError(
+        `Version attribute '${attribute}' must be a non-negative integer`,
+        attribute,
+        expectedVersion,
+        'non-negative integer'
+      )
+    }
+
+    return {
+      attribute,
+      expectedVersion,
+      nextVersion: PatternHelpers.incrementVersion(expectedVersion),
+    }
+  }
+
+  /**
+   * Read the version attribute of an item or partial update (undefined for builders)
+   * @private
+   */
+  private readItemVersion(item: Partial<TItem> | UpdateExpressionBuilder): unknown {
+    if (!this.versionAttribute || isUpdateExpressionBuilder(item)) {
+      return undefined
+    }
+    return (item as Record<string, any>)[this.versionAttribute]
+  }
+
+  /**
+   * Add the version condition of a versioned write to its condition
+   * @private
+   */
+  private withVersionCondition(
+    condition: TypedConditionExpression<TItem> | undefined,
+    versionCheck: VersionCheck | undefined
+  ): TypedConditionExpression<TItem> | undefined {
+    if (!versionCheck) {
+      return condition
+    }
+
+    return untyped({
+      ...(condition as ConditionExpression | undefined),
+      [versionCheck.attribute]: versionCheck.expectedVersion ?? { exists: false },
+    })
+  }
+
+  /**
+   * Add the attributes managed by the client (version, timestamps, TTL) to an item being put
+   * Existing createdAt and TTL values are kept; `expiresIn` always sets a new expiry
+   * @private
+   */
+  private withManagedAttributes(
+    item: TItem,
+    versionCheck: VersionCheck | undefined,
+    expiresIn?: number,
+    now = new Date()
+  ): TItem {
+    const managed: Record<string, any> = {}
+    const existing = item as Record<string, any>
+
+    if (versionCheck) {
+      managed[versionCheck.attribute] = versionCheck.nextVersion
+    }
+
+    if (this.timestampAttributes) {
+      const timestamp = now.toISOString()
+      managed[this.timestampAttributes.createdAt] =
+        existing[this.timestampAttributes.createdAt] ?? timestamp
+      managed[this.timestampAttributes.updatedAt] = timestamp
+    }
+
+    const expiresAt = this.resolveExpiresAt(expiresIn, now)
+    if (this.ttl && expiresAt !== undefined) {
+      if (expiresIn !== undefined || existing[this.ttl.attribute] === undefined) {
+        managed[this.ttl.attribute] = expiresAt
+      }
+    }
+
+    return Object.keys(managed).length > 0 ? { ...item, ...managed } : item
+  }
+
+  /**
+   * Build the SET actions of the attributes managed by the client for an update
+   * Timestamps and TTL given explicitly in partial updates take precedence
+   * @private
+   */
+  private buildManagedUpdateActions(
+    updates: Partial<TItem> | UpdateExpressionBuilder,
+    versionCheck: VersionCheck | undefined,
+    expiresIn?: number,
+    now = new Date()
+  ): { actions: string[]; names: Record<string, string>; values: Record<string, any> } {
+    const actions: string[] = []
+    const names: Record<string, string> = {}
+    const values: Record<string, any> = {}
+    const explicit =
+      isUpdateExpressionBuilder(updates) ? {} : (updates as Record<string, any>)
+
+    if (versionCheck) {
+      names['#v0'] = versionCheck.attribute
+      values[':v0'] = versionCheck.nextVersion
+      actions.push('#v0 = :v0')
+    }
+
+    if (this.timestampAttributes) {
+      const { createdAt, updatedAt } = this.timestampAttributes
+      const timestamp = now.toISOString()
+      if (explicit[createdAt] === undefined) {
+        names['#t0'] = createdAt
+        values[':t0'] = timestamp
+        actions.push('#t0 = if_not_exists(#t0, :t0)')
+      }
+      if (explicit[updatedAt] === undefined) {
+        names['#t1'] = updatedAt
+        values[':t0'] = timestamp
+        actions.push('#t1 = :t0')
+      }
+    }
+
+    // Default lifetimes only apply to items created by the update
+    const expiresAt = this.resolveExpiresAt(expiresIn, now)
+    if (this.ttl && expiresAt !== undefined && explicit[this.ttl.attribute] === undefined) {
+      names['#x0'] = this.ttl.attribute
+      values[':x0'] = expiresAt
+      actions.push(expiresIn !== undefined ? '#x0 = :x0' : '#x0 = if_not_exists(#x0, :x0)')
+    }
+
+    return { actions, names, values }
+  }
+
+  /**
+   * Resolve update input into an update expression, adding the SET actions of the
+   * attributes managed by the client (version, timestamps, TTL)
+   * The version attribute of partial updates is the expected version and is not written as-is
+   * @private
+   */
+  private resolveManagedUpdateExpression(
+    updates: Partial<TItem> | UpdateExpressionBuilder,
+    versionCheck: VersionCheck | undefined,
+    expiresIn?: number,
+    now = new Date()
+  ): {
+    expression: string
+    names: Record<string, string>
+    values?: Record<string, any>
+  } {
+    const managed = this.buildManagedUpdateActions(updates, versionCheck, expiresIn, now)
+    if (managed.actions.length === 0) {
+      return this.resolveUpdateExpression(updates)
+    }
+    const managedActions = managed.actions.join(', ')
+
+    let remaining = updates
+    if (!isUpdateExpressionBuilder(updates)) {
+      let rest = updates as Record<string, any>
+      if (versionCheck) {
+        const { [versionCheck.attribute]: _expectedVersion, ...withoutVersion } = rest
+        rest = withoutVersion
+      }
+      if (Object.values(rest).every((value) => value === undefined)) {
+        return { expression: `SET ${managedActions}`, names: managed.names, values: managed.values }
+      }
+      remaining = rest as Partial<TItem>
+    }
+
+    // Builders may contain only REMOVE/ADD/DELETE clauses, and SET must appear once
+    const result = this.resolveUpdateExpression(remaining)
+    return {
+      expression: result.expression.startsWith('SET ')
+        ? `SET ${managedActions}, ${result.expression.slice('SET '.length)}`
+        : `SET ${managedActions} ${result.expression}`,
+      names: { ...result.names, ...managed.names },
+      values: { ...result.values, ...managed.values },
+    }
+  }
+
+  /**
+   * Resolve the TTL value (epoch seconds) of a write from `expiresIn` or the default lifetime
+   * @private
+   */
+  private resolveExpiresAt(expiresIn?: number, now = new Date()): number | undefined {
+    if (expiresIn !== undefined) {
+      if (!this.ttl) {
+        throw new ValidationError(
+          'expiresIn requires a ttl attribute in the TableClient config',
+          'expiresIn',
+          expiresIn,
+          'ttl configured'
+        )
+      }
+      if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+        throw new ValidationError(
+          'expiresIn must be a positive number of seconds',
+          'expiresIn',
+          expiresIn,
+          'positive number'
+        )
+      }
+    }
+
+    const lifetime = expiresIn ?? this.ttl?.defaultExpiresIn
+    if (lifetime === undefined) {
+      return undefined
+    }
+    return PatternHelpers.ttlTimestamp(new Date(now.getTime() + lifetime * 1000))
+  }
+
+  /**
+   * Check whether an item has expired according to its TTL attribute
+   * DynamoDB deletes expired items lazily, so they can still be returned for a while
+   * @private
+   */
+  private isExpired(item: Record<string, any> | undefined): boolean {
+    if (!item || !this.ttl || this.ttl.filterExpired === false) {
+      return false
+    }
+    const expiresAt = item[this.ttl.attribute]
+    return typeof expiresAt === 'number' && expiresAt <= Math.floor(Date.now() / 1000)
+  }
+
+  /**
+   * Add a filter hiding expired items to a query or scan filter
+   * @private
+   */
+  private withExpiryFilter(
+    filter: TypedFilterExpression<TItem> | undefined
+  ): FilterExpression | undefined {
+    if (!this.ttl || this.ttl.filterExpired === false) {
+      return filter as FilterExpression | undefined
+    }
+
+    const attribute = this.ttl.attribute
+    const notExpired: FilterExpression = {
+      or: [
+        { [attribute]: { exists: false } },
+        { [attribute]: { gt: Math.floor(Date.now() / 1000) } },
+      ],
+    }
+    return filter ? { and: [filter as FilterExpression, notExpired] } : notExpired
+  }
+
+  /**
+   * Build the version conflict error for a failed version check
+   * Returns undefined when the stored version matches, i.e. another condition failed
+   * @private
+   */
+  private toVersionConflict(
+    description: string,
+    versionCheck: VersionCheck,
+    storedItem: any
+  ): VersionConflictError | undefined {
+    const currentVersion = readStoredVersion(storedItem, versionCheck.attribute)
+    if (currentVersion === versionCheck.expectedVersion) {
+      return undefined
+    }
+
+    const expected =
+      versionCheck.expectedVersion === undefined
+        ? 'a new item'
+        : `version ${versionCheck.expectedVersion}`
+    const found = currentVersion === undefined ? 'no stored version' : `version ${currentVersion}`
+    return new VersionConflictError(
+      `Version conflict for ${description}: expected ${expected}, found ${found}`,
+      versionCheck.attribute,
+      versionCheck.expectedVersion,
+      currentVersion,
+      storedItem
+    )
+  }
+
+  /**
+   * Convert conditional check failures of a versioned write into version conflicts
+   * @private
+   */
+  private handleVersionConflict(
+    error: any,
+    description: string,
+    versionCheck: VersionCheck | undefined
+  ): void {
+    if (!versionCheck || error?.name !== 'ConditionalCheckFailedException') {
+      return
+    }
+
+    const conflict = this.toVersionConflict(description, versionCheck, error.Item)
+    if (conflict) {
+      throw conflict
+    }
+  }
+
+  /**
+   * Convert a cancelled transaction into a TransactionCancelledError listing every operation
+   * Version checks that found a different version become version conflicts instead
+   * @private
+   */
+  private static handleTransactionCancellation(
+    error: any,
+    entries: TableTransactWriteOperation[],
+    built: { key: Key; versionCheck?: VersionCheck }[]
+  ): void {
+    if (error?.name !== 'TransactionCanceledException' || !error.CancellationReasons) {
+      return
+    }
+
+    const reasons: TransactionCancellationReason[] = (error.CancellationReasons as any[]).map(
+      (reason, index) => ({
+        index,
+        type: entries[index].operation.type,
+        tableName: entries[index].client.tableName,
+        key: built[index].key,
+        code: reason?.Code ?? 'None',
+        message: reason?.Message,
+        item: reason?.Item,
+      })
+    )
+
+    for (const reason of reasons) {
+      const versionCheck = built[reason.index].versionCheck
+      if (!versionCheck || reason.code !== 'ConditionalCheckFailed') {
+        continue
+      }
+
+      const conflict = entries[reason.index].client.toVersionConflict(
+        `transactWrite ${reason.type} operation at index ${reason.index}`,
+        versionCheck,
+        reason.item
+      )
+      if (conflict) {
+        throw conflict
+      }
+    }
+
+    const failure = reasons.find((reason) => reason.code !== 'None')
+    const message = failure
+      ? `Transaction cancelled: ${failure.code} for transactWrite ${failure.type} operation ` +
+        `at index ${failure.index} on table '${failure.tableName}'`
+      : 'Transaction cancelled'
+    throw new TransactionCancelledError(message, reasons)
+  }
+
+  /**
+   * Key attributes of an item (`pk`/`sk` unless a keySchema is configured)
+   * @private
+   */
+  private readItemKey(item: TItem | Key): Key {
+    const key: Key = {}
+    for (const attribute of getKeyAttributeNames(this.getKeySchema())) {
+      const value = (item as Record<string, any>)[attribute]
+      if (value !== undefined) {
+        key[attribute] = value
+      }
+    }
+    return key
+  }
+
   /**
    * Handle DynamoDB errors and convert to wrapper errors
    * @private
    */
-  private handleDynamoDBError(error: any, operation: string, condition?: ConditionExpression): never {
+  private handleDynamoDBError(
+    error: any,
+    operation: string,
+    condition?: TypedConditionExpression<TItem>
+  ): never {
     // Handle conditional check failures
     if (error.name === 'ConditionalCheckFailedException') {
       const conditionStr = condition ? JSON.stringify(condition) : 'unknown'
@@ -1466,6 +3470,50 @@ export class TableClient<TItem = any> {
     throw error
   }
 
+  /**
+   * Get the key schema for a query on the table or one of its indexes
+   * Indexes without a configured key schema fall back to the table key schema
+   * @private
+   */
+  private getQueryKeySchema(indexName?: string): KeySchema {
+    if (indexName && this.indexKeySchemas[indexName]) {
+      return this.indexKeySchemas[indexName]
+    }
+    return this.getKeySchema()
+  }
+
+  /**
+   * Validate a key against the configured key schema (no-op without a keySchema)
+   * @private
+   */
+  private validateTableKey(key: Key): Key {
+    if (this.keySchema) {
+      validateKey(key, this.keySchema)
+    }
+    return key
+  }
+
+  /**
+   * Validate that an item carries the key attributes of the configured key schema
+   * @private
+   */
+  private validateItemKey(item: TItem): void {
+    if (this.keySchema) {
+      extractKey(item as Record<string, any>, this.keySchema)
+    }
+  }
+
+  /**
+   * Validate that a pagination cursor contains the table key attributes
+   * Index cursors also carry the index key attributes, so extra attributes are allowed
+   * @private
+   */
+  private validateCursor(exclusiveStartKey: Key): void {
+    if (this.keySchema) {
+      extractKey(exclusiveStartKey, this.keySchema)
+    }
+  }
+
   /**
    * Validate a full item against the schema
    * @private
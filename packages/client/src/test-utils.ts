@@ -0,0 +1,29 @@
+/**
+ * Shared helpers for TableClient tests
+ */
+
+import type { TableClient } from './table-client'
+
+/**
+ * Replace the document client's send with a recorder returning the given response
+ */
+export function captureCommands(client: TableClient<any>, response: any = {}): any[] {
+  const commands: any[] = []
+  client['docClient'].send = async (command: any) => {
+    commands.push(command)
+    return response
+  }
+  return commands
+}
+
+/**
+ * Replace the document client's send with a recorder returning one response per call
+ */
+export function capturePages(client: TableClient<any>, pages: any[]): any[] {
+  const commands: any[] = []
+  client['docClient'].send = async (command: any) => {
+    commands.push(command)
+    return pages[commands.length - 1]
+  }
+  return commands
+}
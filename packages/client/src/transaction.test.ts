@@ -0,0 +1,423 @@
+/**
+ * Tests for cross-table transactions
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import { UpdateExpressionBuilder } from '@ddb-lib/core'
+import { MemoryDynamoDB } from './memory-dynamodb'
+import { TableClient } from './table-client'
+import { captureCommands } from './test-utils'
+import { TransactionBuilder } from './transaction'
+import { TransactionCancelledError, ValidationError } from './errors'
+
+/**
+ * Replace the document client's send with one cancelling a transaction per list of reasons
+ * Attempts after the last list succeed
+ */
+function failTransaction(client: TableClient, attempts: any[][]): { attempts: number } {
+  const calls = { attempts: 0 }
+  client['docClient'].send = async () => {
+    const attemptReasons = attempts[calls.attempts++]
+    if (!attemptReasons) {
+      return {}
+    }
+    const error: any = new Error('Transaction cancelled')
+    error.name = 'TransactionCanceledException'
+    error.CancellationReasons = attemptReasons
+    throw error
+  }
+  return calls
+}
+
+describe('TransactionBuilder', () => {
+  test('should write to several tables in one transaction', async () => {
+    const orders = new TableClient({ tableName: 'orders' })
+    const inventory = new TableClient({ tableName: 'inventory' })
+    const commands = captureCommands(orders)
+
+    await new TransactionBuilder()
+      .put(orders, { pk: 'ORDER#1', sku: 'SKU#1' }, { condition: { pk: { exists: false } } })
+      .update(inventory, { pk: 'SKU#1' }, new UpdateExpressionBuilder().add('stock', -1), {
+        condition: { stock: { gte: 1 } },
+      })
+      .conditionCheck(inventory, { pk: 'SKU#1' }, { status: 'ACTIVE' })
+      .commit({ clientRequestToken: 'order-1' })
+
+    expect(commands).toHaveLength(1)
+    const [put, update, check] = commands[0].input.TransactItems
+    expect(put.Put.TableName).toBe('orders')
+    expect(put.Put.Item).toEqual({ pk: 'ORDER#1', sku: 'SKU#1' })
+    expect(update.Update.TableName).toBe('inventory')
+    expect(update.Update.UpdateExpression).toBe('ADD #u0 :u0')
+    expect(check.ConditionCheck.TableName).toBe('inventory')
+    expect(commands[0].input.ClientRequestToken).toBe('order-1')
+  })
+
+  test('should validate items against the schema of their own client', async () => {
+    const schema: any = {
+      parse: (data: any) => {
+        if (typeof data.total !== 'number') {
+          throw new Error('total is required')
+        }
+        return data
+      },
+    }
+    const orders = new TableClient({ tableName: 'orders', schema })
+    const inventory = new TableClient({ tableName: 'inventory' })
+    const commands = captureCommands(orders)
+
+    const transaction = new TransactionBuilder()
+      .put(inventory, { pk: 'SKU#1' })
+      .put(orders, { pk: 'ORDER#1' })
+
+    await expect(transaction.commit()).rejects.toThrow('total is required')
+    expect(commands).toHaveLength(0)
+  })
+
+  test('should reject more than 100 operations', async () => {
+    const orders = new TableClient({ tableName: 'orders' })
+    const commands = captureCommands(orders)
+    const transaction = new TransactionBuilder()
+    for (let i = 0; i < 101; i++) {
+      transaction.delete(orders, { pk: `ORDER#${i}` })
+    }
+
+    await expect(transaction.commit()).rejects.toThrow(
+      'TransactWrite supports a maximum of 100 operations, but 101 were provided'
+    )
+    expect(commands).toHaveLength(0)
+  })
+
+  test('should reject transactions over 4MB', async () => {
+    const orders = new TableClient({ tableName: 'orders' })
+    const commands = captureCommands(orders)
+    const transaction = new TransactionBuilder()
+    for (let i = 0; i < 5; i++) {
+      transaction.put(orders, { pk: `ORDER#${i}`, payload: 'x'.repeat(900 * 1024) })
+    }
+
+    const error = await transaction.commit().catch((e) => e)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.message).toMatch(/^TransactWrite items must not exceed 4MB/)
+    expect(commands).toHaveLength(0)
+  })
+
+  test('should report which operation failed its condition', async () => {
+    const orders = new TableClient({ tableName: 'orders', retryConfig: { maxRetries: 0 } })
+    const inventory = new TableClient({ tableName: 'inventory' })
+    failTransaction(orders, [
+      [
+        { Code: 'None' },
+        { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' },
+      ],
+    ])
+
+    const error = await new TransactionBuilder()
+      .put(orders, { pk: 'ORDER#1', sk: 'ORDER' })
+      .update(inventory, { pk: 'SKU#1' }, { stock: 0 }, { condition: { stock: { gte: 1 } } })
+      .commit()
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionCancelledError)
+    expect(error.message).toBe(
+      "Transaction cancelled: ConditionalCheckFailed for transactWrite update operation at index 1 on table 'inventory'"
+    )
+    expect(error.reasons).toEqual([
+      {
+        index: 0,
+        type: 'put',
+        tableName: 'orders',
+        key: { pk: 'ORDER#1', sk: 'ORDER' },
+        code: 'None',
+        message: undefined,
+        item: undefined,
+      },
+      {
+        index: 1,
+        type: 'update',
+        tableName: 'inventory',
+        key: { pk: 'SKU#1' },
+        code: 'ConditionalCheckFailed',
+        message: 'The conditional request failed',
+        item: undefined,
+      },
+    ])
+    expect(error.failures.map((reason: any) => reason.index)).toEqual([1])
+  })
+
+  test('should record stats with the client of each table', async () => {
+    const orders = new TableClient({ tableName: 'orders', statsConfig: { enabled: true } })
+    const inventory = new TableClient({ tableName: 'inventory', statsConfig: { enabled: true } })
+    const commands = captureCommands(orders, {
+      ConsumedCapacity: [
+        { TableName: 'orders', CapacityUnits: 2 },
+        { TableName: 'inventory', CapacityUnits: 4 },
+      ],
+    })
+
+    await new TransactionBuilder()
+      .put(orders, { pk: 'ORDER#1' })
+      .delete(inventory, { pk: 'RESERVATION#1' })
+      .delete(inventory, { pk: 'RESERVATION#2' })
+      .commit()
+
+    expect(commands[0].input.ReturnConsumedCapacity).toBe('TOTAL')
+    expect(orders.getStats().operations.transactWrite.totalWCU).toBe(2)
+    expect(inventory.getStats().operations.transactWrite.totalWCU).toBe(4)
+    expect(inventory['statsCollector']?.export()[0].itemCount).toBe(2)
+  })
+})
+
+describe('TableClient - Transaction Cancellation', () => {
+  test('should retry transactions cancelled by conflicts', async () => {
+    const client = new TableClient({
+      tableName: 'orders',
+      retryConfig: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+    })
+    const calls = failTransaction(client, [[{ Code: 'None' }, { Code: 'TransactionConflict' }]])
+
+    await client.transactWrite([
+      { type: 'put', item: { pk: 'ORDER#1' } },
+      { type: 'delete', key: { pk: 'CART#1' } },
+    ])
+
+    expect(calls.attempts).toBe(2)
+  })
+
+  test('should not retry other cancellation reasons', async () => {
+    const client = new TableClient({
+      tableName: 'orders',
+      retryConfig: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+    })
+    const calls = failTransaction(client, [
+      [{ Code: 'TransactionConflict' }, { Code: 'ConditionalCheckFailed' }],
+    ])
+
+    const error = await client
+      .transactWrite([
+        { type: 'put', item: { pk: 'ORDER#1' } },
+        { type: 'conditionCheck', key: { pk: 'LOCK#1' }, condition: { status: 'FREE' } },
+      ])
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionCancelledError)
+    expect(error.failures.map((reason: any) => reason.code)).toEqual([
+      'TransactionConflict',
+      'ConditionalCheckFailed',
+    ])
+    expect(calls.attempts).toBe(1)
+  })
+
+  test('should give up on conflicts once retries are exhausted', async () => {
+    const client = new TableClient({
+      tableName: 'orders',
+      retryConfig: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 },
+    })
+    const conflict = [{ Code: 'TransactionConflict' }]
+    const calls = failTransaction(client, [conflict, conflict, conflict])
+
+    await expect(
+      client.transactWrite([{ type: 'put', item: { pk: 'ORDER#1' } }])
+    ).rejects.toThrow(TransactionCancelledError)
+    expect(calls.attempts).toBe(2)
+  })
+})
+
+describe('TableClient - Split Transactions', () => {
+  test('should split operations into transactions of at most 100 operations', async () => {
+    const client = new TableClient({ tableName: 'orders' })
+    const commands = captureCommands(client)
+    const operations = Array.from({ length: 250 }, (_, i) => ({
+      type: 'delete' as const,
+      key: { pk: `ORDER#${i}` },
+    }))
+
+    const report = await client.transactWriteSplit(operations)
+
+    expect(commands.map((command) => command.input.TransactItems.length)).toEqual([100, 100, 50])
+    expect(report.complete).toBe(true)
+    expect(report.groups.map((group) => group.status)).toEqual([
+      'committed',
+      'committed',
+      'committed',
+    ])
+    expect(report.groups[2].operationIndexes[0]).toBe(200)
+  })
+
+  test('should not write the same item twice in one transaction', async () => {
+    const orders = new TableClient({ tableName: 'orders' })
+    const inventory = new TableClient({ tableName: 'inventory' })
+    const commands = captureCommands(orders)
+
+    const report = await new TransactionBuilder()
+      .put(orders, { pk: 'ITEM#1', sk: 'A' })
+      .put(inventory, { pk: 'ITEM#1', sk: 'A' })
+      .put(orders, { pk: 'ITEM#1', sk: 'B' })
+      .update(orders, { sk: 'A', pk: 'ITEM#1' }, { status: 'SHIPPED' })
+      .commitSplit()
+
+    expect(report.groups.map((group) => group.operationIndexes)).toEqual([[0, 1, 2], [3]])
+    expect(commands).toHaveLength(2)
+  })
+
+  test('should keep transactions within 4MB', async () => {
+    const client = new TableClient({ tableName: 'orders' })
+    const commands = captureCommands(client)
+    const operations = Array.from({ length: 5 }, (_, i) => ({
+      type: 'put' as const,
+      item: { pk: `ORDER#${i}`, payload: 'x'.repeat(1500 * 1024) },
+    }))
+
+    await client.transactWriteSplit(operations)
+
+    expect(commands.map((command) => command.input.TransactItems.length)).toEqual([2, 2, 1])
+  })
+
+  test('should derive the same request tokens for the same operations and seed', async () => {
+    const client = new TableClient({ tableName: 'orders' })
+    const commands = captureCommands(client)
+    const operations = Array.from({ length: 3 }, (_, i) => ({
+      type: 'delete' as const,
+      key: { pk: `ORDER#${i}` },
+    }))
+    const options = { maxOperations: 2, clientRequestToken: 'migration-7' }
+
+    const first = await client.transactWriteSplit(operations, options)
+    const second = await client.transactWriteSplit(operations, options)
+    const reseeded = await client.transactWriteSplit(operations, {
+      ...options,
+      clientRequestToken: 'migration-8',
+    })
+
+    const tokens = first.groups.map((group) => group.clientRequestToken)
+    expect(second.groups.map((group) => group.clientRequestToken)).toEqual(tokens)
+    expect(new Set(tokens).size).toBe(2)
+    expect(tokens.every((token) => token.length <= 36)).toBe(true)
+    expect(reseeded.groups[0].clientRequestToken).not.toBe(tokens[0])
+    expect(commands[0].input.ClientRequestToken).toBe(tokens[0])
+  })
+
+  test('should send random request tokens without a seed', async () => {
+    const memory = new MemoryDynamoDB([{ tableName: 'orders' }])
+    const client = new TableClient({ tableName: 'orders', client: memory.client })
+    const operations = [
+      {
+        type: 'update' as const,
+        key: { pk: 'COUNTER#1', sk: 'COUNT' },
+        updates: new UpdateExpressionBuilder().add('n', 1),
+      },
+    ]
+
+    const first = await client.transactWriteSplit(operations)
+    const second = await client.transactWriteSplit(operations)
+
+    expect(second.groups[0].clientRequestToken).not.toBe(first.groups[0].clientRequestToken)
+    expect(await client.get({ pk: 'COUNTER#1', sk: 'COUNT' })).toMatchObject({ n: 2 })
+  })
+
+  test('should replay a split write with managed timestamps as a no-op', async () => {
+    const memory = new MemoryDynamoDB([{ tableName: 'orders' }])
+    const client = new TableClient({
+      tableName: 'orders',
+      client: memory.client,
+      timestamps: true,
+      ttl: { attribute: 'expiresAt', defaultExpiresIn: 3600 },
+    })
+    const operations = [
+      { type: 'put' as const, item: { pk: 'ORDER#1', sk: 'META', status: 'NEW' } },
+      {
+        type: 'update' as const,
+        key: { pk: 'COUNTER', sk: 'ORDERS' },
+        updates: new UpdateExpressionBuilder().add('total', 1),
+      },
+    ]
+    const timestamp = new Date(Date.now() - 1000)
+    const options = { maxOperations: 1, clientRequestToken: 'import-42', timestamp }
+
+    const first = await client.transactWriteSplit(operations, options)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    const replay = await client.transactWriteSplit(operations, options)
+
+    expect(replay.groups.map((group) => group.status)).toEqual(['committed', 'committed'])
+    expect(replay.groups.map((group) => group.clientRequestToken)).toEqual(
+      first.groups.map((group) => group.clientRequestToken)
+    )
+    expect(await client.get({ pk: 'COUNTER', sk: 'ORDERS' })).toMatchObject({
+      total: 1,
+      updatedAt: timestamp.toISOString(),
+    })
+  })
+
+  test('should send conflict retries with the same parameters as the first attempt', async () => {
+    const client = new TableClient({ tableName: 'orders', timestamps: true })
+    const requests: string[] = []
+    client['docClient'].send = async (command: any) => {
+      requests.push(JSON.stringify(command.input))
+      if (requests.length === 1) {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        throw Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'TransactionConflict' }],
+        })
+      }
+      return {}
+    }
+
+    await client.transactWriteSplit([{ type: 'put', item: { pk: 'ORDER#1' } }], {
+      clientRequestToken: 'import-42',
+    })
+
+    expect(requests).toHaveLength(2)
+    expect(requests[1]).toBe(requests[0])
+  })
+
+  test('should report failed and skipped transactions', async () => {
+    const client = new TableClient({ tableName: 'orders', retryConfig: { maxRetries: 0 } })
+    const operations = Array.from({ length: 3 }, (_, i) => ({
+      type: 'delete' as const,
+      key: { pk: `ORDER#${i}` },
+    }))
+    let calls = 0
+    client['docClient'].send = async () => {
+      calls++
+      if (calls === 2) {
+        throw new Error('Service unavailable')
+      }
+      return {}
+    }
+
+    const report = await client.transactWriteSplit(operations, { maxOperations: 1 })
+
+    expect(report.complete).toBe(false)
+    expect(report.groups.map((group) => group.status)).toEqual(['committed', 'failed', 'skipped'])
+    expect(report.groups[1].error?.message).toBe('Service unavailable')
+
+    calls = 0
+    const continued = await client.transactWriteSplit(operations, {
+      maxOperations: 1,
+      continueOnError: true,
+    })
+    expect(continued.groups.map((group) => group.status)).toEqual([
+      'committed',
+      'failed',
+      'committed',
+    ])
+  })
+
+  test('should reject invalid operations before sending anything', async () => {
+    const client = new TableClient({ tableName: 'orders' })
+    const commands = captureCommands(client)
+
+    await expect(
+      client.transactWriteSplit([
+        { type: 'delete', key: { pk: 'ORDER#1' } },
+        { type: 'put', item: { pk: 'ORDER#2', payload: 'x'.repeat(4200 * 1024) } },
+      ])
+    ).rejects.toThrow('TransactWrite operation at index 1 is about')
+    await expect(
+      client.transactWriteSplit([], { maxOperations: 101 })
+    ).rejects.toThrow('maxOperations must be an integer between 1 and 100')
+    expect(commands).toHaveLength(0)
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Builder for atomic write transactions spanning several tables
+ */
+
+import type { Key, TypedConditionExpression, UpdateExpressionBuilder } from '@ddb-lib/core'
+import { TableClient } from './table-client'
+import type {
+  SplitTransactWriteOptions,
+  SplitTransactWriteReport,
+  TableTransactWriteOperation,
+  TransactWriteOperation,
+  TransactWriteOptions,
+} from './types'
+
+/**
+ * Collects write operations against any number of TableClients and commits them as one
+ * DynamoDB transaction. Each operation is validated by its own client, so items are checked
+ * against the schema, key schema and locking settings of the table they are written to.
+ *
+ * @example
+ * ```typescript
+ * await new TransactionBuilder()
+ *   .put(orders, { pk: 'ORDER#1', sk: 'ORDER', sku: 'SKU#1', quantity: 2 })
+ *   .update(
+ *     inventory,
+ *     { pk: 'SKU#1' },
+ *     new UpdateExpressionBuilder().add('stock', -2),
+ *     { condition: { stock: { gte: 2 } } }
+ *   )
+ *   .commit()
+ * ```
+ */
+export class TransactionBuilder {
+  private readonly entries: TableTransactWriteOperation[] = []
+
+  /**
+   * Number of operations added so far
+   */
+  get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Add an operation to run against the table of the given client
+   */
+  add<T>(client: TableClient<T>, operation: TransactWriteOperation<T>): this {
+    this.entries.push({ client, operation })
+    return this
+  }
+
+  /**
+   * Add a put operation
+   */
+  put<T>(
+    client: TableClient<T>,
+    item: T,
+    options?: { condition?: TypedConditionExpression<T> }
+  ): this {
+    return this.add(client, { type: 'put', item, condition: options?.condition })
+  }
+
+  /**
+   * Add an update operation
+   */
+  update<T>(
+    client: TableClient<T>,
+    key: Key,
+    updates: Partial<T> | UpdateExpressionBuilder,
+    options?: { condition?: TypedConditionExpression<T>; expectedVersion?: number }
+  ): this {
+    return this.add(client, {
+      type: 'update',
+      key,
+      updates,
+      condition: options?.condition,
+      expectedVersion: options?.expectedVersion,
+    })
+  }
+
+  /**
+   * Add a delete operation
+   */
+  delete<T>(
+    client: TableClient<T>,
+    key: Key,
+    options?: { condition?: TypedConditionExpression<T>; expectedVersion?: number }
+  ): this {
+    return this.add(client, {
+      type: 'delete',
+      key,
+      condition: options?.condition,
+      expectedVersion: options?.expectedVersion,
+    })
+  }
+
+  /**
+   * Add a condition check that must hold for the transaction to succeed
+   */
+  conditionCheck<T>(
+    client: TableClient<T>,
+    key: Key,
+    condition: TypedConditionExpression<T>
+  ): this {
+    return this.add(client, { type: 'conditionCheck', key, condition })
+  }
+
+  /**
+   * Commit all operations as a single atomic transaction
+   * The transaction is sent and retried with the client of the first operation.
+   *
+   * @throws {ValidationError} If there are more than 100 operations or the items exceed 4MB
+   * @throws {VersionConflictError} If a versioned operation finds a different stored version
+   * @throws {TransactionCancelledError} If DynamoDB cancels the transaction, e.g. on a failed
+   *   condition; cancellations caused only by TransactionConflict are retried
+   */
+  async commit(options?: TransactWriteOptions): Promise<void> {
+    return TableClient.transactWriteTables([...this.entries], options)
+  }
+
+  /**
+   * Commit the operations as sequential transactions of up to 100 operations and 4MB each
+   * Each transaction is atomic, but operations in different transactions are not.
+   *
+   * @returns Report of which transactions committed
+   * @throws {ValidationError} If an operation is invalid or larger than 4MB on its own
+   */
+  async commitSplit(options?: SplitTransactWriteOptions): Promise<SplitTransactWriteReport> {
+    return TableClient.transactWriteTablesSplit([...this.entries], options)
+  }
+}
@@ -4,8 +4,19 @@
 
 import type { DynamoDBClient } from '@aws-sdk/client-dynamodb'
 import type { ConsumedCapacity } from '@aws-sdk/client-dynamodb'
-import type { Key, KeyCondition, FilterExpression, GSIConfig } from '@ddb-lib/core'
+import type {
+  ConditionOperators,
+  Key,
+  KeyCondition,
+  KeySchema,
+  FilterExpression,
+  GSIConfig,
+  TypedConditionExpression,
+  TypedFilterExpression,
+  UpdateExpressionBuilder,
+} from '@ddb-lib/core'
 import type { StatsConfig } from '@ddb-lib/stats'
+import type { TableClient } from './table-client'
 
 // Import for re-export only
 export type { TableStats } from '@ddb-lib/stats'
@@ -62,6 +73,69 @@ export interface RetryConfig {
   retryableErrors: string[]
 }
 
+/**
+ * Optimistic locking configuration
+ */
+export interface OptimisticLockingConfig {
+  /** Attribute holding the item version (default `PatternHelpers.versionAttribute()`) */
+  versionAttribute?: string
+}
+
+/**
+ * Automatic timestamp attributes (ISO 8601 strings)
+ */
+export interface TimestampsConfig {
+  /** Attribute set when an item is created (default 'createdAt') */
+  createdAt?: string
+  /** Attribute refreshed on every write (default 'updatedAt') */
+  updatedAt?: string
+}
+
+/**
+ * Time-to-live attribute management
+ */
+export interface TtlConfig {
+  /** The table's TTL attribute, holding the expiry time in epoch seconds */
+  attribute: string
+  /** Lifetime in seconds of items written without `expiresIn` (optional) */
+  defaultExpiresIn?: number
+  /** Hide expired items DynamoDB has not deleted yet from get, query and scan (default true) */
+  filterExpired?: boolean
+}
+
+/**
+ * Storage for cached items and access pattern results
+ * Values are plain JSON-like data, Sets and Uint8Arrays; stores that serialize values
+ * must preserve them.
+ */
+export interface CacheStore {
+  /** Get a value, or undefined if it is missing or expired */
+  get(key: string): Promise<unknown>
+  /** Store a value for `ttlSeconds` */
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>
+  /** Remove a value */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Read-through cache configuration
+ * Writes made through the same TableClient invalidate the cache; writes made elsewhere are
+ * only picked up once cached entries expire.
+ */
+export interface CacheConfig {
+  /** Store for cached entries (optional, default an in-memory LRU store) */
+  store?: CacheStore
+  /** Lifetime of cached entries in seconds (optional, default 60) */
+  ttl?: number
+  /** Maximum number of entries of the default in-memory store (optional, default 1000) */
+  maxEntries?: number
+  /**
+   * Access patterns whose executePattern results are cached (optional)
+   * Writes only invalidate results cached by the same process, also with a shared store.
+   */
+  patterns?: string[]
+}
+
 /**
  * Configuration for TableClient
  */
@@ -72,12 +146,35 @@ export interface TableClientConfig<TSchema = any> {
   client?: DynamoDBClient
   /** Schema for validation (optional) */
   schema?: Schema<TSchema>
+  /**
+   * Key attribute names and types of the table (optional)
+   * When omitted, keys use `pk`/`sk` and are passed through unvalidated
+   */
+  keySchema?: KeySchema
+  /** Key schemas of secondary indexes by index name, used for index queries (optional) */
+  indexKeySchemas?: Record<string, KeySchema>
   /** Access pattern definitions (optional) */
   accessPatterns?: AccessPatternDefinitions<TSchema>
   /** Statistics configuration (optional) */
   statsConfig?: StatsConfig
   /** Retry configuration (optional) */
   retryConfig?: Partial<RetryConfig>
+  /**
+   * Version-check and bump a version attribute on put, update, delete and transactWrite
+   * (optional, `true` uses the default version attribute)
+   */
+  optimisticLocking?: boolean | OptimisticLockingConfig
+  /**
+   * Set createdAt on creation and refresh updatedAt on put, update, batchWrite and transactWrite
+   * (optional, `true` uses the default attribute names)
+   */
+  timestamps?: boolean | TimestampsConfig
+  /** TTL attribute management (optional) */
+  ttl?: TtlConfig
+  /** Read-through cache for get, batchGet and selected access patterns (optional) */
+  cache?: CacheConfig
+  /** Middleware run around every request, outermost first (optional, see `TableClient.use`) */
+  middleware?: TableClientMiddleware[]
   /** AWS region (optional) */
   region?: string
   /** Custom endpoint (optional, for DynamoDB Local) */
@@ -86,23 +183,67 @@ export interface TableClientConfig<TSchema = any> {
   debug?: boolean
 }
 
+/**
+ * DynamoDB operation sent by a TableClient method
+ * count() sends `query` or `scan` requests.
+ */
+export type TableOperation =
+  | 'get'
+  | 'put'
+  | 'update'
+  | 'delete'
+  | 'query'
+  | 'scan'
+  | 'batchGet'
+  | 'batchWrite'
+  | 'transactWrite'
+  | 'transactGet'
+  | 'executeStatement'
+  | 'batchExecuteStatement'
+
+/**
+ * Request passed through the middleware pipeline
+ */
+export interface MiddlewareContext {
+  /** Operation being sent */
+  operation: TableOperation
+  /** Table of the client sending the request */
+  tableName: string
+  /**
+   * Document client command input (e.g. `GetCommandInput`)
+   * Middleware may change or replace it before calling `next`.
+   */
+  input: Record<string, any>
+}
+
+/**
+ * Middleware wrapped around every request a TableClient sends
+ * Calls `next` to pass the request on and returns its (possibly changed) response. It may
+ * also return a response without calling `next`, call `next` again to retry, or throw.
+ * Errors are the raw SDK errors, before TableClient maps them to its own error classes.
+ *
+ * @example
+ * ```typescript
+ * const audit: TableClientMiddleware = async (context, next) => {
+ *   const started = Date.now()
+ *   try {
+ *     return await next()
+ *   } finally {
+ *     console.log(context.operation, context.tableName, Date.now() - started)
+ *   }
+ * }
+ * ```
+ */
+export type TableClientMiddleware = (
+  context: MiddlewareContext,
+  next: () => Promise<any>
+) => Promise<any>
+
 /**
  * Condition expression for conditional operations
  */
 export interface ConditionExpression {
-  [field: string]:
-  | any
-  | {
-    eq?: any
-    ne?: any
-    lt?: any
-    lte?: any
-    gt?: any
-    gte?: any
-    exists?: boolean
-    contains?: any
-    beginsWith?: string
-  }
+  [field: string]: any | ConditionOperators
 }
 
 /**
@@ -118,9 +259,11 @@ export interface GetOptions {
 /**
  * Options for put operations
  */
-export interface PutOptions {
-  /** Conditional expression for the put operation */
-  condition?: ConditionExpression
+export interface PutOptions<TItem = any> {
+  /** Conditional expression for the put operation, checked against the item type */
+  condition?: TypedConditionExpression<TItem>
+  /** Lifetime of the item in seconds, overriding the default lifetime (requires `ttl`) */
+  expiresIn?: number
   /** What values to return after the operation */
   returnValues?: 'NONE' | 'ALL_OLD'
 }
@@ -128,9 +271,16 @@ export interface PutOptions {
 /**
  * Options for update operations
  */
-export interface UpdateOptions {
-  /** Conditional expression for the update operation */
-  condition?: ConditionExpression
+export interface UpdateOptions<TItem = any> {
+  /** Conditional expression for the update operation, checked against the item type */
+  condition?: TypedConditionExpression<TItem>
+  /**
+   * Version the update is based on (optimistic locking only)
+   * Defaults to the version attribute of partial updates
+   */
+  expectedVersion?: number
+  /** Lifetime of the item in seconds from now (requires `ttl`) */
+  expiresIn?: number
   /** What values to return after the operation */
   returnValues?: 'NONE' | 'ALL_OLD' | 'ALL_NEW' | 'UPDATED_OLD' | 'UPDATED_NEW'
 }
@@ -138,9 +288,11 @@ export interface UpdateOptions {
 /**
  * Options for delete operations
  */
-export interface DeleteOptions {
-  /** Conditional expression for the delete operation */
-  condition?: ConditionExpression
+export interface DeleteOptions<TItem = any> {
+  /** Conditional expression for the delete operation, checked against the item type */
+  condition?: TypedConditionExpression<TItem>
+  /** Version of the item to delete (optimistic locking only) */
+  expectedVersion?: number
   /** What values to return after the operation */
   returnValues?: 'NONE' | 'ALL_OLD'
 }
@@ -155,6 +307,60 @@ export interface BatchGetOptions {
   projectionExpression?: string[]
   /** Chunk size for batching (default 100, DynamoDB limit) */
   chunkSize?: number
+  /** Maximum number of chunks processed in parallel (default 1, sequential) */
+  concurrency?: number
+  /**
+   * Handling of keys still unprocessed after retrying (default 'return')
+   * - 'return': list them in `unprocessedKeys`
+   * - 'throw': throw a BatchPartialFailureError
+   * - 'retry': keep retrying with the retry policy delays until `retryDeadlineMs`, then throw
+   */
+  onUnprocessed?: BatchUnprocessedMode
+  /** Time budget in milliseconds for the 'retry' mode (default 30000) */
+  retryDeadlineMs?: number
+}
+
+/**
+ * Handling of unprocessed keys or operations in batch operations
+ */
+export type BatchUnprocessedMode = 'return' | 'throw' | 'retry'
+
+/**
+ * Outcome of one chunk of a batch operation
+ */
+export interface BatchChunkResult {
+  /** Index of the chunk, in request order */
+  chunk: number
+  /** Requests sent for the chunk, including retries of unprocessed keys or operations */
+  attempts: number
+  /** Capacity units consumed by all requests of the chunk */
+  consumedCapacity: number
+}
+
+/**
+ * Result from batch get operations
+ */
+export interface BatchGetResult<T> {
+  /** Items found (missing items are not included) */
+  items: T[]
+  /** Keys DynamoDB did not process within the retry policy */
+  unprocessedKeys: Key[]
+  /** Per-chunk attempts and consumed capacity */
+  chunks: BatchChunkResult[]
+}
+
+/**
+ * Options for an ItemLoader
+ */
+export interface ItemLoaderOptions {
+  /** Use strongly consistent reads */
+  consistentRead?: boolean
+  /** Only fetch specific attributes (the key attributes are always fetched) */
+  projectionExpression?: string[]
+  /** Maximum number of keys per batchGet request (default 100, DynamoDB limit) */
+  maxBatchSize?: number
+  /** Remember loaded items for the lifetime of the loader (default true) */
+  cache?: boolean
 }
 
 /**
@@ -170,16 +376,70 @@ export type BatchWriteOperation<T> =
 export interface BatchWriteOptions {
   /** Chunk size for batching (default 25, DynamoDB limit) */
   chunkSize?: number
+  /** Maximum number of chunks processed in parallel (default 1, sequential) */
+  concurrency?: number
+  /**
+   * Handling of operations still unprocessed after retrying (default 'return')
+   * - 'return': list them in `unprocessedOperations`
+   * - 'throw': throw a BatchPartialFailureError
+   * - 'retry': keep retrying with the retry policy delays until `retryDeadlineMs`, then throw
+   */
+  onUnprocessed?: BatchUnprocessedMode
+  /** Time budget in milliseconds for the 'retry' mode (default 30000) */
+  retryDeadlineMs?: number
+}
+
+/**
+ * Result from batch write operations
+ */
+export interface BatchWriteResult<T> {
+  /** Operations DynamoDB did not process within the retry policy */
+  unprocessedOperations: BatchWriteOperation<T>[]
+  /** Per-chunk attempts and consumed capacity */
+  chunks: BatchChunkResult[]
+}
+
+/**
+ * Secondary index of an in-memory table
+ */
+export interface MemoryIndexDefinition {
+  /** Key attributes of the index */
+  keySchema: KeySchema
+  /** Attributes copied into the index: 'ALL' (default), 'KEYS_ONLY' or the non-key attributes */
+  projection?: 'ALL' | 'KEYS_ONLY' | string[]
+}
+
+/**
+ * Table of the in-memory DynamoDB engine
+ */
+export interface MemoryTableDefinition {
+  /** Table name */
+  tableName: string
+  /** Key attributes of the table (default: string `pk` and `sk`) */
+  keySchema?: KeySchema
+  /** Secondary indexes by index name */
+  indexes?: Record<string, MemoryIndexDefinition>
 }
 
 /**
  * Transactional write operation types
  */
 export type TransactWriteOperation<T> =
-  | { type: 'put'; item: T; condition?: ConditionExpression }
-  | { type: 'update'; key: Key; updates: Partial<T>; condition?: ConditionExpression }
-  | { type: 'delete'; key: Key; condition?: ConditionExpression }
-  | { type: 'conditionCheck'; key: Key; condition: ConditionExpression }
+  | { type: 'put'; item: T; condition?: TypedConditionExpression<T> }
+  | {
+    type: 'update'
+    key: Key
+    updates: Partial<T> | UpdateExpressionBuilder
+    condition?: TypedConditionExpression<T>
+    expectedVersion?: number
+  }
+  | {
+    type: 'delete'
+    key: Key
+    condition?: TypedConditionExpression<T>
+    expectedVersion?: number
+  }
+  | { type: 'conditionCheck'; key: Key; condition: TypedConditionExpression<T> }
 
 /**
  * Options for transactional write operations
@@ -189,6 +449,83 @@ export interface TransactWriteOptions {
   clientRequestToken?: string
 }
 
+/**
+ * Options for transactional writes split into several transactions
+ */
+export interface SplitTransactWriteOptions {
+  /**
+   * Seed of the derived per-transaction client request tokens
+   * Retries are only deduplicated with a seed: pass the same seed (and `timestamp`) when
+   * retrying the same operations. Without one, every call sends random tokens.
+   */
+  clientRequestToken?: string
+  /** Maximum operations per transaction (default 100, DynamoDB limit) */
+  maxOperations?: number
+  /** Keep sending later transactions after one fails (default false: skip them) */
+  continueOnError?: boolean
+  /**
+   * Time of the managed timestamp and TTL values (default now)
+   * Pass the same time with the same seed when retrying, so the retried requests are identical
+   */
+  timestamp?: Date
+}
+
+/**
+ * Outcome of one transaction of a split transactional write
+ */
+export interface TransactWriteGroupResult {
+  /** Index of the transaction, in sending order */
+  group: number
+  /** Indexes of the operations in the transaction, in request order */
+  operationIndexes: number[]
+  /** Client request token the transaction was sent with */
+  clientRequestToken: string
+  /** Whether the transaction committed, failed or was not sent after an earlier failure */
+  status: 'committed' | 'failed' | 'skipped'
+  /** Error of a failed transaction */
+  error?: Error
+}
+
+/**
+ * Report of a split transactional write
+ */
+export interface SplitTransactWriteReport {
+  /** Outcome of every transaction */
+  groups: TransactWriteGroupResult[]
+  /** Whether every transaction committed */
+  complete: boolean
+}
+
+/**
+ * Transactional write operation bound to the TableClient of the table it writes to
+ */
+export interface TableTransactWriteOperation {
+  /** Client of the table the operation writes to */
+  client: TableClient<any>
+  /** Operation, built and validated by that client */
+  operation: TransactWriteOperation<any>
+}
+
+/**
+ * Outcome of one operation of a cancelled transaction
+ */
+export interface TransactionCancellationReason {
+  /** Index of the operation in the transaction */
+  index: number
+  /** Operation type */
+  type: TransactWriteOperation<unknown>['type']
+  /** Table the operation writes to */
+  tableName: string
+  /** Key of the item the operation targets */
+  key: Key
+  /** Reason code, e.g. 'ConditionalCheckFailed' or 'TransactionConflict'; 'None' if not at fault */
+  code: string
+  /** Reason message from DynamoDB */
+  message?: string
+  /** Stored item in DynamoDB attribute value format, when returned for a failed condition */
+  item?: Record<string, any>
+}
+
 /**
  * Options for transactional get operations
  */
@@ -197,6 +534,49 @@ export interface TransactGetOptions {
   projectionExpression?: string[]
 }
 
+/**
+ * PartiQL statement with `?` placeholders and their parameters, as built by `partiql`
+ */
+export interface PartiQLStatement {
+  statement: string
+  parameters: unknown[]
+}
+
+/**
+ * Options for PartiQL statements
+ */
+export interface ExecuteStatementOptions {
+  /** Use consistent reads (SELECT only) */
+  consistentRead?: boolean
+  /** Maximum number of items to evaluate (SELECT only) */
+  limit?: number
+  /** Token of the next page, from a previous result */
+  nextToken?: string
+}
+
+/**
+ * Result from executeStatement
+ */
+export interface ExecuteStatementResult<T> {
+  items: T[]
+  /** Token of the next page (undefined on the last page) */
+  nextToken?: string
+  consumedCapacity?: ConsumedCapacity
+}
+
+/**
+ * Outcome of one statement of a batchExecuteStatement call
+ */
+export interface BatchStatementResult<T> {
+  /** Item returned by a SELECT statement */
+  item?: T
+  /** Error of a statement that failed; other statements are unaffected */
+  error?: {
+    code: string
+    message: string
+  }
+}
+
 /**
  * Result from query operations
  */
@@ -222,11 +602,11 @@ export interface ScanResult<T> {
 /**
  * Parameters for query operations
  */
-export interface QueryParams {
+export interface QueryParams<TItem = any> {
   /** Key condition for the query */
   keyCondition: KeyCondition
-  /** Optional filter expression */
-  filter?: FilterExpression
+  /** Optional filter expression, checked against the item type */
+  filter?: TypedFilterExpression<TItem>
   /** Index name (for GSI/LSI queries) */
   index?: string
   /** Limit the number of items returned */
@@ -239,14 +619,89 @@ export interface QueryParams {
   consistentRead?: boolean
   /** Only fetch specific attributes */
   projectionExpression?: string[]
+  /** Return consumed capacity even when stats collection is disabled */
+  returnConsumedCapacity?: boolean
+}
+
+/**
+ * Parameters for queries that page through filtered results until they have enough matches
+ */
+export interface QueryAllParams<TItem = any>
+  extends Omit<QueryParams<TItem>, 'limit' | 'returnConsumedCapacity'> {
+  /** Items evaluated per request (DynamoDB Limit, applied before the filter) */
+  pageSize?: number
+  /** Stop once this many items have been evaluated */
+  maxScanned?: number
+  /** Stop once this many read capacity units have been consumed */
+  maxRCU?: number
+}
+
+/**
+ * Parameters for queryUntil
+ */
+export interface QueryUntilParams<TItem = any> extends QueryAllParams<TItem> {
+  /** Number of matching items to collect */
+  maxItems: number
+}
+
+/**
+ * Reason a queryAll/queryUntil call stopped paging
+ */
+export type QueryStopReason = 'exhausted' | 'maxItems' | 'maxScanned' | 'maxRCU'
+
+/**
+ * Result from queryAll/queryUntil
+ */
+export interface QueryAllResult<T> {
+  items: T[]
+  /** Key to resume from, right after the last returned item (undefined when nothing is left) */
+  lastEvaluatedKey?: Key
+  /** Why paging stopped */
+  stoppedBy: QueryStopReason
+  /** Number of requests sent */
+  pages: number
+  /** Number of items evaluated across all pages */
+  scannedCount: number
+  /** Read capacity units consumed across all pages */
+  consumedRCU: number
+}
+
+/**
+ * Parameters for count operations
+ */
+export interface CountParams<TItem = any> {
+  /** Key condition; counts with a query when given, otherwise with a scan */
+  keyCondition?: KeyCondition
+  /** Optional filter expression, checked against the item type */
+  filter?: TypedFilterExpression<TItem>
+  /** Index name (for GSI/LSI counts) */
+  index?: string
+  /** Exclusive start key to continue an earlier count from */
+  exclusiveStartKey?: Key
+  /** Use consistent reads */
+  consistentRead?: boolean
+}
+
+/**
+ * Result from count operations
+ */
+export interface CountResult {
+  /** Number of items matching the key condition and filter */
+  count: number
+  /** Number of items evaluated before the filter */
+  scannedCount: number
+  /** Number of requests sent */
+  pages: number
+  /** Read capacity units consumed across all pages */
+  consumedRCU: number
 }
 
 /**
  * Parameters for scan operations
  */
-export interface ScanParams {
-  /** Optional filter expression */
-  filter?: FilterExpression
+export interface ScanParams<TItem = any> {
+  /** Optional filter expression, checked against the item type */
+  filter?: TypedFilterExpression<TItem>
   /** Index name (for GSI/LSI scans) */
   index?: string
   /** Limit the number of items returned */
@@ -257,8 +712,222 @@ export interface ScanParams {
   consistentRead?: boolean
   /** Only fetch specific attributes */
   projectionExpression?: string[]
+  /** Return consumed capacity even when stats collection is disabled */
+  returnConsumedCapacity?: boolean
+  /** Segment to scan (for parallel scans, requires totalSegments) */
+  segment?: number
+  /** Number of segments the table is divided into (for parallel scans) */
+  totalSegments?: number
+}
+
+/**
+ * Options for encoding and decoding pagination cursors
+ */
+export interface CursorOptions {
+  /** Secret used to HMAC-sign cursors, so tampered cursors are rejected */
+  secret?: string
+  /** Values the cursor is bound to (e.g. request parameters); decoding with other values fails */
+  bindTo?: unknown
+}
+
+/**
+ * Page of results with an opaque cursor for the next page
+ */
+export interface Page<T> {
+  items: T[]
+  /** Cursor of the next page (undefined on the last page) */
+  cursor?: string
+}
+
+/**
+ * Parameters for page-by-page queries
+ */
+export interface QueryPagesParams<TItem = any>
+  extends Omit<QueryParams<TItem>, 'exclusiveStartKey'> {
+  /** Cursor of the page to start from, as returned in a previous page */
+  cursor?: string
+  /** Signing secret for cursors; cursors are always bound to the query parameters */
+  cursorSecret?: string
+}
+
+/**
+ * Parameters for page-by-page scans
+ */
+export interface ScanPagesParams<TItem = any>
+  extends Omit<ScanParams<TItem>, 'exclusiveStartKey'> {
+  /** Cursor of the page to start from, as returned in a previous page */
+  cursor?: string
+  /** Signing secret for cursors; cursors are always bound to the scan parameters */
+  cursorSecret?: string
+}
+
+/**
+ * Resume position of one parallel scan segment
+ */
+export interface SegmentCursor {
+  /** Segment number */
+  segment: number
+  /** Key to continue the segment from (undefined when not started or done) */
+  exclusiveStartKey?: Key
+  /** Whether the segment has been scanned completely */
+  done: boolean
+}
+
+/**
+ * Parameters for parallel scans
+ */
+export interface ParallelScanParams<TItem = any>
+  extends Omit<ScanParams<TItem>, 'exclusiveStartKey' | 'segment' | 'totalSegments'> {
+  /** Number of segments the table is divided into (1 to 1000000) */
+  totalSegments: number
+  /** Maximum number of segments scanned at the same time (default totalSegments) */
+  concurrency?: number
+  /** Segment cursors of a previous parallel scan to resume from */
+  cursors?: SegmentCursor[]
+}
+
+/**
+ * Page of a parallel scan
+ */
+export interface ParallelScanPage<T> {
+  /** Segment the page was read from */
+  segment: number
+  items: T[]
+  count: number
+  scannedCount: number
+  consumedCapacity?: ConsumedCapacity
+  /** Cursors of all segments, covering every page yielded so far */
+  cursors: SegmentCursor[]
+}
+
+/**
+ * Schemas of the entity types in an item collection, keyed by discriminator value
+ */
+export type CollectionSchemas = Record<string, Schema<any>>
+
+/**
+ * Items of a collection query grouped by discriminator value
+ */
+export type CollectionResult<TSchemas extends CollectionSchemas> = {
+  [K in keyof TSchemas]: Array<TSchemas[K]['_type']>
+}
+
+/**
+ * Parameters for collection queries
+ */
+export interface CollectionQueryParams<TSchemas extends CollectionSchemas> {
+  /** Key condition selecting the item collection */
+  keyCondition: KeyCondition
+  /** Schema per discriminator value; items of other types are skipped */
+  entities: TSchemas
+  /** Attribute holding the discriminator (default 'entityType') */
+  typeAttribute?: string
+  /** Index name (for GSI/LSI queries) */
+  index?: string
+  /** Optional filter expression, applied in addition to the discriminator filter */
+  filter?: FilterExpression
+  /** Scan forward (true) or backward (false) */
+  scanIndexForward?: boolean
+  /** Use consistent reads */
+  consistentRead?: boolean
 }
 
+/**
+ * Key templates of an entity, e.g. `{ pk: 'USER#{userId}', sk: 'PROFILE' }`
+ * `{attribute}` placeholders are replaced by the entity's attribute values
+ */
+export interface EntityKeyTemplates {
+  /** Partition key template */
+  pk: string
+  /** Sort key template (required when the table or index has a sort key) */
+  sk?: string
+}
+
+/**
+ * Attribute names referenced by the placeholders of a key template
+ */
+type TemplateAttributes<T> = T extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | TemplateAttributes<Rest>
+  : never
+
+/**
+ * Entity-level parameters identifying one item: the attributes used by the key templates
+ * Falls back to `Partial<TItem>` when the templates are not string literals
+ */
+export type EntityKeyParams<TItem, TKey extends EntityKeyTemplates> = string extends TKey['pk']
+  ? Partial<TItem>
+  : {
+    [K in TemplateAttributes<TKey['pk']> | TemplateAttributes<TKey['sk']>]: K extends keyof TItem
+      ? TItem[K]
+      : string | number
+  }
+
+/**
+ * Entity definition for single-table design
+ */
+export interface EntityConfig<TItem, TKey extends EntityKeyTemplates = EntityKeyTemplates> {
+  /** Entity name, stored in the type attribute of every item */
+  name: string
+  /** Schema validating entity items on write and read (optional) */
+  schema?: Schema<TItem>
+  /** Table key templates */
+  key: TKey
+  /** Key templates per index; key attribute names come from the client's `indexKeySchemas` */
+  indexes?: Record<string, EntityKeyTemplates>
+  /** Attribute storing the entity name (default 'entityType') */
+  typeAttribute?: string
+}
+
+/**
+ * Parameters for entity queries
+ */
+export interface EntityQueryParams<TItem> {
+  /** Index name (for GSI/LSI queries) */
+  index?: string
+  /**
+   * Attribute values for the key templates: all partition key attributes and
+   * optionally a leading part of the sort key attributes (matched as a prefix)
+   */
+  key: Partial<TItem>
+  /** Optional filter expression, checked against the entity type */
+  filter?: TypedFilterExpression<TItem>
+  /** Limit the number of items evaluated */
+  limit?: number
+  /** Scan forward (true) or backward (false) */
+  scanIndexForward?: boolean
+  /** Exclusive start key for pagination */
+  exclusiveStartKey?: Key
+  /** Use consistent reads */
+  consistentRead?: boolean
+}
+
+/**
+ * Options for idempotent execution
+ */
+export interface IdempotencyOptions<TPayload = any> {
+  /** Seconds a completed result is replayed for (default 3600) */
+  expiresIn?: number
+  /**
+   * Seconds an in-progress record blocks duplicates before another execution may take over
+   * (default 60); should exceed the longest handler run
+   */
+  inProgressExpiresIn?: number
+  /** TTL attribute of the table, holding the expiry time in epoch seconds (default 'expiresAt') */
+  ttlAttribute?: string
+  /** Part of the payload that identifies the request (default the whole payload) */
+  select?: (payload: TPayload) => unknown
+  /**
+   * Key of the idempotency record of a payload hash (default `IDEMPOTENCY#<hash>` as partition
+   * key and `IDEMPOTENCY` as sort key, if the table has one)
+   */
+  key?: (hash: string) => Key
+}
+
+/**
+ * Status of an idempotency record
+ */
+export type IdempotencyStatus = 'IN_PROGRESS' | 'COMPLETED'
+
 // Re-export commonly used types from dependencies
-export type { Key, KeyCondition, FilterExpression, GSIConfig } from '@ddb-lib/core'
+export type { Key, KeyCondition, KeySchema, FilterExpression, GSIConfig } from '@ddb-lib/core'
 export type { StatsConfig } from '@ddb-lib/stats'
@@ -3,7 +3,16 @@
  */
 
 import { describe, test, expect } from '@rstest/core'
-import { KeyConditionBuilder, FilterExpressionBuilder } from './expression-builders'
+import {
+  KeyConditionBuilder,
+  FilterExpressionBuilder,
+  ConditionExpressionBuilder,
+  ProjectionExpressionBuilder,
+  UpdateExpressionBuilder,
+  escapeAttributeName,
+  untyped,
+} from './expression-builders'
+import { ValidationError } from './errors'
 import type { KeyCondition, FilterExpression } from './types'
 
 describe('KeyConditionBuilder', () => {
@@ -221,6 +230,56 @@ describe('KeyConditionBuilder', () => {
       })
     })
   })
+
+  describe('custom key schema', () => {
+    test('should map pk and sk to key schema attribute names', () => {
+      const builder = new KeyConditionBuilder({
+        partitionKey: { name: 'PK', type: 'string' },
+        sortKey: { name: 'SK', type: 'string' },
+      })
+      const keyCondition: KeyCondition = {
+        pk: 'USER#123',
+        sk: { beginsWith: 'ORDER#' },
+      }
+
+      const result = builder.build(keyCondition)
+
+      expect(result.expression).toBe('#k0 = :k0 AND begins_with(#k1, :k1)')
+      expect(result.attributeNames).toEqual({ '#k0': 'PK', '#k1': 'SK' })
+      expect(result.attributeValues).toEqual({ ':k0': 'USER#123', ':k1': 'ORDER#' })
+    })
+
+    test('should support number sort keys', () => {
+      const builder = new KeyConditionBuilder({
+        partitionKey: { name: 'tenantId', type: 'string' },
+        sortKey: { name: 'createdAt', type: 'number' },
+      })
+      const keyCondition: KeyCondition = {
+        pk: 'acme',
+        sk: { between: [1700000000, 1800000000] },
+      }
+
+      const result = builder.build(keyCondition)
+
+      expect(result.expression).toBe('#k0 = :k0 AND #k1 BETWEEN :k1 AND :k2')
+      expect(result.attributeNames).toEqual({ '#k0': 'tenantId', '#k1': 'createdAt' })
+      expect(result.attributeValues).toEqual({
+        ':k0': 'acme',
+        ':k1': 1700000000,
+        ':k2': 1800000000,
+      })
+    })
+
+    test('should throw when sort key is used without a schema sort key', () => {
+      const builder = new KeyConditionBuilder({
+        partitionKey: { name: 'id', type: 'number' },
+      })
+
+      expect(() => builder.build({ pk: 42, sk: 'PROFILE' })).toThrow(
+        'Key condition specifies a sort key but the key schema has no sort key'
+      )
+    })
+  })
 })
 
 describe('FilterExpressionBuilder', () => {
@@ -373,6 +432,307 @@ describe('FilterExpressionBuilder', () => {
       ':f3': 'premium',
     })
   })
+
+  describe('attribute_type and size', () => {
+    test('should build attribute_type checks', () => {
+      const builder = new FilterExpressionBuilder()
+
+      const result = builder.build({ score: { attributeType: 'N' } })
+
+      expect(result.expression).toBe('attribute_type(#f0, :f0)')
+      expect(result.attributeNames).toEqual({ '#f0': 'score' })
+      expect(result.attributeValues).toEqual({ ':f0': 'N' })
+    })
+
+    test('should build size comparisons', () => {
+      const builder = new FilterExpressionBuilder()
+
+      const result = builder.build({
+        tags: { size: { gt: 0, lte: 10 } },
+        'profile.bio': { size: { between: [10, 500] } },
+      })
+
+      expect(result.expression).toBe(
+        'size(#f0) <= :f0 AND size(#f0) > :f1 AND size(#f1.#f2) BETWEEN :f2 AND :f3'
+      )
+      expect(result.attributeValues).toEqual({ ':f0': 10, ':f1': 0, ':f2': 10, ':f3': 500 })
+    })
+
+    test('should reject unknown attribute types', () => {
+      expect(() =>
+        new FilterExpressionBuilder().build({ score: { attributeType: 'NUMBER' as any } })
+      ).toThrow("Invalid attribute type 'NUMBER'")
+    })
+  })
+
+  describe('logical operators', () => {
+    test('should build OR groups', () => {
+      const builder = new FilterExpressionBuilder()
+      const filter: FilterExpression = {
+        or: [{ status: 'A' }, { priority: { gt: 5 } }],
+      }
+
+      const result = builder.build(filter)
+
+      expect(result.expression).toBe('(#f0 = :f0 OR #f1 > :f1)')
+      expect(result.attributeNames).toEqual({ '#f0': 'status', '#f1': 'priority' })
+      expect(result.attributeValues).toEqual({ ':f0': 'A', ':f1': 5 })
+    })
+
+    test('should combine groups with other fields using AND', () => {
+      const builder = new FilterExpressionBuilder()
+      const filter: FilterExpression = {
+        type: 'TASK',
+        or: [{ status: 'OPEN' }, { and: [{ status: 'CLOSED' }, { reopened: true }] }],
+      }
+
+      const result = builder.build(filter)
+
+      expect(result.expression).toBe('#f0 = :f0 AND (#f1 = :f1 OR (#f2 = :f2 AND #f3 = :f3))')
+      expect(result.attributeNames).toEqual({
+        '#f0': 'type',
+        '#f1': 'status',
+        '#f2': 'status',
+        '#f3': 'reopened',
+      })
+    })
+
+    test('should parenthesize negated filters', () => {
+      const builder = new FilterExpressionBuilder()
+      const filter: FilterExpression = {
+        not: { archived: true, deleted: true },
+        owner: 'alice',
+      }
+
+      const result = builder.build(filter)
+
+      expect(result.expression).toBe('NOT (#f0 = :f0 AND #f1 = :f1) AND #f2 = :f2')
+    })
+
+    test('should keep multiple operators on one field inside a group', () => {
+      const builder = new FilterExpressionBuilder()
+      const filter: FilterExpression = {
+        or: [{ age: { gte: 18, lt: 65 } }, { vip: true }],
+      }
+
+      const result = builder.build(filter)
+
+      expect(result.expression).toBe('(#f0 < :f0 AND #f0 >= :f1 OR #f1 = :f2)')
+    })
+
+    test('should skip empty groups', () => {
+      const builder = new FilterExpressionBuilder()
+      const filter: FilterExpression = {
+        status: 'ACTIVE',
+        or: [],
+        and: [{}],
+        not: {},
+      }
+
+      const result = builder.build(filter)
+
+      expect(result.expression).toBe('#f0 = :f0')
+    })
+  })
+
+  describe('attribute paths', () => {
+    test('should build nested map paths', () => {
+      const builder = new FilterExpressionBuilder()
+
+      const result = builder.build({ 'address.city': 'Berlin' })
+
+      expect(result.expression).toBe('#f0.#f1 = :f0')
+      expect(result.attributeNames).toEqual({ '#f0': 'address', '#f1': 'city' })
+      expect(result.attributeValues).toEqual({ ':f0': 'Berlin' })
+    })
+
+    test('should build list index paths', () => {
+      const builder = new FilterExpressionBuilder()
+
+      const result = builder.build({ 'tags[0]': 'featured', 'orders[1].items[2].sku': { exists: true } })
+
+      expect(result.expression).toBe('#f0[0] = :f0 AND attribute_exists(#f1[1].#f2[2].#f3)')
+      expect(result.attributeNames).toEqual({
+        '#f0': 'tags',
+        '#f1': 'orders',
+        '#f2': 'items',
+        '#f3': 'sku',
+      })
+    })
+
+    test('should treat escaped dots as part of the attribute name', () => {
+      const builder = new FilterExpressionBuilder()
+
+      const result = builder.build({ 'user\\.name': 'alice', 'meta\\.v1.status': 'OK' })
+
+      expect(result.expression).toBe('#f0 = :f0 AND #f1.#f2 = :f1')
+      expect(result.attributeNames).toEqual({
+        '#f0': 'user.name',
+        '#f1': 'meta.v1',
+        '#f2': 'status',
+      })
+    })
+
+    test('should reject malformed paths', () => {
+      expect(() => new FilterExpressionBuilder().build({ 'tags[]': 'x' })).toThrow(
+        "Invalid attribute path 'tags[]'"
+      )
+      expect(() => new FilterExpressionBuilder().build({ '.status': 'x' })).toThrow(
+        "Invalid attribute path '.status'"
+      )
+      expect(() => new FilterExpressionBuilder().build({ 'tags[0]x': 'x' })).toThrow(
+        "Invalid attribute path 'tags[0]x'"
+      )
+      expect(() => new FilterExpressionBuilder().build({ 'status\\': 'x' })).toThrow(
+        "Invalid attribute path 'status\\'"
+      )
+    })
+  })
+})
+
+describe('ConditionExpressionBuilder', () => {
+  describe('attribute paths', () => {
+    test('should build nested map and list paths', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({
+        'address.city': { ne: 'Paris' },
+        'items[0]': { exists: true },
+      })
+
+      expect(result.expression).toBe('#c0.#c1 <> :c0 AND attribute_exists(#c2[0])')
+      expect(result.attributeNames).toEqual({ '#c0': 'address', '#c1': 'city', '#c2': 'items' })
+      expect(result.attributeValues).toEqual({ ':c0': 'Paris' })
+    })
+
+    test('should support paths inside logical operators', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({
+        or: [{ 'profile.status': 'ACTIVE' }, { 'flags[2]': true }],
+      })
+
+      expect(result.expression).toBe('(#c0.#c1 = :c0 OR #c2[2] = :c1)')
+      expect(result.attributeNames).toEqual({ '#c0': 'profile', '#c1': 'status', '#c2': 'flags' })
+    })
+
+    test('should treat escaped dots as part of the attribute name', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({ [escapeAttributeName('legacy.id')]: { exists: false } })
+
+      expect(result.expression).toBe('attribute_not_exists(#c0)')
+      expect(result.attributeNames).toEqual({ '#c0': 'legacy.id' })
+    })
+  })
+
+  describe('operators', () => {
+    test('should build between and in comparisons', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({
+        price: { between: [10, 20] },
+        status: { in: ['DRAFT', 'PENDING'] },
+      })
+
+      expect(result.expression).toBe('#c0 BETWEEN :c0 AND :c1 AND #c1 IN (:c2, :c3)')
+      expect(result.attributeValues).toEqual({
+        ':c0': 10,
+        ':c1': 20,
+        ':c2': 'DRAFT',
+        ':c3': 'PENDING',
+      })
+    })
+
+    test('should accept in lists of 1 to 100 values', () => {
+      const values = Array.from({ length: 100 }, (_, i) => `STATUS#${i}`)
+
+      const single = new ConditionExpressionBuilder().build({ status: { in: ['DRAFT'] } })
+      const full = new ConditionExpressionBuilder().build({ status: { in: values } })
+
+      expect(single.expression).toBe('#c0 IN (:c0)')
+      expect(Object.keys(full.attributeValues)).toHaveLength(100)
+    })
+
+    test('should reject empty in lists and lists over 100 values', () => {
+      const values = Array.from({ length: 101 }, (_, i) => `STATUS#${i}`)
+
+      expect(() => new ConditionExpressionBuilder().build({ status: { in: [] } })).toThrow(
+        ValidationError
+      )
+      expect(() => new ConditionExpressionBuilder().build({ status: { in: values } })).toThrow(
+        "IN condition on 'status' must list between 1 and 100 values, got 101"
+      )
+    })
+
+    test('should build attribute_type checks', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({ balance: { attributeType: 'N' } })
+
+      expect(result.expression).toBe('attribute_type(#c0, :c0)')
+      expect(result.attributeValues).toEqual({ ':c0': 'N' })
+    })
+
+    test('should build size guards', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({ entries: { size: { lt: 100 } } })
+
+      expect(result.expression).toBe('size(#c0) < :c0')
+      expect(result.attributeNames).toEqual({ '#c0': 'entries' })
+      expect(result.attributeValues).toEqual({ ':c0': 100 })
+    })
+
+    test('should combine size guards with existence checks', () => {
+      const builder = new ConditionExpressionBuilder()
+
+      const result = builder.build({
+        or: [{ entries: { exists: false } }, { entries: { size: { lt: 100 } } }],
+      })
+
+      expect(result.expression).toBe('(attribute_not_exists(#c0) OR size(#c1) < :c0)')
+    })
+
+    test('should reject unknown attribute types', () => {
+      expect(() =>
+        new ConditionExpressionBuilder().build({ balance: { attributeType: 'int' } })
+      ).toThrow("Invalid attribute type 'int'. Expected one of: S, SS, N, NS, B, BS, BOOL, NULL, L, M")
+    })
+  })
+})
+
+describe('escapeAttributeName', () => {
+  test('should escape dots, brackets and backslashes', () => {
+    expect(escapeAttributeName('user.name')).toBe('user\\.name')
+    expect(escapeAttributeName('tags[0]')).toBe('tags\\[0\\]')
+    expect(escapeAttributeName('a\\b')).toBe('a\\\\b')
+  })
+
+  test('should leave plain names unchanged', () => {
+    expect(escapeAttributeName('status')).toBe('status')
+  })
+
+  test('should round-trip through path parsing', () => {
+    const result = new ProjectionExpressionBuilder().build([escapeAttributeName('odd.[name]\\')])
+
+    expect(result.expression).toBe('#p0')
+    expect(result.attributeNames).toEqual({ '#p0': 'odd.[name]\\' })
+  })
+})
+
+describe('untyped', () => {
+  test('should return the expression unchanged', () => {
+    const filter = { 'legacy.flag': true }
+
+    expect(untyped(filter)).toBe(filter)
+  })
+
+  test('should be accepted by FilterExpressionBuilder', () => {
+    const result = new FilterExpressionBuilder().build(untyped({ status: 'ACTIVE' }))
+
+    expect(result.expression).toBe('#f0 = :f0')
+  })
 })
 
 describe('ProjectionExpressionBuilder', () => {
@@ -521,3 +881,133 @@ describe('ProjectionExpressionBuilder', () => {
     expect(result.attributeValues).toEqual({})
   })
 })
+
+describe('ProjectionExpressionBuilder - list indexes', () => {
+  test('should keep list indexes outside of name placeholders', () => {
+    const builder = new ProjectionExpressionBuilder()
+
+    const result = builder.build(['items[0].sku', 'tags[3]'])
+
+    expect(result.expression).toBe('#p0[0].#p1, #p2[3]')
+    expect(result.attributeNames).toEqual({ '#p0': 'items', '#p1': 'sku', '#p2': 'tags' })
+  })
+})
+
+describe('UpdateExpressionBuilder', () => {
+  test('should build SET for a single attribute', () => {
+    const result = new UpdateExpressionBuilder().set('status', 'ACTIVE').build()
+
+    expect(result.expression).toBe('SET #u0 = :u0')
+    expect(result.attributeNames).toEqual({ '#u0': 'status' })
+    expect(result.attributeValues).toEqual({ ':u0': 'ACTIVE' })
+  })
+
+  test('should build nested paths and list indexes', () => {
+    const result = new UpdateExpressionBuilder()
+      .set('address.city', 'Berlin')
+      .set('items[2].qty', 3)
+      .build()
+
+    expect(result.expression).toBe('SET #u0.#u1 = :u0, #u2[2].#u3 = :u1')
+    expect(result.attributeNames).toEqual({
+      '#u0': 'address',
+      '#u1': 'city',
+      '#u2': 'items',
+      '#u3': 'qty',
+    })
+    expect(result.attributeValues).toEqual({ ':u0': 'Berlin', ':u1': 3 })
+  })
+
+  test('should build if_not_exists', () => {
+    const result = new UpdateExpressionBuilder().setIfNotExists('createdAt', 1700000000).build()
+
+    expect(result.expression).toBe('SET #u0 = if_not_exists(#u0, :u0)')
+    expect(result.attributeNames).toEqual({ '#u0': 'createdAt' })
+    expect(result.attributeValues).toEqual({ ':u0': 1700000000 })
+  })
+
+  test('should build arithmetic increments and decrements', () => {
+    const result = new UpdateExpressionBuilder()
+      .increment('views')
+      .decrement('stock', 5)
+      .build()
+
+    expect(result.expression).toBe('SET #u0 = #u0 + :u0, #u1 = #u1 - :u1')
+    expect(result.attributeNames).toEqual({ '#u0': 'views', '#u1': 'stock' })
+    expect(result.attributeValues).toEqual({ ':u0': 1, ':u1': 5 })
+  })
+
+  test('should build list_append for append and prepend', () => {
+    const result = new UpdateExpressionBuilder()
+      .appendToList('history', ['shipped'])
+      .prependToList('recent', ['new'])
+      .build()
+
+    expect(result.expression).toBe(
+      'SET #u0 = list_append(#u0, :u0), #u1 = list_append(:u1, #u1)'
+    )
+    expect(result.attributeValues).toEqual({ ':u0': ['shipped'], ':u1': ['new'] })
+  })
+
+  test('should build REMOVE with multiple paths', () => {
+    const result = new UpdateExpressionBuilder().remove('draft', 'tags[0]').build()
+
+    expect(result.expression).toBe('REMOVE #u0, #u1[0]')
+    expect(result.attributeNames).toEqual({ '#u0': 'draft', '#u1': 'tags' })
+    expect(result.attributeValues).toEqual({})
+  })
+
+  test('should build ADD and DELETE for numbers and sets', () => {
+    const result = new UpdateExpressionBuilder()
+      .add('loginCount', 1)
+      .add('tags', new Set(['vip']))
+      .delete('roles', new Set(['guest']))
+      .build()
+
+    expect(result.expression).toBe('ADD #u0 :u0, #u1 :u1 DELETE #u2 :u2')
+    expect(result.attributeNames).toEqual({ '#u0': 'loginCount', '#u1': 'tags', '#u2': 'roles' })
+    expect(result.attributeValues).toEqual({
+      ':u0': 1,
+      ':u1': new Set(['vip']),
+      ':u2': new Set(['guest']),
+    })
+  })
+
+  test('should order clauses as SET, REMOVE, ADD, DELETE', () => {
+    const result = new UpdateExpressionBuilder()
+      .set('status', 'SHIPPED')
+      .set('address.city', 'Berlin')
+      .increment('viewCount')
+      .appendToList('history', [{ event: 'shipped' }])
+      .add('tags', new Set(['priority']))
+      .remove('draftNotes')
+      .build()
+
+    expect(result.expression).toBe(
+      'SET #u0 = :u0, #u1.#u2 = :u1, #u3 = #u3 + :u2, #u4 = list_append(#u4, :u3) REMOVE #u6 ADD #u5 :u4'
+    )
+  })
+
+  test('should report whether any action was added', () => {
+    const builder = new UpdateExpressionBuilder()
+
+    expect(builder.isEmpty()).toBe(true)
+    builder.remove('draft')
+    expect(builder.isEmpty()).toBe(false)
+  })
+
+  test('should throw when building without actions', () => {
+    expect(() => new UpdateExpressionBuilder().build()).toThrow(
+      'Update expression must contain at least one action'
+    )
+  })
+
+  test('should throw on malformed paths', () => {
+    expect(() => new UpdateExpressionBuilder().set('items[x]', 1)).toThrow(
+      "Invalid attribute path 'items[x]'"
+    )
+    expect(() => new UpdateExpressionBuilder().remove('address..city')).toThrow(
+      "Invalid attribute path 'address..city'"
+    )
+  })
+})
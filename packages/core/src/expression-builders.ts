@@ -2,7 +2,17 @@
  * Expression builders for DynamoDB queries and filters
  */
 
-import type { KeyCondition, FilterExpression } from './types'
+import type {
+  AttributeType,
+  KeyCondition,
+  FilterExpression,
+  ConditionExpression,
+  KeySchema,
+  SizeOperators,
+  UntypedExpression,
+} from './types'
+import { DDBLibError, ValidationError } from './errors'
+import { DEFAULT_KEY_SCHEMA } from './key-schema'
 
 /**
  * Result of building an expression
@@ -13,16 +23,237 @@ export interface ExpressionResult {
   attributeValues: Record<string, any>
 }
 
+/**
+ * Segment of a parsed attribute path: an attribute name plus optional list indexes
+ */
+interface AttributePathSegment {
+  name: string
+  indexes: number[]
+}
+
+/**
+ * Escape an attribute name so it is treated literally inside an attribute path
+ * Use for top-level names that really contain dots or brackets
+ * @param name - Attribute name to escape
+ * @returns Escaped attribute name
+ * @example
+ * escapeAttributeName('user.name') // 'user\\.name'
+ * `${escapeAttributeName('meta.v1')}.status` // nested 'status' inside attribute 'meta.v1'
+ */
+export function escapeAttributeName(name: string): string {
+  return name.replace(/[\\.[\]]/g, '\\$&')
+}
+
+/**
+ * Parse an attribute path into segments
+ * Dots separate map attributes, `[n]` selects list elements and a backslash escapes
+ * the next character (so `a\\.b` is the single attribute name `a.b`)
+ * @throws {DDBLibError} If the path is malformed
+ */
+function parseAttributePath(path: string): AttributePathSegment[] {
+  const invalid = (reason: string) =>
+    new DDBLibError(`Invalid attribute path '${path}': ${reason}`, 'INVALID_ATTRIBUTE_PATH', {
+      path,
+    })
+
+  const segments: AttributePathSegment[] = []
+  let current: AttributePathSegment = { name: '', indexes: [] }
+  let i = 0
+
+  while (i < path.length) {
+    const char = path[i]
+
+    if (char === '\\') {
+      if (i + 1 >= path.length) {
+        throw invalid('dangling escape character')
+      }
+      if (current.indexes.length > 0) {
+        throw invalid('unexpected characters after list index')
+      }
+      current.name += path[i + 1]
+      i += 2
+    } else if (char === '.') {
+      if (current.name === '') {
+        throw invalid('empty attribute name')
+      }
+      segments.push(current)
+      current = { name: '', indexes: [] }
+      i++
+    } else if (char === '[') {
+      const closing = path.indexOf(']', i)
+      const index = closing === -1 ? '' : path.slice(i + 1, closing)
+      if (current.name === '' || !/^\d+$/.test(index)) {
+        throw invalid('list index must be a non-negative integer following an attribute name')
+      }
+      current.indexes.push(Number.parseInt(index, 10))
+      i = closing + 1
+    } else {
+      if (current.indexes.length > 0) {
+        throw invalid('unexpected characters after list index')
+      }
+      current.name += char
+      i++
+    }
+  }
+
+  if (current.name === '') {
+    throw invalid('empty attribute name')
+  }
+  segments.push(current)
+
+  return segments
+}
+
+/**
+ * Convert an attribute path into an expression path with name placeholders
+ * Supports nested map attributes ('address.city'), list indexes ('items[0].sku')
+ * and escaped names ('user\\.name')
+ * @param path - Attribute path
+ * @param names - Expression attribute names to register each path segment in
+ * @param nextNameKey - Function returning the next name placeholder
+ * @throws {DDBLibError} If the path is malformed
+ */
+function buildAttributePath(
+  path: string,
+  names: Record<string, string>,
+  nextNameKey: () => string
+): string {
+  return parseAttributePath(path)
+    .map((segment) => {
+      const nameKey = nextNameKey()
+      names[nameKey] = segment.name
+      return `${nameKey}${segment.indexes.map((index) => `[${index}]`).join('')}`
+    })
+    .join('.')
+}
+
+/**
+ * Mark a filter or condition expression as untyped so it is accepted where an
+ * item-typed expression is expected (e.g. `TableClient<TItem>` query or put options)
+ * Use it for attributes missing from the item type or names containing '.', '[' or ']'
+ * @param expression - Filter or condition expression object
+ * @returns The same object, typed as an `UntypedExpression`
+ * @example
+ * await table.scan({ filter: untyped({ [escapeAttributeName('legacy.flag')]: true }) })
+ */
+export function untyped(expression: FilterExpression | ConditionExpression): UntypedExpression {
+  return expression as UntypedExpression
+}
+
+/**
+ * Attribute type descriptors accepted by attribute_type()
+ */
+const ATTRIBUTE_TYPES: AttributeType[] = ['S', 'SS', 'N', 'NS', 'B', 'BS', 'BOOL', 'NULL', 'L', 'M']
+
+/**
+ * Build an attribute_type() check for an attribute path
+ * @param nameKey - Expression path of the attribute
+ * @param attributeType - Expected DynamoDB type descriptor
+ * @param addValue - Function registering a value and returning its placeholder
+ * @throws {DDBLibError} If the type descriptor is not a DynamoDB type
+ */
+function buildAttributeTypeCondition(
+  nameKey: string,
+  attributeType: AttributeType,
+  addValue: (value: any) => string
+): string {
+  if (!ATTRIBUTE_TYPES.includes(attributeType)) {
+    throw new DDBLibError(
+      `Invalid attribute type '${attributeType}'. Expected one of: ${ATTRIBUTE_TYPES.join(', ')}`,
+      'INVALID_ATTRIBUTE_TYPE',
+      { attributeType }
+    )
+  }
+
+  return `attribute_type(${nameKey}, ${addValue(attributeType)})`
+}
+
+/**
+ * Build comparisons against size() of an attribute path
+ * @param nameKey - Expression path of the attribute
+ * @param size - Comparison operators to apply to the size
+ * @param addValue - Function registering a value and returning its placeholder
+ */
+function buildSizeConditions(
+  nameKey: string,
+  size: SizeOperators,
+  addValue: (value: any) => string
+): string[] {
+  const operand = `size(${nameKey})`
+  const comparisons: Array<[keyof SizeOperators, string]> = [
+    ['eq', '='],
+    ['ne', '<>'],
+    ['lt', '<'],
+    ['lte', '<='],
+    ['gt', '>'],
+    ['gte', '>='],
+  ]
+  const expressions: string[] = []
+
+  for (const [operator, comparator] of comparisons) {
+    if (operator in size) {
+      expressions.push(`${operand} ${comparator} ${addValue(size[operator])}`)
+    }
+  }
+  if (Array.isArray(size.between)) {
+    const start = addValue(size.between[0])
+    const end = addValue(size.between[1])
+    expressions.push(`${operand} BETWEEN ${start} AND ${end}`)
+  }
+
+  return expressions
+}
+
+/**
+ * Maximum number of values DynamoDB accepts in the list of an IN comparison
+ */
+const MAX_IN_VALUES = 100
+
+/**
+ * Build an IN comparison of an attribute path against a list of values
+ * @param field - Attribute path as written in the expression object
+ * @param nameKey - Expression path of the attribute
+ * @param values - Values the attribute is compared against
+ * @param addValue - Function registering a value and returning its placeholder
+ * @throws {ValidationError} If the list is empty or has more than 100 values
+ */
+function buildInCondition(
+  field: string,
+  nameKey: string,
+  values: any[],
+  addValue: (value: any) => string
+): string {
+  if (values.length === 0 || values.length > MAX_IN_VALUES) {
+    throw new ValidationError(
+      `IN condition on '${field}' must list between 1 and ${MAX_IN_VALUES} values, got ${values.length}`,
+      field,
+      values,
+      `list of 1 to ${MAX_IN_VALUES} values`
+    )
+  }
+
+  return `${nameKey} IN (${values.map((value) => addValue(value)).join(', ')})`
+}
+
 /**
  * Builder for KeyConditionExpression
+ * The `pk`/`sk` fields of a KeyCondition are mapped to the attribute names of the key schema
  */
 export class KeyConditionBuilder {
+  private readonly keySchema: KeySchema
   private nameCounter = 0
   private valueCounter = 0
   private names: Record<string, string> = {}
   private values: Record<string, any> = {}
   private expressions: string[] = []
 
+  /**
+   * @param keySchema - Key schema of the table or index being queried (default: `pk`/`sk`)
+   */
+  constructor(keySchema: KeySchema = DEFAULT_KEY_SCHEMA) {
+    this.keySchema = keySchema
+  }
+
   /**
    * Build a KeyConditionExpression from a KeyCondition object
    */
@@ -57,7 +288,7 @@ export class KeyConditionBuilder {
     const nameKey = this.getNextNameKey()
     const valueKey = this.getNextValueKey()
 
-    this.names[nameKey] = 'pk'
+    this.names[nameKey] = this.keySchema.partitionKey.name
     this.values[valueKey] = pk
     this.expressions.push(`${nameKey} = ${valueKey}`)
   }
@@ -84,8 +315,16 @@ export class KeyConditionBuilder {
   private buildSortKey(
     sk: string | number | Uint8Array | Record<string, any>
   ): void {
+    if (!this.keySchema.sortKey) {
+      throw new DDBLibError(
+        `Key condition specifies a sort key but the key schema has no sort key (partition key: '${this.keySchema.partitionKey.name}')`,
+        'INVALID_KEY_CONDITION',
+        { partitionKey: this.keySchema.partitionKey.name }
+      )
+    }
+
     const nameKey = this.getNextNameKey()
-    this.names[nameKey] = 'sk'
+    this.names[nameKey] = this.keySchema.sortKey.name
 
     if (typeof sk === 'object' && !(sk instanceof Uint8Array)) {
       // Complex sort key condition
@@ -258,100 +497,150 @@ export class FilterExpressionBuilder {
   private valueCounter = 0
   private names: Record<string, string> = {}
   private values: Record<string, any> = {}
-  private expressions: string[] = []
 
   /**
    * Build a FilterExpression from a FilterExpression object
    */
-  build(filter: FilterExpression): ExpressionResult {
-    for (const [field, condition] of Object.entries(filter)) {
-      this.buildFieldCondition(field, condition)
-    }
-
+  build(filter: FilterExpression | UntypedExpression): ExpressionResult {
     return {
-      expression: this.expressions.join(' AND '),
+      expression: this.buildFilter(filter as FilterExpression),
       attributeNames: this.names,
       attributeValues: this.values,
     }
   }
 
+  /**
+   * Build a filter recursively, handling logical operators
+   * Groups and negations are parenthesized so they bind correctly next to other fields
+   */
+  private buildFilter(filter: FilterExpression): string {
+    const expressions: string[] = []
+
+    for (const [field, value] of Object.entries(filter)) {
+      if (field === 'and' && Array.isArray(value)) {
+        const group = this.buildGroup(value, 'AND')
+        if (group) {
+          expressions.push(group)
+        }
+      } else if (field === 'or' && Array.isArray(value)) {
+        const group = this.buildGroup(value, 'OR')
+        if (group) {
+          expressions.push(group)
+        }
+      } else if (field === 'not') {
+        const subFilter = this.buildFilter(value)
+        if (subFilter) {
+          expressions.push(`NOT (${subFilter})`)
+        }
+      } else {
+        // Regular field condition
+        expressions.push(...this.buildFieldCondition(field, value))
+      }
+    }
+
+    return expressions.join(' AND ')
+  }
+
+  /**
+   * Build a parenthesized group of sub-filters joined by a logical operator
+   * Empty sub-filters are skipped; an empty group yields an empty string
+   */
+  private buildGroup(filters: FilterExpression[], operator: 'AND' | 'OR'): string {
+    const subFilters = filters
+      .map((filter) => this.buildFilter(filter))
+      .filter((expression) => expression !== '')
+
+    if (subFilters.length === 0) {
+      return ''
+    }
+    return `(${subFilters.join(` ${operator} `)})`
+  }
+
   /**
    * Build a condition for a single field
+   * The field may be a nested path ('address.city') or index a list ('tags[0]')
    */
-  private buildFieldCondition(field: string, condition: any): void {
-    const nameKey = this.getNextNameKey()
-    this.names[nameKey] = field
+  private buildFieldCondition(field: string, condition: any): string[] {
+    const nameKey = buildAttributePath(field, this.names, () => this.getNextNameKey())
+    const expressions: string[] = []
 
     if (typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
       // Complex condition
       if ('eq' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.eq
-        this.expressions.push(`${nameKey} = ${valueKey}`)
+        expressions.push(`${nameKey} = ${valueKey}`)
       }
       if ('ne' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.ne
-        this.expressions.push(`${nameKey} <> ${valueKey}`)
+        expressions.push(`${nameKey} <> ${valueKey}`)
       }
       if ('lt' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.lt
-        this.expressions.push(`${nameKey} < ${valueKey}`)
+        expressions.push(`${nameKey} < ${valueKey}`)
       }
       if ('lte' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.lte
-        this.expressions.push(`${nameKey} <= ${valueKey}`)
+        expressions.push(`${nameKey} <= ${valueKey}`)
       }
       if ('gt' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.gt
-        this.expressions.push(`${nameKey} > ${valueKey}`)
+        expressions.push(`${nameKey} > ${valueKey}`)
       }
       if ('gte' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.gte
-        this.expressions.push(`${nameKey} >= ${valueKey}`)
+        expressions.push(`${nameKey} >= ${valueKey}`)
       }
       if ('between' in condition && Array.isArray(condition.between)) {
         const valueKey1 = this.getNextValueKey()
         const valueKey2 = this.getNextValueKey()
         this.values[valueKey1] = condition.between[0]
         this.values[valueKey2] = condition.between[1]
-        this.expressions.push(`${nameKey} BETWEEN ${valueKey1} AND ${valueKey2}`)
+        expressions.push(`${nameKey} BETWEEN ${valueKey1} AND ${valueKey2}`)
       }
       if ('in' in condition && Array.isArray(condition.in)) {
-        const valueKeys = condition.in.map((val: any) => {
-          const valueKey = this.getNextValueKey()
-          this.values[valueKey] = val
-          return valueKey
-        })
-        this.expressions.push(`${nameKey} IN (${valueKeys.join(', ')})`)
+        expressions.push(
+          buildInCondition(field, nameKey, condition.in, (value) => this.addValue(value))
+        )
       }
       if ('exists' in condition) {
         if (condition.exists) {
-          this.expressions.push(`attribute_exists(${nameKey})`)
+          expressions.push(`attribute_exists(${nameKey})`)
         } else {
-          this.expressions.push(`attribute_not_exists(${nameKey})`)
+          expressions.push(`attribute_not_exists(${nameKey})`)
         }
       }
       if ('contains' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.contains
-        this.expressions.push(`contains(${nameKey}, ${valueKey})`)
+        expressions.push(`contains(${nameKey}, ${valueKey})`)
       }
       if ('beginsWith' in condition) {
         const valueKey = this.getNextValueKey()
         this.values[valueKey] = condition.beginsWith
-        this.expressions.push(`begins_with(${nameKey}, ${valueKey})`)
+        expressions.push(`begins_with(${nameKey}, ${valueKey})`)
+      }
+      if ('attributeType' in condition) {
+        expressions.push(
+          buildAttributeTypeCondition(nameKey, condition.attributeType, (value) => this.addValue(value))
+        )
+      }
+      if ('size' in condition && typeof condition.size === 'object' && condition.size !== null) {
+        expressions.push(...buildSizeConditions(nameKey, condition.size, (value) => this.addValue(value)))
       }
     } else {
       // Simple equality condition
       const valueKey = this.getNextValueKey()
       this.values[valueKey] = condition
-      this.expressions.push(`${nameKey} = ${valueKey}`)
+      expressions.push(`${nameKey} = ${valueKey}`)
     }
+
+    return expressions
   }
 
   private getNextNameKey(): string {
@@ -361,6 +650,12 @@ export class FilterExpressionBuilder {
   private getNextValueKey(): string {
     return `:f${this.valueCounter++}`
   }
+
+  private addValue(value: any): string {
+    const valueKey = this.getNextValueKey()
+    this.values[valueKey] = value
+    return valueKey
+  }
 }
 
 /**
@@ -424,10 +719,10 @@ export class ConditionExpressionBuilder {
 
   /**
    * Build a condition for a single field
+   * The field may be a nested path ('address.city') or index a list ('tags[0]')
    */
   private buildFieldCondition(field: string, condition: any): string {
-    const nameKey = this.getNextNameKey()
-    this.names[nameKey] = field
+    const nameKey = buildAttributePath(field, this.names, () => this.getNextNameKey())
 
     if (typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
       // Complex condition with operators
@@ -463,6 +758,18 @@ export class ConditionExpressionBuilder {
         this.values[valueKey] = condition.gte
         expressions.push(`${nameKey} >= ${valueKey}`)
       }
+      if ('between' in condition && Array.isArray(condition.between)) {
+        const valueKey1 = this.getNextValueKey()
+        const valueKey2 = this.getNextValueKey()
+        this.values[valueKey1] = condition.between[0]
+        this.values[valueKey2] = condition.between[1]
+        expressions.push(`${nameKey} BETWEEN ${valueKey1} AND ${valueKey2}`)
+      }
+      if ('in' in condition && Array.isArray(condition.in)) {
+        expressions.push(
+          buildInCondition(field, nameKey, condition.in, (value) => this.addValue(value))
+        )
+      }
       if ('exists' in condition) {
         if (condition.exists) {
           expressions.push(`attribute_exists(${nameKey})`)
@@ -480,6 +787,14 @@ export class ConditionExpressionBuilder {
         this.values[valueKey] = condition.beginsWith
         expressions.push(`begins_with(${nameKey}, ${valueKey})`)
       }
+      if ('attributeType' in condition) {
+        expressions.push(
+          buildAttributeTypeCondition(nameKey, condition.attributeType, (value) => this.addValue(value))
+        )
+      }
+      if ('size' in condition && typeof condition.size === 'object' && condition.size !== null) {
+        expressions.push(...buildSizeConditions(nameKey, condition.size, (value) => this.addValue(value)))
+      }
 
       return expressions.join(' AND ')
     }
@@ -497,6 +812,12 @@ export class ConditionExpressionBuilder {
   private getNextValueKey(): string {
     return `:c${this.valueCounter++}`
   }
+
+  private addValue(value: any): string {
+    const valueKey = this.getNextValueKey()
+    this.values[valueKey] = value
+    return valueKey
+  }
 }
 
 /**
@@ -509,13 +830,17 @@ export class ProjectionExpressionBuilder {
 
   /**
    * Build a ProjectionExpression from an array of attribute paths
-   * Supports nested attributes using dot notation (e.g., 'user.email')
+   * Supports nested attributes using dot notation (e.g., 'user.email'), list
+   * indexes (e.g., 'items[0]') and escaped names (e.g., 'user\\.name')
    */
   build(attributes: string[]): ExpressionResult {
     const projectionParts: string[] = []
 
     for (const attribute of attributes) {
-      const projectionPart = this.buildAttributePath(attribute)
+      // Nested attributes become placeholder paths (e.g., 'user.email' becomes '#p0.#p1')
+      const projectionPart = buildAttributePath(attribute, this.names, () =>
+        this.getNextNameKey()
+      )
       projectionParts.push(projectionPart)
     }
 
@@ -526,25 +851,190 @@ export class ProjectionExpressionBuilder {
     }
   }
 
+  private getNextNameKey(): string {
+    return `#p${this.nameCounter++}`
+  }
+}
+
+/**
+ * Builder for UpdateExpression
+ * Fluent API producing SET, REMOVE, ADD and DELETE clauses, with support for
+ * if_not_exists, list_append, arithmetic and nested attribute paths
+ *
+ * @example
+ * const update = new UpdateExpressionBuilder()
+ *   .set('status', 'SHIPPED')
+ *   .set('address.city', 'Berlin')
+ *   .increment('viewCount')
+ *   .appendToList('history', [{ event: 'shipped' }])
+ *   .add('tags', new Set(['priority']))
+ *   .remove('draftNotes')
+ *   .build()
+ * // update.expression:
+ * // 'SET #u0 = :u0, #u1.#u2 = :u1, #u3 = #u3 + :u2, #u4 = list_append(#u4, :u3) REMOVE #u6 ADD #u5 :u4'
+ */
+export class UpdateExpressionBuilder {
+  private nameCounter = 0
+  private valueCounter = 0
+  private names: Record<string, string> = {}
+  private values: Record<string, any> = {}
+  private setActions: string[] = []
+  private removeActions: string[] = []
+  private addActions: string[] = []
+  private deleteActions: string[] = []
+
+  /**
+   * Set an attribute to a value (SET path = value)
+   */
+  set(path: string, value: any): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(value)
+    this.setActions.push(`${pathExpression} = ${valueKey}`)
+    return this
+  }
+
   /**
-   * Build a projection path for a single attribute
-   * Handles nested attributes (e.g., 'user.email' becomes '#p0.#p1')
+   * Set an attribute only if it does not exist yet (SET path = if_not_exists(path, value))
    */
-  private buildAttributePath(attribute: string): string {
-    // Split on dots to handle nested attributes
-    const parts = attribute.split('.')
-    const nameParts: string[] = []
+  setIfNotExists(path: string, value: any): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(value)
+    this.setActions.push(`${pathExpression} = if_not_exists(${pathExpression}, ${valueKey})`)
+    return this
+  }
 
-    for (const part of parts) {
-      const nameKey = this.getNextNameKey()
-      this.names[nameKey] = part
-      nameParts.push(nameKey)
+  /**
+   * Increment a number attribute (SET path = path + amount)
+   * The attribute must already exist; use add() to increment attributes that may be missing
+   */
+  increment(path: string, amount = 1): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(amount)
+    this.setActions.push(`${pathExpression} = ${pathExpression} + ${valueKey}`)
+    return this
+  }
+
+  /**
+   * Decrement a number attribute (SET path = path - amount)
+   */
+  decrement(path: string, amount = 1): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(amount)
+    this.setActions.push(`${pathExpression} = ${pathExpression} - ${valueKey}`)
+    return this
+  }
+
+  /**
+   * Append elements to the end of a list attribute (SET path = list_append(path, values))
+   */
+  appendToList(path: string, values: any[]): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(values)
+    this.setActions.push(`${pathExpression} = list_append(${pathExpression}, ${valueKey})`)
+    return this
+  }
+
+  /**
+   * Prepend elements to the start of a list attribute (SET path = list_append(values, path))
+   */
+  prependToList(path: string, values: any[]): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(values)
+    this.setActions.push(`${pathExpression} = list_append(${valueKey}, ${pathExpression})`)
+    return this
+  }
+
+  /**
+   * Remove attributes or list elements (REMOVE path, ...)
+   */
+  remove(...paths: string[]): this {
+    for (const path of paths) {
+      this.removeActions.push(this.buildPath(path))
+    }
+    return this
+  }
+
+  /**
+   * Add a number to a number attribute or elements to a set attribute (ADD path value)
+   * Missing attributes are created, which makes this the safe choice for counters
+   */
+  add(path: string, value: number | Set<string> | Set<number> | Set<Uint8Array>): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(value)
+    this.addActions.push(`${pathExpression} ${valueKey}`)
+    return this
+  }
+
+  /**
+   * Delete elements from a set attribute (DELETE path value)
+   */
+  delete(path: string, value: Set<string> | Set<number> | Set<Uint8Array>): this {
+    const pathExpression = this.buildPath(path)
+    const valueKey = this.addValue(value)
+    this.deleteActions.push(`${pathExpression} ${valueKey}`)
+    return this
+  }
+
+  /**
+   * Check whether any update action has been added
+   */
+  isEmpty(): boolean {
+    return (
+      this.setActions.length === 0 &&
+      this.removeActions.length === 0 &&
+      this.addActions.length === 0 &&
+      this.deleteActions.length === 0
+    )
+  }
+
+  /**
+   * Build the UpdateExpression
+   * @throws {DDBLibError} If no update action has been added
+   */
+  build(): ExpressionResult {
+    if (this.isEmpty()) {
+      throw new DDBLibError(
+        'Update expression must contain at least one action',
+        'EMPTY_UPDATE_EXPRESSION'
+      )
+    }
+
+    const clauses: string[] = []
+    if (this.setActions.length > 0) {
+      clauses.push(`SET ${this.setActions.join(', ')}`)
+    }
+    if (this.removeActions.length > 0) {
+      clauses.push(`REMOVE ${this.removeActions.join(', ')}`)
+    }
+    if (this.addActions.length > 0) {
+      clauses.push(`ADD ${this.addActions.join(', ')}`)
+    }
+    if (this.deleteActions.length > 0) {
+      clauses.push(`DELETE ${this.deleteActions.join(', ')}`)
     }
 
-    return nameParts.join('.')
+    return {
+      expression: clauses.join(' '),
+      attributeNames: this.names,
+      attributeValues: this.values,
+    }
+  }
+
+  private buildPath(path: string): string {
+    return buildAttributePath(path, this.names, () => this.getNextNameKey())
+  }
+
+  private addValue(value: any): string {
+    const valueKey = this.getNextValueKey()
+    this.values[valueKey] = value
+    return valueKey
   }
 
   private getNextNameKey(): string {
-    return `#p${this.nameCounter++}`
+    return `#u${this.nameCounter++}`
+  }
+
+  private getNextValueKey(): string {
+    return `:u${this.valueCounter++}`
   }
 }
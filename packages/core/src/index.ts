@@ -28,12 +28,24 @@ export {
   MAX_MULTI_ATTRIBUTE_KEY_LENGTH,
 } from './multi-attribute-key-validator'
 
+// Key schema utilities
+export {
+  DEFAULT_KEY_SCHEMA,
+  validateKeySchema,
+  validateKey,
+  extractKey,
+  getKeyAttributeNames,
+} from './key-schema'
+
 // Expression builders
 export {
   KeyConditionBuilder,
   FilterExpressionBuilder,
   ConditionExpressionBuilder,
   ProjectionExpressionBuilder,
+  UpdateExpressionBuilder,
+  escapeAttributeName,
+  untyped,
 } from './expression-builders'
 
 export type { ExpressionResult } from './expression-builders'
@@ -50,16 +62,30 @@ export {
   gsiHasMultiAttributeSortKey,
   isMultiAttributeSortKeyArray,
   isMultiAttributeSortKeyCondition,
+  isUpdateExpressionBuilder,
 } from './type-guards'
 
 // Types
 export type {
   Key,
+  KeyAttributeValue,
+  KeyAttributeDefinition,
+  KeySchema,
   MultiAttributeKey,
   GSIConfig,
   KeyCondition,
   FilterExpression,
+  FilterOperators,
   ConditionExpression,
+  ConditionOperators,
+  AttributeType,
+  SizeOperators,
+  AttributePath,
+  AttributePathValue,
+  TypedOperators,
+  TypedFilterExpression,
+  TypedConditionExpression,
+  UntypedExpression,
   AccessPatternDefinition,
   AccessPatternDefinitions,
 } from './types'
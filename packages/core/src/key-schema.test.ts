@@ -0,0 +1,144 @@
+/**
+ * Tests for key schema utilities
+ */
+
+import { describe, test, expect } from '@rstest/core'
+import {
+  DEFAULT_KEY_SCHEMA,
+  validateKeySchema,
+  validateKey,
+  extractKey,
+  getKeyAttributeNames,
+} from './key-schema'
+import { DDBLibError } from './errors'
+import type { KeySchema } from './types'
+
+const legacySchema: KeySchema = {
+  partitionKey: { name: 'PK', type: 'string' },
+  sortKey: { name: 'SK', type: 'string' },
+}
+
+const numericIdSchema: KeySchema = {
+  partitionKey: { name: 'id', type: 'number' },
+}
+
+describe('Key Schema', () => {
+  describe('DEFAULT_KEY_SCHEMA', () => {
+    test('should use pk and sk string attributes', () => {
+      expect(DEFAULT_KEY_SCHEMA).toEqual({
+        partitionKey: { name: 'pk', type: 'string' },
+        sortKey: { name: 'sk', type: 'string' },
+      })
+    })
+  })
+
+  describe('validateKeySchema', () => {
+    test('should accept partition-only and composite schemas', () => {
+      expect(() => validateKeySchema(legacySchema)).not.toThrow()
+      expect(() => validateKeySchema(numericIdSchema)).not.toThrow()
+      expect(() =>
+        validateKeySchema({
+          partitionKey: { name: 'hash', type: 'binary' },
+          sortKey: { name: 'range', type: 'number' },
+        })
+      ).not.toThrow()
+    })
+
+    test('should reject empty attribute names', () => {
+      expect(() =>
+        validateKeySchema({ partitionKey: { name: ' ', type: 'string' } })
+      ).toThrow('Key schema partition key must have a non-empty attribute name')
+    })
+
+    test('should reject unsupported types', () => {
+      expect(() =>
+        validateKeySchema({
+          partitionKey: { name: 'PK', type: 'string' },
+          sortKey: { name: 'SK', type: 'boolean' as any },
+        })
+      ).toThrow("Key schema sort key 'SK' must have type 'string', 'number', or 'binary'")
+    })
+
+    test('should reject partition and sort key with the same name', () => {
+      expect(() =>
+        validateKeySchema({
+          partitionKey: { name: 'id', type: 'string' },
+          sortKey: { name: 'id', type: 'string' },
+        })
+      ).toThrow("cannot share the attribute name 'id'")
+    })
+  })
+
+  describe('validateKey', () => {
+    test('should accept keys matching the schema', () => {
+      expect(() => validateKey({ PK: 'USER#1', SK: 'PROFILE' }, legacySchema)).not.toThrow()
+      expect(() => validateKey({ id: 42 }, numericIdSchema)).not.toThrow()
+    })
+
+    test('should reject missing sort key', () => {
+      expect(() => validateKey({ PK: 'USER#1' }, legacySchema)).toThrow(
+        "Key is missing sort key attribute 'SK'"
+      )
+    })
+
+    test('should reject attributes not in the schema', () => {
+      expect(() => validateKey({ pk: 'USER#1', sk: 'PROFILE' }, legacySchema)).toThrow(
+        "Key contains unexpected attribute 'pk'. Expected only: PK, SK"
+      )
+    })
+
+    test('should reject values of the wrong type', () => {
+      expect(() => validateKey({ id: '42' }, numericIdSchema)).toThrow(
+        "Key partition key attribute 'id' must be a finite number (got string)"
+      )
+      expect(() => validateKey({ PK: '', SK: 'PROFILE' }, legacySchema)).toThrow(
+        "Key partition key attribute 'PK' must be a non-empty string"
+      )
+    })
+
+    test('should validate binary keys', () => {
+      const binarySchema: KeySchema = { partitionKey: { name: 'hash', type: 'binary' } }
+
+      expect(() => validateKey({ hash: new Uint8Array([1, 2]) }, binarySchema)).not.toThrow()
+      expect(() => validateKey({ hash: new Uint8Array() }, binarySchema)).toThrow(
+        "Key partition key attribute 'hash' must be a non-empty Uint8Array"
+      )
+    })
+
+    test('should throw DDBLibError with INVALID_KEY code', () => {
+      try {
+        validateKey({ PK: 'USER#1' }, legacySchema)
+        expect.fail('Should have thrown')
+      } catch (error) {
+        expect(error).toBeInstanceOf(DDBLibError)
+        expect((error as DDBLibError).code).toBe('INVALID_KEY')
+        expect((error as DDBLibError).context).toEqual({ keyType: 'sort', attributeName: 'SK' })
+      }
+    })
+  })
+
+  describe('extractKey', () => {
+    test('should pick key attributes from an item', () => {
+      const item = { PK: 'USER#1', SK: 'PROFILE', name: 'Alice' }
+
+      expect(extractKey(item, legacySchema)).toEqual({ PK: 'USER#1', SK: 'PROFILE' })
+    })
+
+    test('should ignore sort key for partition-only schemas', () => {
+      expect(extractKey({ id: 7, sk: 'ignored' }, numericIdSchema)).toEqual({ id: 7 })
+    })
+
+    test('should throw when key attributes are missing', () => {
+      expect(() => extractKey({ name: 'Alice' }, legacySchema)).toThrow(
+        "Key is missing partition key attribute 'PK'"
+      )
+    })
+  })
+
+  describe('getKeyAttributeNames', () => {
+    test('should return partition key first', () => {
+      expect(getKeyAttributeNames(legacySchema)).toEqual(['PK', 'SK'])
+      expect(getKeyAttributeNames(numericIdSchema)).toEqual(['id'])
+    })
+  })
+})
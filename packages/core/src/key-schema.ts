@@ -0,0 +1,160 @@
+/**
+ * Key schema utilities for tables with custom key attribute names and types
+ */
+
+import type { Key, KeyAttributeDefinition, KeyAttributeValue, KeySchema } from './types'
+import { DDBLibError } from './errors'
+
+/**
+ * Default key schema: string partition key `pk` and string sort key `sk`
+ */
+export const DEFAULT_KEY_SCHEMA: KeySchema = {
+  partitionKey: { name: 'pk', type: 'string' },
+  sortKey: { name: 'sk', type: 'string' },
+}
+
+/**
+ * Validate a key schema configuration
+ * @param keySchema - The key schema to validate
+ * @throws {DDBLibError} If validation fails
+ */
+export function validateKeySchema(keySchema: KeySchema): void {
+  const definitions: Array<[string, KeyAttributeDefinition | undefined]> = [
+    ['partition', keySchema.partitionKey],
+    ['sort', keySchema.sortKey],
+  ]
+
+  for (const [keyType, definition] of definitions) {
+    if (definition === undefined && keyType === 'sort') {
+      continue
+    }
+
+    if (!definition || !definition.name || typeof definition.name !== 'string' || definition.name.trim() === '') {
+      throw new DDBLibError(
+        `Key schema ${keyType} key must have a non-empty attribute name`,
+        'INVALID_KEY_SCHEMA',
+        { keyType, definition }
+      )
+    }
+
+    if (!['string', 'number', 'binary'].includes(definition.type)) {
+      throw new DDBLibError(
+        `Key schema ${keyType} key '${definition.name}' must have type 'string', 'number', or 'binary' (got '${definition.type}')`,
+        'INVALID_KEY_SCHEMA',
+        { keyType, attributeName: definition.name, attributeType: definition.type }
+      )
+    }
+  }
+
+  if (keySchema.sortKey && keySchema.sortKey.name === keySchema.partitionKey.name) {
+    throw new DDBLibError(
+      `Key schema partition and sort key cannot share the attribute name '${keySchema.partitionKey.name}'`,
+      'INVALID_KEY_SCHEMA',
+      { attributeName: keySchema.partitionKey.name }
+    )
+  }
+}
+
+/**
+ * Validate a key against a key schema
+ * The key must contain exactly the schema's key attributes with matching types
+ * @param key - The key to validate
+ * @param keySchema - The table or index key schema
+ * @throws {DDBLibError} If the key is missing attributes, has extra attributes or wrong types
+ */
+export function validateKey(key: Key, keySchema: KeySchema): void {
+  const expectedNames = getKeyAttributeNames(keySchema)
+
+  for (const attributeName of Object.keys(key)) {
+    if (key[attributeName] !== undefined && !expectedNames.includes(attributeName)) {
+      throw new DDBLibError(
+        `Key contains unexpected attribute '${attributeName}'. Expected only: ${expectedNames.join(', ')}`,
+        'INVALID_KEY',
+        { attributeName, expectedAttributes: expectedNames }
+      )
+    }
+  }
+
+  validateKeyAttribute(key, keySchema.partitionKey, 'partition')
+  if (keySchema.sortKey) {
+    validateKeyAttribute(key, keySchema.sortKey, 'sort')
+  }
+}
+
+/**
+ * Extract the key attributes from an item according to a key schema
+ * @param item - Item (or cursor) containing at least the key attributes
+ * @param keySchema - The table or index key schema
+ * @returns Key containing only the schema's key attributes
+ * @throws {DDBLibError} If key attributes are missing or have the wrong type
+ * @example
+ * extractKey({ PK: 'USER#1', SK: 'PROFILE', name: 'Alice' }, schema) // { PK: 'USER#1', SK: 'PROFILE' }
+ */
+export function extractKey(item: Record<string, any>, keySchema: KeySchema): Key {
+  validateKeyAttribute(item, keySchema.partitionKey, 'partition')
+
+  const key: Key = {
+    [keySchema.partitionKey.name]: item[keySchema.partitionKey.name],
+  }
+
+  if (keySchema.sortKey) {
+    validateKeyAttribute(item, keySchema.sortKey, 'sort')
+    key[keySchema.sortKey.name] = item[keySchema.sortKey.name]
+  }
+
+  return key
+}
+
+/**
+ * Get the attribute names used by a key schema (partition key first)
+ * @param keySchema - The table or index key schema
+ * @returns Array of attribute names
+ */
+export function getKeyAttributeNames(keySchema: KeySchema): string[] {
+  return keySchema.sortKey
+    ? [keySchema.partitionKey.name, keySchema.sortKey.name]
+    : [keySchema.partitionKey.name]
+}
+
+/**
+ * Validate that a single key attribute is present and matches its declared type
+ */
+function validateKeyAttribute(
+  source: Record<string, any>,
+  definition: KeyAttributeDefinition,
+  keyType: 'partition' | 'sort'
+): void {
+  const value: KeyAttributeValue | undefined = source[definition.name]
+
+  if (value === undefined || value === null) {
+    throw new DDBLibError(
+      `Key is missing ${keyType} key attribute '${definition.name}'`,
+      'INVALID_KEY',
+      { keyType, attributeName: definition.name }
+    )
+  }
+
+  if (definition.type === 'string' && (typeof value !== 'string' || value === '')) {
+    throw new DDBLibError(
+      `Key ${keyType} key attribute '${definition.name}' must be a non-empty string (got ${typeof value})`,
+      'INVALID_KEY',
+      { keyType, attributeName: definition.name, expectedType: 'string', actualType: typeof value }
+    )
+  }
+
+  if (definition.type === 'number' && (typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new DDBLibError(
+      `Key ${keyType} key attribute '${definition.name}' must be a finite number (got ${typeof value})`,
+      'INVALID_KEY',
+      { keyType, attributeName: definition.name, expectedType: 'number', actualType: typeof value }
+    )
+  }
+
+  if (definition.type === 'binary' && (!(value instanceof Uint8Array) || value.length === 0)) {
+    throw new DDBLibError(
+      `Key ${keyType} key attribute '${definition.name}' must be a non-empty Uint8Array (got ${typeof value})`,
+      'INVALID_KEY',
+      { keyType, attributeName: definition.name, expectedType: 'binary', actualType: typeof value }
+    )
+  }
+}
@@ -14,7 +14,9 @@ import {
   gsiHasMultiAttributeSortKey,
   isMultiAttributeSortKeyArray,
   isMultiAttributeSortKeyCondition,
+  isUpdateExpressionBuilder,
 } from './type-guards'
+import { UpdateExpressionBuilder } from './expression-builders'
 import type { KeyCondition, MultiAttributeKey, GSIConfig } from './types'
 
 describe('Type Guards', () => {
@@ -307,4 +309,19 @@ describe('Type Guards', () => {
       expect(isMultiAttributeSortKeyCondition(null as any)).toBe(false)
     })
   })
+
+  describe('isUpdateExpressionBuilder', () => {
+    test('should recognize builders, including ones from another copy of the package', () => {
+      const foreign = { build: () => ({ expression: 'SET #a = :a', attributeNames: {} }) }
+
+      expect(isUpdateExpressionBuilder(new UpdateExpressionBuilder().set('a', 1))).toBe(true)
+      expect(isUpdateExpressionBuilder(foreign)).toBe(true)
+    })
+
+    test('should return false for partial items', () => {
+      expect(isUpdateExpressionBuilder({ name: 'Alice', build: 'v2' })).toBe(false)
+      expect(isUpdateExpressionBuilder({})).toBe(false)
+      expect(isUpdateExpressionBuilder(null)).toBe(false)
+    })
+  })
 })
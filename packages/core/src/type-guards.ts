@@ -3,6 +3,7 @@
  */
 
 import type { KeyCondition, MultiAttributeKey, GSIConfig } from './types'
+import type { UpdateExpressionBuilder } from './expression-builders'
 
 /**
  * Type guard to check if a value is a MultiAttributeKey
@@ -110,3 +111,16 @@ export function isMultiAttributeSortKeyCondition(
 ): multiSk is Record<string, any> {
   return !Array.isArray(multiSk) && typeof multiSk === 'object' && multiSk !== null
 }
+
+/**
+ * Type guard to check if updates are an UpdateExpressionBuilder rather than a partial item
+ * Checks the shape instead of using instanceof, so builders from another copy of this
+ * package (duplicate installs, CJS and ESM builds side by side) are recognized too
+ */
+export function isUpdateExpressionBuilder(value: unknown): value is UpdateExpressionBuilder {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as UpdateExpressionBuilder).build === 'function'
+  )
+}
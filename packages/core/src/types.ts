@@ -3,12 +3,35 @@
  * This module contains types with no external dependencies
  */
 
+/**
+ * Value allowed in a DynamoDB key attribute (S, N or B)
+ */
+export type KeyAttributeValue = string | number | Uint8Array
+
 /**
  * Key representation for DynamoDB items
+ * Uses `pk`/`sk` by default; tables with a custom KeySchema use their own
+ * attribute names (e.g. `{ PK: 'USER#1', SK: 'PROFILE' }` or `{ id: 42 }`)
  */
 export interface Key {
-  pk: string
-  sk?: string
+  [attributeName: string]: KeyAttributeValue | undefined
+}
+
+/**
+ * Definition of a single key attribute (name and DynamoDB scalar type)
+ */
+export interface KeyAttributeDefinition {
+  name: string
+  type: 'string' | 'number' | 'binary'
+}
+
+/**
+ * Key schema of a table or index
+ * Maps the logical partition/sort key to the actual attribute names and types
+ */
+export interface KeySchema {
+  partitionKey: KeyAttributeDefinition
+  sortKey?: KeyAttributeDefinition
 }
 
 /**
@@ -71,44 +94,228 @@ export interface KeyCondition {
   }
 }
 
+/**
+ * DynamoDB attribute type descriptors accepted by `attribute_type`
+ */
+export type AttributeType = 'S' | 'SS' | 'N' | 'NS' | 'B' | 'BS' | 'BOOL' | 'NULL' | 'L' | 'M'
+
+/**
+ * Comparisons against `size(path)`: string length, binary length,
+ * or number of elements in a list, map or set
+ */
+export interface SizeOperators {
+  eq?: number
+  ne?: number
+  lt?: number
+  lte?: number
+  gt?: number
+  gte?: number
+  between?: [number, number]
+}
+
+/**
+ * Operators that can be applied to a single attribute in a filter expression
+ */
+export interface FilterOperators {
+  eq?: any
+  ne?: any
+  lt?: any
+  lte?: any
+  gt?: any
+  gte?: any
+  between?: [any, any]
+  in?: any[]
+  exists?: boolean
+  contains?: any
+  beginsWith?: string
+  attributeType?: AttributeType
+  size?: SizeOperators
+}
+
 /**
  * Filter expression for query and scan operations
+ * Top-level fields are combined with AND; `and`, `or` and `not` build nested groups
+ * @example
+ * { or: [{ status: 'A' }, { priority: { gt: 5 } }], not: { archived: true } }
  */
 export interface FilterExpression {
-  [field: string]:
-  | any
-  | {
-    eq?: any
-    ne?: any
-    lt?: any
-    lte?: any
-    gt?: any
-    gte?: any
-    between?: [any, any]
-    in?: any[]
-    exists?: boolean
-    contains?: any
-    beginsWith?: string
-  }
+  /** Every sub-filter must match */
+  and?: FilterExpression[]
+  /** At least one sub-filter must match */
+  or?: FilterExpression[]
+  /** The sub-filter must not match */
+  not?: FilterExpression
+  [field: string]: any | FilterOperators
+}
+
+/**
+ * Operators that can be applied to a single attribute in a condition expression
+ */
+export interface ConditionOperators {
+  eq?: any
+  ne?: any
+  lt?: any
+  lte?: any
+  gt?: any
+  gte?: any
+  between?: [any, any]
+  in?: any[]
+  exists?: boolean
+  contains?: any
+  beginsWith?: string
+  attributeType?: AttributeType
+  size?: SizeOperators
 }
 
 /**
  * Condition expression for conditional operations
  */
 export interface ConditionExpression {
-  [field: string]:
-  | any
-  | {
-    eq?: any
-    ne?: any
-    lt?: any
-    lte?: any
-    gt?: any
-    gte?: any
-    exists?: boolean
-    contains?: any
-    beginsWith?: string
-  }
+  [field: string]: any | ConditionOperators
+}
+
+/**
+ * Values treated as leaves when deriving attribute paths from an item type
+ */
+type AttributeLeaf = string | number | boolean | bigint | Uint8Array | Date | Set<any>
+
+/**
+ * Remaining nesting depth when deriving attribute paths (keeps recursive item types finite)
+ */
+type PreviousDepth = [never, 0, 1, 2, 3, 4]
+
+type IsAny<T> = 0 extends 1 & T ? true : false
+
+/**
+ * Paths below an attribute named `P` holding a value of type `V`
+ */
+type NestedAttributePath<V, P extends string, D extends number> = [D] extends [never]
+  ? P
+  : IsAny<V> extends true
+    ? P | `${P}.${string}` | `${P}[${number}]${string}`
+    : NonNullable<V> extends AttributeLeaf
+      ? P
+      : NonNullable<V> extends ReadonlyArray<infer E>
+        ? P | NestedAttributePath<E, `${P}[${number}]`, PreviousDepth[D]>
+        : NonNullable<V> extends object
+          ? P | `${P}.${AttributePath<NonNullable<V>, PreviousDepth[D]>}`
+          : P
+
+/**
+ * Attribute paths of an item type: top-level names, nested map attributes
+ * ('address.city') and list elements ('tags[0]'), up to five levels deep
+ * Names containing '.', '[' or ']' can only be used through `untyped()`
+ */
+export type AttributePath<T, D extends number = 5> = IsAny<T> extends true
+  ? string
+  : {
+    [K in keyof T & string]-?: NestedAttributePath<T[K], K, D>
+  }[keyof T & string]
+
+/**
+ * Type of the element at the end of a chain of list indexes ('[0][1]')
+ */
+type IndexedAttributeValue<V, S extends string> = S extends `[${number}]${infer Rest}`
+  ? NonNullable<V> extends ReadonlyArray<infer E>
+    ? IndexedAttributeValue<E, Rest>
+    : never
+  : S extends ''
+    ? V
+    : never
+
+/**
+ * Type of a single path segment ('name' or 'items[0]') within `T`
+ */
+type SegmentValue<T, S extends string> = S extends `${infer K}[${infer Rest}`
+  ? K extends keyof NonNullable<T>
+    ? IndexedAttributeValue<NonNullable<T>[K], `[${Rest}`>
+    : never
+  : S extends keyof NonNullable<T>
+    ? NonNullable<T>[S]
+    : never
+
+/**
+ * Type of the value found at an attribute path of an item type
+ */
+export type AttributePathValue<T, P extends string> = IsAny<T> extends true
+  ? any
+  : P extends `${infer Head}.${infer Rest}`
+    ? AttributePathValue<SegmentValue<T, Head>, Rest>
+    : SegmentValue<T, P>
+
+/**
+ * Operators for an attribute of type `V`, shared by filter and condition expressions
+ */
+export interface TypedOperators<V> {
+  eq?: V
+  ne?: V
+  lt?: V
+  lte?: V
+  gt?: V
+  gte?: V
+  between?: [V, V]
+  in?: V[]
+  exists?: boolean
+  contains?: IsAny<V> extends true
+    ? any
+    : V extends ReadonlyArray<infer E>
+      ? E
+      : V extends Set<infer E>
+        ? E
+        : V extends string
+          ? string
+          : never
+  beginsWith?: IsAny<V> extends true ? string : V extends string ? string : never
+  attributeType?: AttributeType
+  size?: SizeOperators
+}
+
+/**
+ * Condition on a single attribute: a plain value (equality) or operators
+ * Map, set and binary values can only be compared through `eq`, because any
+ * other object is read as operators
+ */
+type TypedAttributeCondition<V> =
+  | TypedOperators<NonNullable<V>>
+  | (NonNullable<V> extends ReadonlyArray<any> ? V : NonNullable<V> extends object ? never : V)
+
+declare const untypedBrand: unique symbol
+
+/**
+ * A filter or condition expression that bypasses item-type checking, created with `untyped()`
+ */
+export interface UntypedExpression {
+  readonly [untypedBrand]: true
+}
+
+/**
+ * Filter expression checked against an item type: keys are restricted to
+ * attribute paths of `T` and operator values to the attribute's type
+ * Falls back to `FilterExpression` when `T` is `any`
+ * @example
+ * const filter: TypedFilterExpression<Order> = { or: [{ status: 'OPEN' }, { total: { gt: 100 } }] }
+ */
+export type TypedFilterExpression<T> = IsAny<T> extends true
+  ? FilterExpression
+  : TypedExpressionObject<T> | UntypedExpression
+
+/**
+ * Condition expression checked against an item type, see `TypedFilterExpression`
+ * Falls back to `ConditionExpression` when `T` is `any`
+ */
+export type TypedConditionExpression<T> = IsAny<T> extends true
+  ? ConditionExpression
+  : TypedExpressionObject<T> | UntypedExpression
+
+/**
+ * Object form shared by typed filter and condition expressions
+ */
+type TypedExpressionObject<T> = {
+  [P in AttributePath<T>]?: TypedAttributeCondition<AttributePathValue<T, P>>
+} & {
+  and?: Array<TypedExpressionObject<T> | UntypedExpression>
+  or?: Array<TypedExpressionObject<T> | UntypedExpression>
+  not?: TypedExpressionObject<T> | UntypedExpression
 }
 
 /**
@@ -17,6 +17,7 @@ export type {
   OperationStats,
   OperationTypeStats,
   AccessPatternStats,
+  CacheStats,
   TableStats,
   HotPartitionReport,
   ScanReport,
@@ -202,6 +202,36 @@ describe('StatsCollector', () => {
     })
   })
 
+  describe('recordCacheLookup', () => {
+    test('should aggregate hits, misses and hit rate by operation', () => {
+      collector.recordCacheLookup('get', true)
+      collector.recordCacheLookup('get', true)
+      collector.recordCacheLookup('get', false)
+      collector.recordCacheLookup('batchGet', false)
+
+      expect(collector.getStats().cache).toEqual({
+        get: { hits: 2, misses: 1, hitRate: 2 / 3 },
+        batchGet: { hits: 0, misses: 1, hitRate: 0 },
+      })
+    })
+
+    test('should omit cache stats until a lookup is recorded or after reset', () => {
+      expect(collector.getStats().cache).toBeUndefined()
+
+      collector.recordCacheLookup('get', true)
+      collector.reset()
+
+      expect(collector.getStats().cache).toBeUndefined()
+    })
+
+    test('should not record lookups when disabled', () => {
+      const disabled = new StatsCollector({ enabled: false })
+      disabled.recordCacheLookup('get', true)
+
+      expect(disabled.getStats().cache).toBeUndefined()
+    })
+  })
+
   describe('export', () => {
     test('should export all recorded operations', () => {
       const record1: OperationRecord = {
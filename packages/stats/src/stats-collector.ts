@@ -9,6 +9,7 @@ import type {
   OperationStats,
   OperationTypeStats,
   AccessPatternStats,
+  CacheStats,
   TableStats,
 } from './types'
 
@@ -19,6 +20,7 @@ import type {
 export class StatsCollector {
   private readonly config: Required<StatsConfig>
   private readonly operations: OperationStats[] = []
+  private readonly cacheLookups = new Map<string, { hits: number; misses: number }>()
 
   constructor(config: StatsConfig) {
     // Set defaults for optional config values
@@ -70,6 +72,27 @@ export class StatsCollector {
     this.operations.push(stats)
   }
 
+  /**
+   * Record a cache lookup
+   * Lookups are counted whenever collection is enabled, without sampling.
+   * 
+   * @param operation - Operation type the lookup was made for (e.g. 'get')
+   * @param hit - Whether the cache answered the lookup
+   */
+  recordCacheLookup(operation: string, hit: boolean): void {
+    if (!this.config.enabled) {
+      return
+    }
+
+    const lookups = this.cacheLookups.get(operation) ?? { hits: 0, misses: 0 }
+    if (hit) {
+      lookups.hits++
+    } else {
+      lookups.misses++
+    }
+    this.cacheLookups.set(operation, lookups)
+  }
+
   /**
    * Get aggregated statistics
    * 
@@ -128,10 +151,28 @@ export class StatsCollector {
       }
     }
 
-    return {
+    const stats: TableStats = {
       operations: operationStats,
       accessPatterns: patternStats,
     }
+
+    // Add cache hit rates once the cache was used
+    if (this.cacheLookups.size > 0) {
+      stats.cache = this.getCacheStats()
+    }
+
+    return stats
+  }
+
+  /**
+   * Aggregate cache lookups by operation type
+   */
+  private getCacheStats(): { [operationType: string]: CacheStats } {
+    const cacheStats: { [operationType: string]: CacheStats } = {}
+    for (const [operation, { hits, misses }] of this.cacheLookups) {
+      cacheStats[operation] = { hits, misses, hitRate: hits / (hits + misses) }
+    }
+    return cacheStats
   }
 
   /**
@@ -148,6 +189,7 @@ export class StatsCollector {
    */
   reset(): void {
     this.operations.length = 0
+    this.cacheLookups.clear()
   }
 
   /**
@@ -24,7 +24,7 @@ export interface StatsConfig {
  */
 export interface OperationRecord {
   /** Operation type */
-  operation: 'get' | 'put' | 'update' | 'delete' | 'query' | 'scan' | 'batchGet' | 'batchWrite' | 'transactWrite' | 'transactGet'
+  operation: 'get' | 'put' | 'update' | 'delete' | 'query' | 'scan' | 'count' | 'batchGet' | 'batchWrite' | 'transactWrite' | 'transactGet' | 'partiql'
   /** Timestamp when operation was executed */
   timestamp: number
   /** Operation latency in milliseconds */
@@ -45,6 +45,8 @@ export interface OperationRecord {
   filter?: any
   /** Access pattern name (if using named patterns) */
   patternName?: string
+  /** Whether a projection expression was used */
+  usedProjection?: boolean
   /** Additional metadata */
   metadata?: Record<string, any>
 }
@@ -59,8 +61,6 @@ export interface OperationStats extends OperationRecord {
   consumedRCU?: number
   /** Consumed write capacity units (normalized name) */
   consumedWCU?: number
-  /** Whether projection expression was used */
-  usedProjection?: boolean
   /** Number of attributes projected (if projection was used) */
   projectedAttributeCount?: number
   /** Partition key value (for tracking hot partitions and patterns) */
@@ -101,6 +101,18 @@ export interface AccessPatternStats {
   avgItemsReturned: number
 }
 
+/**
+ * Aggregated cache lookups of one operation type
+ */
+export interface CacheStats {
+  /** Lookups answered from the cache */
+  hits: number
+  /** Lookups that had to read from the table */
+  misses: number
+  /** Share of lookups answered from the cache (0-1) */
+  hitRate: number
+}
+
 /**
  * Complete table statistics
  */
@@ -113,6 +125,10 @@ export interface TableStats {
   accessPatterns: {
     [patternName: string]: AccessPatternStats
   }
+  /** Cache lookups by operation type (only present once a cache lookup was recorded) */
+  cache?: {
+    [operationType: string]: CacheStats
+  }
 }
 
 /**